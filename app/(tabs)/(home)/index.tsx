@@ -7,6 +7,19 @@ import React, { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
+import { TemplatePicker } from "@/components/TemplatePicker";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
+import { EncryptionToggle } from "@/components/EncryptionToggle";
+import { uploadAttachment } from "@/utils/attachments";
+import { encryptForLink, withLinkKey } from "@/utils/encryption";
+import { senderNotice } from "@/utils/realtime";
+import { useRealtime } from "@/hooks/useRealtime";
+import type { ImagePickerAsset } from "expo-image-picker";
+import {
+  DEFAULT_SELECTION,
+  templateMessageFields,
+  type TemplateSelection,
+} from "@/utils/messageTemplates";
 import { BleManager, Device, State } from "react-native-ble-plx";
 import { 
   StyleSheet, 
@@ -32,7 +45,6 @@ interface NearbyDevice {
   rssi: number;
 }
 
-const PREDEFINED_MESSAGE = "Do you accept to have lunch with me?";
 const APP_SERVICE_UUID = "00001234-0000-1000-8000-00805f9b34fb";
 
 export default function HomeScreen() {
@@ -48,6 +60,9 @@ export default function HomeScreen() {
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
   const [modalType, setModalType] = useState<"success" | "error">("success");
+  const [selection, setSelection] = useState<TemplateSelection>(DEFAULT_SELECTION);
+  const [attachments, setAttachments] = useState<ImagePickerAsset[]>([]);
+  const [encrypt, setEncrypt] = useState(false);
   const [shouldRedirect, setShouldRedirect] = useState(false);
 
   const showConfirmMessage = useCallback((title: string, message: string, type: "success" | "error") => {
@@ -57,6 +72,14 @@ export default function HomeScreen() {
     setModalVisible(true);
   }, []);
 
+  // Live word on requests the user sent, so they do not have to go looking
+  useRealtime((event) => {
+    const notice = senderNotice(event, user?.id);
+    if (notice) {
+      showConfirmMessage(notice.title, notice.message, notice.type);
+    }
+  }, !!user);
+
   const requestBluetoothPermissions = useCallback(async () => {
     if (Platform.OS === "android") {
       try {
@@ -148,17 +171,28 @@ export default function HomeScreen() {
   const handleShareLink = useCallback(async () => {
     console.log("User tapped Share Link");
     try {
-      console.log("Creating message to generate secure link");
-      const response = await authenticatedPost("/api/messages", {
-        message: PREDEFINED_MESSAGE,
-      });
-
-      const messageId = response.id;
-      const shareUrl = `${response.shareUrl || `https://acceptconnect.app/message/${response.token}`}`;
+      console.log("Generating secure link for message");
+      // Encrypted requests send the rendered text, sealed on this device, instead of the template
+      const encryptedLink = encrypt ? await encryptForLink(selection.content) : null;
+      const response = await authenticatedPost(
+        "/api/messages/link",
+        encryptedLink ? encryptedLink.fields : templateMessageFields(selection)
+      );
+
+      // The key goes in the fragment, which browsers never send to the server
+      const shareUrl = encryptedLink ? withLinkKey(response.url, encryptedLink.linkKey) : response.url;
       console.log("Secure link generated:", shareUrl);
 
+      // Attach the photos before anyone can open the link
+      for (const asset of attachments) {
+        await uploadAttachment(response.id, asset);
+      }
+      setAttachments([]);
+
       await Share.share({
-        message: `${PREDEFINED_MESSAGE}\n\nRespond here: ${shareUrl}`,
+        message: encryptedLink
+          ? `I sent you a private request.\n\nRespond here: ${shareUrl}`
+          : `${selection.content}\n\nRespond here: ${shareUrl}`,
         url: shareUrl,
       });
 
@@ -167,10 +201,19 @@ export default function HomeScreen() {
       console.error("Error sharing link:", error);
       showConfirmMessage("Error", "Failed to generate share link", "error");
     }
-  }, [showConfirmMessage]);
+  }, [selection, attachments, encrypt, showConfirmMessage]);
 
   const handleAskButtonPress = useCallback(async () => {
     console.log("User tapped Ask button");
+    if (!selection.complete) {
+      showConfirmMessage("Missing Details", "Fill in the template details before sending", "error");
+      return;
+    }
+    // Files are stored as they are, so they cannot go with an encrypted request
+    if (encrypt && attachments.length > 0) {
+      showConfirmMessage("Photos Not Encrypted", "Remove the photos or turn off encryption before sending", "error");
+      return;
+    }
     // Show options: Scan for nearby devices or Share link
     RNAlert.alert(
       "Send Request",
@@ -195,7 +238,7 @@ export default function HomeScreen() {
         },
       ]
     );
-  }, [requestBluetoothPermissions, startScanning, handleShareLink]);
+  }, [selection, encrypt, attachments, requestBluetoothPermissions, startScanning, handleShareLink, showConfirmMessage]);
 
   const handleSelectNearbyDevice = useCallback(async (device: NearbyDevice) => {
     console.log("User selected device:", device.name);
@@ -206,7 +249,7 @@ export default function HomeScreen() {
       console.log("Creating proximity session for device:", device.id);
       const response = await authenticatedPost("/api/proximity/session", {
         recipientDeviceId: device.id,
-        message: PREDEFINED_MESSAGE,
+        ...(!encrypt && { message: selection.content }),
       });
 
       console.log("Proximity session created:", response);
@@ -215,7 +258,7 @@ export default function HomeScreen() {
       console.error("Error creating proximity session:", error);
       showConfirmMessage("Error", "Failed to send request to device", "error");
     }
-  }, [stopScanning, showConfirmMessage]);
+  }, [selection, encrypt, stopScanning, showConfirmMessage]);
 
   const handleCloseModal = useCallback(() => {
     setModalVisible(false);
@@ -267,8 +310,11 @@ export default function HomeScreen() {
           <Text style={styles.askButtonText}>Ask</Text>
         </TouchableOpacity>
         <Text style={[styles.messagePreview, { color: colors.text }]}>
-          {PREDEFINED_MESSAGE}
+          {selection.content}
         </Text>
+        <TemplatePicker onChange={setSelection} />
+        <AttachmentPicker assets={attachments} onChange={setAttachments} />
+        <EncryptionToggle value={encrypt} onChange={setEncrypt} />
       </View>
 
       {/* Nearby Devices Modal */}
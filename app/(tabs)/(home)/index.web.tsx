@@ -7,6 +7,19 @@ import React, { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
+import { TemplatePicker } from "@/components/TemplatePicker";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
+import { EncryptionToggle } from "@/components/EncryptionToggle";
+import { uploadAttachment } from "@/utils/attachments";
+import { encryptForLink, withLinkKey } from "@/utils/encryption";
+import { senderNotice } from "@/utils/realtime";
+import { useRealtime } from "@/hooks/useRealtime";
+import type { ImagePickerAsset } from "expo-image-picker";
+import {
+  DEFAULT_SELECTION,
+  templateMessageFields,
+  type TemplateSelection,
+} from "@/utils/messageTemplates";
 import { 
   StyleSheet, 
   View, 
@@ -22,8 +35,6 @@ import {
 // Suppress warnings in development
 LogBox.ignoreLogs(['new NativeEventEmitter']);
 
-const PREDEFINED_MESSAGE = "Do you accept to have lunch with me?";
-
 export default function HomeScreen() {
   const { colors } = useTheme();
   const { user, authLoading } = useAuth();
@@ -33,6 +44,9 @@ export default function HomeScreen() {
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
   const [modalType, setModalType] = useState<"success" | "error">("success");
+  const [selection, setSelection] = useState<TemplateSelection>(DEFAULT_SELECTION);
+  const [attachments, setAttachments] = useState<ImagePickerAsset[]>([]);
+  const [encrypt, setEncrypt] = useState(false);
 
   const showConfirmMessage = useCallback((title: string, message: string, type: "success" | "error") => {
     setModalTitle(title);
@@ -41,17 +55,35 @@ export default function HomeScreen() {
     setModalVisible(true);
   }, []);
 
+  // Live word on requests the user sent, so they do not have to go looking
+  useRealtime((event) => {
+    const notice = senderNotice(event, user?.id);
+    if (notice) {
+      showConfirmMessage(notice.title, notice.message, notice.type);
+    }
+  }, !!user);
+
   const handleShareLink = useCallback(async () => {
     console.log("User tapped Share Link (Web)");
     try {
       console.log("Generating secure link for message");
-      const response = await authenticatedPost("/api/messages/link", {
-        message: PREDEFINED_MESSAGE,
-      });
+      // Encrypted requests send the rendered text, sealed on this device, instead of the template
+      const encryptedLink = encrypt ? await encryptForLink(selection.content) : null;
+      const response = await authenticatedPost(
+        "/api/messages/link",
+        encryptedLink ? encryptedLink.fields : templateMessageFields(selection)
+      );
 
-      const shareUrl = response.url;
+      // The key goes in the fragment, which browsers never send to the server
+      const shareUrl = encryptedLink ? withLinkKey(response.url, encryptedLink.linkKey) : response.url;
       console.log("Secure link generated:", shareUrl);
 
+      // Attach the photos before anyone can open the link
+      for (const asset of attachments) {
+        await uploadAttachment(response.id, asset);
+      }
+      setAttachments([]);
+
       // On web, copy to clipboard
       if (navigator.clipboard) {
         await navigator.clipboard.writeText(shareUrl);
@@ -72,13 +104,22 @@ export default function HomeScreen() {
       console.error("Error sharing link:", error);
       showConfirmMessage("Error", "Failed to generate share link", "error");
     }
-  }, [showConfirmMessage]);
+  }, [selection, attachments, encrypt, showConfirmMessage]);
 
   const handleAskButtonPress = useCallback(() => {
     console.log("User tapped Ask button (Web)");
+    if (!selection.complete) {
+      showConfirmMessage("Missing Details", "Fill in the template details before sending", "error");
+      return;
+    }
+    // Files are stored as they are, so they cannot go with an encrypted request
+    if (encrypt && attachments.length > 0) {
+      showConfirmMessage("Photos Not Encrypted", "Remove the photos or turn off encryption before sending", "error");
+      return;
+    }
     // On web, only share link is available (no BLE)
     handleShareLink();
-  }, [handleShareLink]);
+  }, [selection, encrypt, attachments, handleShareLink, showConfirmMessage]);
 
   const handleCloseModal = useCallback(() => {
     setModalVisible(false);
@@ -112,8 +153,11 @@ export default function HomeScreen() {
           <Text style={styles.askButtonText}>Ask</Text>
         </TouchableOpacity>
         <Text style={[styles.messagePreview, { color: colors.text }]}>
-          {PREDEFINED_MESSAGE}
+          {selection.content}
         </Text>
+        <TemplatePicker onChange={setSelection} />
+        <AttachmentPicker assets={attachments} onChange={setAttachments} />
+        <EncryptionToggle value={encrypt} onChange={setEncrypt} />
         <Text style={[styles.webNote, { color: colors.text }]}>
           Click to generate a shareable link
         </Text>
@@ -15,13 +15,17 @@ import React, { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { IconSymbol } from "@/components/IconSymbol";
 import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { BackgroundLocationCard } from "@/components/BackgroundLocationCard";
+import { useRealtime } from "@/hooks/useRealtime";
+import { connectionNotice } from "@/utils/realtime";
 import * as Location from "expo-location";
 
 interface NearbyUser {
-  id: string;
+  user_id: string;
   username: string;
-  distance: number;
-  lastSeen: string;
+  distance_meters: number | null;
+  distance_label: string;
+  last_seen: string;
 }
 
 export default function NearbyScreen() {
@@ -34,6 +38,7 @@ export default function NearbyScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [locationPermission, setLocationPermission] = useState(false);
   const [shouldRedirect, setShouldRedirect] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const requestLocationPermission = useCallback(async () => {
     try {
@@ -61,7 +66,7 @@ export default function NearbyScreen() {
       const location = await Location.getCurrentPositionAsync({});
       console.log("Current location:", location.coords);
 
-      await authenticatedPost("/api/users/location", {
+      await authenticatedPost("/api/location/update", {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
       });
@@ -75,9 +80,10 @@ export default function NearbyScreen() {
   const loadNearbyUsers = useCallback(async () => {
     try {
       console.log("Loading nearby users");
-      const response = await authenticatedGet("/api/users/nearby");
-      setNearbyUsers(response);
-      console.log("Loaded nearby users:", response.length);
+      const response = await authenticatedGet<{ users: NearbyUser[] }>("/api/location/nearby");
+      const users = response.users || [];
+      setNearbyUsers(users);
+      console.log("Loaded nearby users:", users.length);
     } catch (error) {
       console.error("Error loading nearby users:", error);
     } finally {
@@ -105,15 +111,16 @@ export default function NearbyScreen() {
     }
   }, []);
 
-  const formatDistance = useCallback((meters: number) => {
-    if (meters < 1000) {
-      const distanceText = `${Math.round(meters)}m`;
-      return distanceText;
+  // Connection requests and answers show up without waiting for the next refresh
+  useRealtime((event) => {
+    const text = connectionNotice(event, user?.id);
+    if (text) {
+      setNotice(text);
     }
-    const km = meters / 1000;
-    const distanceText = `${km.toFixed(1)}km`;
-    return distanceText;
-  }, []);
+    if (text || event.type === "reconnected") {
+      loadNearbyUsers();
+    }
+  }, !!user);
 
   // Request location permission on mount
   useEffect(() => {
@@ -214,11 +221,24 @@ export default function NearbyScreen() {
           </Text>
         </View>
 
+        <BackgroundLocationCard />
+
+        {notice && (
+          <TouchableOpacity
+            style={[styles.noticeBanner, { backgroundColor: colors.primary }]}
+            onPress={() => setNotice(null)}
+          >
+            <Text style={styles.noticeText}>{notice}</Text>
+            <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={16} color="#fff" />
+          </TouchableOpacity>
+        )}
+
         <FlatList
           data={nearbyUsers}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.user_id}
           renderItem={({ item }) => {
-            const distanceText = formatDistance(item.distance);
+            // The server already bucketed or rounded the distance per the user's privacy settings
+            const distanceText = item.distance_label;
             return (
               <View style={[styles.userCard, { backgroundColor: colors.card }]}>
                 <View style={styles.userInfo}>
@@ -239,7 +259,7 @@ export default function NearbyScreen() {
                 </View>
                 <TouchableOpacity
                   style={[styles.sendButton, { backgroundColor: colors.primary }]}
-                  onPress={() => handleSendRequest(item.id)}
+                  onPress={() => handleSendRequest(item.user_id)}
                 >
                   <IconSymbol
                     ios_icon_name="paperplane.fill"
@@ -290,6 +310,20 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.xxl,
     fontWeight: "bold",
   },
+  noticeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing.md,
+    marginHorizontal: spacing.md,
+    marginTop: spacing.sm,
+    borderRadius: borderRadius.md,
+  },
+  noticeText: {
+    flex: 1,
+    color: "#fff",
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
   userCard: {
     flexDirection: "row",
     justifyContent: "space-between",
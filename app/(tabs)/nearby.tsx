@@ -16,13 +16,17 @@ import { useAuth } from "@/contexts/AuthContext";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
 import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { BackgroundLocationCard } from "@/components/BackgroundLocationCard";
+import { useRealtime } from "@/hooks/useRealtime";
+import { connectionNotice } from "@/utils/realtime";
 import * as Location from "expo-location";
 
 interface NearbyUser {
-  id: string;
+  user_id: string;
   username: string;
-  distance: number;
-  lastSeen: string;
+  distance_meters: number | null;
+  distance_label: string;
+  last_seen: string;
 }
 
 export default function NearbyScreen() {
@@ -35,6 +39,7 @@ export default function NearbyScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [locationPermission, setLocationPermission] = useState(false);
   const [shouldRedirect, setShouldRedirect] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
 
   const requestLocationPermission = useCallback(async () => {
     try {
@@ -98,8 +103,7 @@ export default function NearbyScreen() {
     try {
       console.log("Sending connection request to user:", userId);
       await authenticatedPost("/api/connections/request", {
-        recipientId: userId,
-        message: "Do you accept to have lunch with me?",
+        target_user_id: userId,
       });
       console.log("Connection request sent successfully");
     } catch (error) {
@@ -107,15 +111,16 @@ export default function NearbyScreen() {
     }
   }, []);
 
-  const formatDistance = useCallback((meters: number) => {
-    if (meters < 1000) {
-      const distanceText = `${Math.round(meters)}m`;
-      return distanceText;
+  // Connection requests and answers show up without waiting for the next refresh
+  useRealtime((event) => {
+    const text = connectionNotice(event, user?.id);
+    if (text) {
+      setNotice(text);
     }
-    const km = meters / 1000;
-    const distanceText = `${km.toFixed(1)}km`;
-    return distanceText;
-  }, []);
+    if (text || event.type === "reconnected") {
+      loadNearbyUsers();
+    }
+  }, !!user);
 
   // Request location permission on mount
   useEffect(() => {
@@ -196,11 +201,24 @@ export default function NearbyScreen() {
         </Text>
       </View>
 
+      <BackgroundLocationCard />
+
+      {notice && (
+        <TouchableOpacity
+          style={[styles.noticeBanner, { backgroundColor: colors.primary }]}
+          onPress={() => setNotice(null)}
+        >
+          <Text style={styles.noticeText}>{notice}</Text>
+          <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={16} color="#fff" />
+        </TouchableOpacity>
+      )}
+
       <FlatList
         data={nearbyUsers}
-        keyExtractor={(item) => item.id}
+        keyExtractor={(item) => item.user_id}
         renderItem={({ item }) => {
-          const distanceText = formatDistance(item.distance);
+          // The server already bucketed or rounded the distance per the user's privacy settings
+          const distanceText = item.distance_label;
           return (
             <View style={[styles.userCard, { backgroundColor: colors.card }]}>
               <View style={styles.userInfo}>
@@ -221,7 +239,7 @@ export default function NearbyScreen() {
               </View>
               <TouchableOpacity
                 style={[styles.sendButton, { backgroundColor: colors.primary }]}
-                onPress={() => handleSendRequest(item.id)}
+                onPress={() => handleSendRequest(item.user_id)}
               >
                 <IconSymbol
                   ios_icon_name="paperplane.fill"
@@ -270,6 +288,20 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.xxl,
     fontWeight: "bold",
   },
+  noticeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: spacing.md,
+    marginHorizontal: spacing.md,
+    marginTop: spacing.sm,
+    borderRadius: borderRadius.md,
+  },
+  noticeText: {
+    flex: 1,
+    color: "#fff",
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
   userCard: {
     flexDirection: "row",
     justifyContent: "space-between",
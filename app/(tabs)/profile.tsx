@@ -4,6 +4,7 @@
  * Features:
  * - View user profile information
  * - Manage active GPS-based connections
+ * - Open conversations with connected users
  * - View all user data (GDPR compliance)
  * - Delete user account (GDPR compliance)
  * - Sign out functionality
@@ -11,6 +12,8 @@
  * Backend Integration:
  * ✅ GET /api/connections/active - Gets all accepted connections
  * ✅ DELETE /api/connections/{id} - Removes a connection
+ * ✅ GET /api/conversations - Gets unread counts per connected user
+ * ✅ POST /api/conversations - Opens the conversation with a connected user
  * ✅ GET /api/users/me/data - Gets all user data
  * ✅ DELETE /api/users/me - Deletes user account
  * 
@@ -36,6 +39,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "expo-router";
 import { colors, spacing, borderRadius, typography } from "@/styles/commonStyles";
 import { authenticatedGet, authenticatedDelete } from "@/utils/api";
+import { fetchConversations, openConversation } from "@/utils/conversations";
+import { useRealtime } from "@/hooks/useRealtime";
 
 interface ActiveConnection {
   id: string;
@@ -69,6 +74,8 @@ export default function ProfileScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [showConnectionsModal, setShowConnectionsModal] = useState(false);
   const [deletingConnectionId, setDeletingConnectionId] = useState<string | null>(null);
+  const [openingConversationFor, setOpeningConversationFor] = useState<string | null>(null);
+  const [unreadByUser, setUnreadByUser] = useState<Record<string, number>>({});
 
   const showMessage = (title: string, message: string, type: "success" | "error") => {
     setMessageConfig({ title, message, type });
@@ -81,6 +88,19 @@ export default function ProfileScreen() {
     }
   }, [user]);
 
+  // New connections and unread messages appear while the screen is open
+  useRealtime((event) => {
+    if (event.type === "conversation_message" && !event.data.is_own) {
+      const senderId = event.data.sender_id;
+      setUnreadByUser((current) => ({ ...current, [senderId]: (current[senderId] || 0) + 1 }));
+    } else if (
+      (event.type === "connection_status" && event.data.status === "accepted") ||
+      event.type === "reconnected"
+    ) {
+      loadActiveConnections();
+    }
+  }, !!user);
+
   const loadActiveConnections = async () => {
     setLoadingConnections(true);
     try {
@@ -89,6 +109,11 @@ export default function ProfileScreen() {
       const connections = response.connections || [];
       setActiveConnections(connections);
       console.log("[Profile] Active connections loaded:", connections.length);
+
+      const { conversations } = await fetchConversations();
+      setUnreadByUser(
+        Object.fromEntries(conversations.map((conversation) => [conversation.other_user_id, conversation.unread_count]))
+      );
       
       if (connections.length > 0) {
         console.log("[Profile] Connected users:", connections.map(c => c.username).join(", "));
@@ -130,6 +155,22 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleOpenConversation = async (connection: ActiveConnection) => {
+    setOpeningConversationFor(connection.user_id);
+    try {
+      console.log("[Profile] Opening conversation with:", connection.username);
+      const conversation = await openConversation(connection.user_id);
+      setShowConnectionsModal(false);
+      setUnreadByUser((current) => ({ ...current, [connection.user_id]: 0 }));
+      router.push(`/conversation/${conversation.id}`);
+    } catch (error: any) {
+      console.error("[Profile] Error opening conversation:", error);
+      showMessage("Error", "Failed to open the conversation", "error");
+    } finally {
+      setOpeningConversationFor(null);
+    }
+  };
+
   const formatConnectionDate = (timestamp: string): string => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -652,6 +693,27 @@ export default function ProfileScreen() {
                         </Text>
                       </View>
                     </View>
+                    <TouchableOpacity
+                      style={[styles.messageConnectionButton, { opacity: openingConversationFor === connection.user_id ? 0.5 : 1 }]}
+                      onPress={() => handleOpenConversation(connection)}
+                      disabled={openingConversationFor === connection.user_id}
+                    >
+                      {openingConversationFor === connection.user_id ? (
+                        <ActivityIndicator size="small" color={themeColors.primary} />
+                      ) : (
+                        <IconSymbol
+                          ios_icon_name="bubble.left.fill"
+                          android_material_icon_name="chat"
+                          size={20}
+                          color={themeColors.primary}
+                        />
+                      )}
+                      {!!unreadByUser[connection.user_id] && (
+                        <View style={[styles.unreadBadge, { backgroundColor: themeColors.error }]}>
+                          <Text style={styles.badgeText}>{unreadByUser[connection.user_id]}</Text>
+                        </View>
+                      )}
+                    </TouchableOpacity>
                     <TouchableOpacity
                       style={[styles.deleteConnectionButton, { opacity: deletingConnectionId === connection.id ? 0.5 : 1 }]}
                       onPress={() => handleDeleteConnection(connection.id)}
@@ -914,6 +976,18 @@ const styles = StyleSheet.create({
   connectionDate: {
     ...typography.caption,
   },
+  messageConnectionButton: {
+    padding: spacing.sm,
+  },
+  unreadBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+  },
   deleteConnectionButton: {
     padding: spacing.sm,
   },
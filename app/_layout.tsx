@@ -6,6 +6,8 @@ import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { ThemeProvider, DarkTheme, DefaultTheme } from "@react-navigation/native";
 import { useColorScheme } from "react-native";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+// Defines the background location task before the OS can invoke it
+import "@/utils/backgroundLocation";
 
 function RootLayoutNav() {
   const { user, loading } = useAuth();
@@ -39,6 +41,7 @@ function RootLayoutNav() {
         <Stack.Screen name="auth-callback" options={{ headerShown: false }} />
         <Stack.Screen name="auth-popup" options={{ headerShown: false }} />
         <Stack.Screen name="message/[token]" options={{ headerShown: false }} />
+        <Stack.Screen name="conversation/[id]" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" options={{ headerShown: false }} />
       </Stack>
     </ThemeProvider>
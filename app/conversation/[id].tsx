@@ -0,0 +1,378 @@
+/**
+ * Conversation Screen
+ *
+ * Chat with a connected user, opened from the connections list on the
+ * profile screen. Loads history in pages as the user scrolls back, marks
+ * the conversation as read, shows read receipts on the user's own
+ * messages, and lets a message be answered in reply to an earlier one
+ * (long press). New messages and read receipts arrive live.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { IconSymbol } from "@/components/IconSymbol";
+import { useRealtime } from "@/hooks/useRealtime";
+import {
+  fetchConversation,
+  fetchConversationMessages,
+  markConversationRead,
+  sendConversationMessage,
+  type Conversation,
+  type ConversationMessage,
+} from "@/utils/conversations";
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function ConversationScreen() {
+  const { colors } = useTheme();
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<ConversationMessage | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const messagesById = useMemo(() => new Map(messages.map((message) => [message.id, message])), [messages]);
+
+  const loadConversation = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      console.log("Loading conversation:", id);
+      const [details, page] = await Promise.all([fetchConversation(id), fetchConversationMessages(id)]);
+      setConversation(details);
+      setMessages(page.messages);
+      setHasMore(page.has_more);
+
+      if (details.unread_count > 0) {
+        await markConversationRead(id);
+      }
+    } catch (loadError) {
+      console.error("Error loading conversation:", loadError);
+      setError("Failed to load the conversation");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!id || !hasMore || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchConversationMessages(id, messages.length);
+      // Skip anything already shown if new messages shifted the pages
+      setMessages((current) => [
+        ...current,
+        ...page.messages.filter((message) => !current.some((shown) => shown.id === message.id)),
+      ]);
+      setHasMore(page.has_more);
+    } catch (loadError) {
+      console.error("Error loading older messages:", loadError);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [id, hasMore, loadingMore, messages.length]);
+
+  const handleSend = useCallback(async () => {
+    const body = draft.trim();
+    if (!id || !body || sending) return;
+
+    setSending(true);
+    try {
+      console.log("User sent a conversation message");
+      const message = await sendConversationMessage(id, body, replyTo?.id);
+      setMessages((current) =>
+        current.some((shown) => shown.id === message.id) ? current : [message, ...current]
+      );
+      setDraft("");
+      setReplyTo(null);
+    } catch (sendError) {
+      console.error("Error sending message:", sendError);
+      setError("Message could not be sent");
+    } finally {
+      setSending(false);
+    }
+  }, [id, draft, replyTo, sending]);
+
+  useRealtime((event) => {
+    if (!id) return;
+
+    if (event.type === "conversation_message" && event.data.conversation_id === id) {
+      const incoming = event.data;
+      // Own messages also come back here after sending; keep a single copy
+      setMessages((current) =>
+        current.some((message) => message.id === incoming.id) ? current : [incoming, ...current]
+      );
+      if (!incoming.is_own) {
+        markConversationRead(id).catch((readError) =>
+          console.error("Error marking conversation as read:", readError)
+        );
+      }
+    } else if (event.type === "conversation_read" && event.data.conversation_id === id) {
+      const readAt = event.data.read_at;
+      if (!readAt) return;
+      setMessages((current) =>
+        current.map((message) =>
+          message.is_own && !message.is_read && message.created_at <= readAt
+            ? { ...message, is_read: true }
+            : message
+        )
+      );
+    } else if (event.type === "reconnected") {
+      loadConversation();
+    }
+  }, !!user);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace("/auth");
+    } else if (user) {
+      loadConversation();
+    }
+  }, [user, authLoading, loadConversation, router]);
+
+  const renderMessage = ({ item }: { item: ConversationMessage }) => {
+    const parent = item.reply_to_id ? messagesById.get(item.reply_to_id) : undefined;
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onLongPress={() => conversation?.can_send && setReplyTo(item)}
+        style={[styles.messageRow, item.is_own ? styles.ownRow : styles.otherRow]}
+      >
+        <View
+          style={[
+            styles.bubble,
+            item.is_own ? { backgroundColor: colors.primary } : { backgroundColor: colors.card },
+          ]}
+        >
+          {item.reply_to_id && (
+            <Text
+              style={[styles.quote, { color: item.is_own ? "#fff" : colors.text }]}
+              numberOfLines={2}
+            >
+              ↪ {parent ? parent.body : "Earlier message"}
+            </Text>
+          )}
+          <Text style={[styles.body, { color: item.is_own ? "#fff" : colors.text }]}>{item.body}</Text>
+        </View>
+        <Text style={[styles.meta, { color: colors.text }]}>
+          {formatTime(item.created_at)}
+          {item.is_own && (item.is_read ? " · Read" : " · Sent")}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  if (authLoading || loading) {
+    return (
+      <View style={[styles.centerContent, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["bottom"]}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: conversation?.other_username || "Conversation",
+          headerBackTitle: "Back",
+        }}
+      />
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
+      >
+        {!conversation ? (
+          <View style={styles.centerContent}>
+            <Text style={[styles.notice, { color: colors.text }]}>{error || "Conversation not found"}</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={messages}
+            keyExtractor={(message) => message.id}
+            renderItem={renderMessage}
+            inverted
+            contentContainerStyle={styles.list}
+            onEndReached={handleLoadMore}
+            onEndReachedThreshold={0.3}
+            ListFooterComponent={loadingMore ? <ActivityIndicator color={colors.primary} /> : null}
+            ListEmptyComponent={
+              <Text style={[styles.notice, { color: colors.text }]}>
+                Say hello to {conversation.other_username}
+              </Text>
+            }
+          />
+        )}
+
+        {conversation && !conversation.can_send && (
+          <Text style={[styles.notice, { color: colors.text }]}>
+            You are no longer connected, so new messages cannot be sent
+          </Text>
+        )}
+
+        {conversation?.can_send && (
+          <View style={[styles.composer, { borderTopColor: colors.border }]}>
+            {replyTo && (
+              <View style={styles.replyBar}>
+                <Text style={[styles.replyText, { color: colors.text }]} numberOfLines={1}>
+                  Replying to: {replyTo.body}
+                </Text>
+                <TouchableOpacity onPress={() => setReplyTo(null)}>
+                  <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={16} color={colors.text} />
+                </TouchableOpacity>
+              </View>
+            )}
+            {error && <Text style={styles.error}>{error}</Text>}
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                value={draft}
+                onChangeText={(text) => {
+                  setDraft(text);
+                  setError(null);
+                }}
+                placeholder="Message"
+                placeholderTextColor={colors.border}
+                maxLength={MAX_MESSAGE_LENGTH}
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.sendButton, { backgroundColor: colors.primary, opacity: draft.trim() ? 1 : 0.5 }]}
+                onPress={handleSend}
+                disabled={!draft.trim() || sending}
+              >
+                {sending ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <IconSymbol ios_icon_name="paperplane.fill" android_material_icon_name="send" size={18} color="#fff" />
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  list: {
+    padding: spacing.md,
+  },
+  messageRow: {
+    marginBottom: spacing.sm,
+    maxWidth: "80%",
+  },
+  ownRow: {
+    alignSelf: "flex-end",
+    alignItems: "flex-end",
+  },
+  otherRow: {
+    alignSelf: "flex-start",
+    alignItems: "flex-start",
+  },
+  bubble: {
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  quote: {
+    fontSize: typography.sizes.sm,
+    opacity: 0.7,
+    marginBottom: spacing.xs,
+  },
+  body: {
+    fontSize: typography.sizes.md,
+  },
+  meta: {
+    fontSize: typography.sizes.xs,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  notice: {
+    textAlign: "center",
+    fontSize: typography.sizes.sm,
+    opacity: 0.7,
+    padding: spacing.md,
+  },
+  composer: {
+    borderTopWidth: 1,
+    padding: spacing.sm,
+  },
+  replyBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: spacing.sm,
+    paddingBottom: spacing.sm,
+  },
+  replyText: {
+    flex: 1,
+    fontSize: typography.sizes.sm,
+    opacity: 0.7,
+  },
+  error: {
+    color: "#ef4444",
+    fontSize: typography.sizes.sm,
+    paddingHorizontal: spacing.sm,
+    paddingBottom: spacing.xs,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    fontSize: typography.sizes.md,
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: spacing.sm,
+  },
+});
@@ -2,11 +2,18 @@
 import { useTheme } from "@react-navigation/native";
 import { useLocalSearchParams, useRouter, Stack } from "expo-router";
 import { colors, spacing, borderRadius, typography } from "@/styles/commonStyles";
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { authenticatedGet, authenticatedPost } from "@/utils/api";
 import { IconSymbol } from "@/components/IconSymbol";
+import { ConsentFormFields } from "@/components/ConsentFormFields";
+import { AttachmentList } from "@/components/AttachmentList";
+import { isFormComplete, type ConsentForm, type FormAnswers } from "@/utils/consentForms";
+import type { MessageAttachment } from "@/utils/attachments";
+import { useRealtime } from "@/hooks/useRealtime";
+import { decryptMessage, encryptForUsers, readLinkKey } from "@/utils/encryption";
+import * as Linking from "expo-linking";
 import {
   View,
   Text,
@@ -15,26 +22,112 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Modal,
+  TextInput,
+  Platform,
 } from "react-native";
 
+type ConsentStatus = "pending" | "accepted" | "rejected" | "revoked" | "countered";
+
+interface GroupRecipient {
+  user_id: string;
+  username: string;
+  status: ConsentStatus;
+  responded_at: string | null;
+}
+
+interface GroupSummary {
+  total: number;
+  accepted: number;
+  rejected: number;
+  pending: number;
+  required: number;
+  all_accepted: boolean;
+  quorum_reached: boolean;
+  any_rejected: boolean;
+  state: "pending" | "accepted" | "rejected";
+}
+
 interface Message {
   id: string;
   content: string;
+  encrypted?: boolean;
   senderId: string;
   senderUsername: string;
-  status: "pending" | "accepted" | "rejected";
+  status: ConsentStatus;
   createdAt: string;
+  isGroup?: boolean;
+  form?: ConsentForm | null;
+  attachments?: MessageAttachment[];
+  sender?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  group?: {
+    quorum: number | null;
+    recipients: GroupRecipient[];
+    summary: GroupSummary;
+  };
 }
 
+interface GroupResponse {
+  status: GroupSummary["state"];
+  recipient: { user_id: string; status: ConsentStatus; responded_at: string | null };
+  summary: GroupSummary;
+}
+
+interface MessageEvent {
+  id: string;
+  type: "created" | "link_opened" | "accepted" | "rejected" | "revoked" | "expired" | "link_used" | "countered";
+  actorId: string | null;
+  createdAt: string;
+}
+
+const STATUS_COLORS: Record<ConsentStatus, string> = {
+  pending: "#f59e0b",
+  accepted: "#10b981",
+  rejected: "#ef4444",
+  revoked: "#6b7280",
+  countered: "#3b82f6",
+};
+
+const STATUS_LABELS: Record<ConsentStatus, string> = {
+  pending: "Waiting",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  revoked: "Withdrawn",
+  countered: "Changes proposed",
+};
+
+const EVENT_LABELS: Record<MessageEvent["type"], string> = {
+  created: "Request created",
+  link_opened: "Link opened",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  revoked: "Consent withdrawn",
+  expired: "Link expired",
+  link_used: "Link used",
+  countered: "Changes proposed",
+};
+
 export default function MessageViewScreen() {
   const { colors } = useTheme();
   const { user, loading: authLoading } = useAuth();
   const router = useRouter();
   const { token } = useLocalSearchParams();
+  const linkUrl = Linking.useURL();
+  const linkUrlRef = useRef(linkUrl);
+  linkUrlRef.current = linkUrl;
 
   const [message, setMessage] = useState<Message | null>(null);
+  const [unreadable, setUnreadable] = useState(false);
+  const [history, setHistory] = useState<MessageEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [responding, setResponding] = useState(false);
+  const [answers, setAnswers] = useState<FormAnswers>({});
+  const [showFormErrors, setShowFormErrors] = useState(false);
+  const [showProposal, setShowProposal] = useState(false);
+  const [proposal, setProposal] = useState("");
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
@@ -53,23 +146,81 @@ export default function MessageViewScreen() {
     try {
       console.log("Loading message with token:", token);
       const response = await authenticatedGet(`/api/messages/link/${token}`);
-      setMessage(response);
+
+      if (response.encrypted) {
+        // The key is in the fragment of the link that opened this screen, or sealed to this device
+        const candidates =
+          Platform.OS === "web" ? [window.location.href] : [linkUrlRef.current, await Linking.getInitialURL()];
+        const openedLink = candidates.find((url) => url?.includes(String(token)));
+        const plaintext = await decryptMessage(response, readLinkKey(openedLink));
+
+        setUnreadable(plaintext === null);
+        setMessage({ ...response, content: plaintext ?? "" });
+      } else {
+        setMessage(response);
+      }
       console.log("Message loaded:", response);
+
+      // Senders can follow everything that happened to their request
+      if (response.sender?.id && response.sender.id === user?.id) {
+        const historyResponse = await authenticatedGet(`/api/messages/${response.id}/history`);
+        setHistory(historyResponse.events);
+      }
     } catch (error) {
       console.error("Error loading message:", error);
       showModalMessage("Error", "Failed to load message", "error");
     } finally {
       setLoading(false);
     }
-  }, [token, showModalMessage]);
+  }, [token, user?.id, showModalMessage]);
+
+  // Picks up answers given elsewhere, e.g. the recipient accepting while the sender watches
+  const refreshStatus = useCallback(async (messageId: string) => {
+    try {
+      const latest = await authenticatedGet(`/api/messages/${messageId}`);
+      setMessage((current) =>
+        current && current.id === messageId
+          ? { ...current, status: latest.status, ...(latest.group && { group: latest.group }) }
+          : current
+      );
+
+      if (latest.senderId === user?.id) {
+        const historyResponse = await authenticatedGet(`/api/messages/${messageId}/history`);
+        setHistory(historyResponse.events);
+      }
+    } catch (error) {
+      console.error("Error refreshing message status:", error);
+    }
+  }, [user?.id]);
+
+  useRealtime((event) => {
+    if (!message) return;
+
+    if (
+      (event.type === "message_status" && event.data.message_id === message.id) ||
+      event.type === "reconnected"
+    ) {
+      console.log("Message status changed:", event.type);
+      refreshStatus(message.id);
+    }
+  }, !!user);
 
   const handleRespond = useCallback(async (action: "accept" | "reject") => {
     if (!message) return;
 
+    if (action === "accept" && message.form && !isFormComplete(message.form, answers)) {
+      setShowFormErrors(true);
+      showModalMessage("Missing Answers", "Please answer the required questions before accepting", "error");
+      return;
+    }
+
     setResponding(true);
     try {
       console.log(`User ${action}ed message:`, message.id);
-      await authenticatedPost(`/api/messages/${message.id}/${action}`, {});
+      const response = await authenticatedPost(
+        `/api/messages/${message.id}/${action}`,
+        action === "accept" && message.form ? { answers } : {}
+      );
 
       const actionText = action === "accept" ? "accepted" : "rejected";
       showModalMessage(
@@ -79,7 +230,24 @@ export default function MessageViewScreen() {
       );
 
       // Update local state
-      setMessage({ ...message, status: action === "accept" ? "accepted" : "rejected" });
+      if (message.group) {
+        const groupResponse = response as GroupResponse;
+        setMessage({
+          ...message,
+          status: groupResponse.status,
+          group: {
+            ...message.group,
+            summary: groupResponse.summary,
+            recipients: message.group.recipients.map((recipient) =>
+              recipient.user_id === groupResponse.recipient.user_id
+                ? { ...recipient, ...groupResponse.recipient }
+                : recipient
+            ),
+          },
+        });
+      } else {
+        setMessage({ ...message, status: action === "accept" ? "accepted" : "rejected" });
+      }
 
       // Navigate back after a delay
       setTimeout(() => {
@@ -91,7 +259,40 @@ export default function MessageViewScreen() {
     } finally {
       setResponding(false);
     }
-  }, [message, router, showModalMessage]);
+  }, [message, answers, router, showModalMessage]);
+
+  const handleCounter = useCallback(async () => {
+    if (!message) return;
+
+    if (!proposal.trim()) {
+      showModalMessage("Missing Proposal", "Describe the changes you would like", "error");
+      return;
+    }
+
+    setResponding(true);
+    try {
+      console.log("User proposed changes to message:", message.id);
+      // A proposal to an encrypted request is encrypted to the sender's devices as well
+      await authenticatedPost(
+        `/api/messages/${message.id}/counter`,
+        message.encrypted ? await encryptForUsers(proposal.trim(), [message.senderId]) : { content: proposal.trim() }
+      );
+
+      showModalMessage("Proposal Sent", "Your suggested changes were sent back for approval", "success");
+      setMessage({ ...message, status: "countered" });
+      setShowProposal(false);
+
+      // Navigate back after a delay
+      setTimeout(() => {
+        router.replace("/(tabs)/(home)");
+      }, 2000);
+    } catch (error) {
+      console.error("Error proposing changes:", error);
+      showModalMessage("Error", "Failed to send your proposal", "error");
+    } finally {
+      setResponding(false);
+    }
+  }, [message, proposal, router, showModalMessage]);
 
   const handleCloseModal = useCallback(() => {
     setModalVisible(false);
@@ -139,14 +340,20 @@ export default function MessageViewScreen() {
     );
   }
 
-  const alreadyResponded = message.status !== "pending";
+  // In a group, each recipient answers for themself; others only follow along
+  const myGroupEntry = message.group?.recipients.find((recipient) => recipient.user_id === user?.id);
+  const myStatus: ConsentStatus = message.group
+    ? myGroupEntry?.status ?? message.status
+    : message.status;
+  const alreadyResponded = message.group ? !myGroupEntry || myStatus !== "pending" : myStatus !== "pending";
+  const summary = message.group?.summary;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
       <Stack.Screen
         options={{
           headerShown: true,
-          title: "Message Request",
+          title: message.group ? "Group Request" : "Message Request",
           headerBackTitle: "Back",
         }}
       />
@@ -169,17 +376,57 @@ export default function MessageViewScreen() {
 
           <View style={styles.messageContent}>
             <Text style={[styles.label, { color: colors.text }]}>Message</Text>
-            <Text style={[styles.messageText, { color: colors.text }]}>
-              {message.content}
-            </Text>
+            {unreadable ? (
+              <Text style={[styles.unreadableText, { color: colors.text }]}>
+                This message is end-to-end encrypted and cannot be read on this device
+              </Text>
+            ) : (
+              <Text style={[styles.messageText, { color: colors.text }]}>
+                {message.content}
+              </Text>
+            )}
+            {message.encrypted && !unreadable && (
+              <Text style={[styles.encryptedNote, { color: colors.text }]}>End-to-end encrypted</Text>
+            )}
           </View>
 
-          {alreadyResponded ? (
-            <View style={[styles.statusBadge, { backgroundColor: message.status === "accepted" ? "#10b981" : "#ef4444" }]}>
-              <Text style={styles.statusText}>
-                {message.status === "accepted" ? "✓ Accepted" : "✗ Rejected"}
-              </Text>
+          {!!message.attachments?.length && (
+            <View style={styles.formSection}>
+              <Text style={[styles.label, { color: colors.text }]}>Attachments</Text>
+              <AttachmentList
+                attachments={message.attachments}
+                linkToken={typeof token === "string" ? token : undefined}
+              />
+            </View>
+          )}
+
+          {message.form && (
+            <View style={styles.formSection}>
+              <Text style={[styles.label, { color: colors.text }]}>Questions</Text>
+              <ConsentFormFields
+                form={message.form}
+                answers={answers}
+                onChange={setAnswers}
+                readOnly={alreadyResponded || responding}
+                showErrors={showFormErrors}
+              />
             </View>
+          )}
+
+          {alreadyResponded ? (
+            myStatus === "pending" ? null : (
+              <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[myStatus] }]}>
+                <Text style={styles.statusText}>
+                  {myStatus === "accepted"
+                    ? "✓ Accepted"
+                    : myStatus === "revoked"
+                      ? "↺ Consent withdrawn"
+                      : myStatus === "countered"
+                        ? "↪ Changes proposed"
+                        : "✗ Rejected"}
+                </Text>
+              </View>
+            )
           ) : (
             <View style={styles.actionButtons}>
               <TouchableOpacity
@@ -223,7 +470,99 @@ export default function MessageViewScreen() {
               </TouchableOpacity>
             </View>
           )}
+
+          {/* Group requests are answered as they are; one-to-one ones can be negotiated */}
+          {!alreadyResponded && !message.group && (
+            showProposal ? (
+              <View style={styles.proposalSection}>
+                <Text style={[styles.label, { color: colors.text }]}>Your proposal</Text>
+                <TextInput
+                  style={[styles.proposalInput, { color: colors.text, borderColor: colors.border }]}
+                  value={proposal}
+                  onChangeText={setProposal}
+                  placeholder="Yes, but at 13:00"
+                  placeholderTextColor={colors.border}
+                  multiline
+                  editable={!responding}
+                />
+                <TouchableOpacity
+                  style={[styles.proposalButton, { backgroundColor: colors.primary }]}
+                  onPress={handleCounter}
+                  disabled={responding}
+                >
+                  <Text style={styles.buttonText}>Send proposal</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.proposeLink} onPress={() => setShowProposal(true)}>
+                <Text style={[styles.proposeLinkText, { color: colors.primary }]}>Suggest changes</Text>
+              </TouchableOpacity>
+            )
+          )}
         </View>
+
+        {message.group && summary && (
+          <View style={[styles.groupCard, { backgroundColor: colors.card }]}>
+            <View style={styles.groupHeader}>
+              <View style={styles.groupHeaderText}>
+                <Text style={[styles.label, { color: colors.text }]}>Group</Text>
+                <Text style={[styles.groupProgress, { color: colors.text }]}>
+                  {summary.accepted} of {summary.total} accepted
+                </Text>
+                <Text style={[styles.groupRequirement, { color: colors.text }]}>
+                  {message.group.quorum
+                    ? `Needs ${summary.required} of ${summary.total}`
+                    : "Needs everyone"}
+                </Text>
+              </View>
+              <View style={[styles.groupStateBadge, { backgroundColor: STATUS_COLORS[summary.state] }]}>
+                <Text style={styles.groupStateText}>
+                  {summary.state === "accepted"
+                    ? summary.all_accepted
+                      ? "All accepted"
+                      : "Quorum reached"
+                    : summary.state === "rejected"
+                      ? "Not reached"
+                      : "In progress"}
+                </Text>
+              </View>
+            </View>
+            {message.group.recipients.map((recipient) => (
+              <View key={recipient.user_id} style={[styles.recipientRow, { borderTopColor: colors.border }]}>
+                <Text style={[styles.recipientName, { color: colors.text }]}>
+                  {recipient.user_id === user?.id ? "You" : recipient.username}
+                </Text>
+                <Text style={[styles.recipientStatus, { color: STATUS_COLORS[recipient.status] }]}>
+                  {STATUS_LABELS[recipient.status]}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {history.length > 0 && (
+          <View style={[styles.historyCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.label, { color: colors.text }]}>History</Text>
+            {history.map((event, index) => (
+              <View key={event.id} style={styles.timelineItem}>
+                <View style={styles.timelineMarker}>
+                  <View style={[styles.timelineDot, { backgroundColor: colors.primary }]} />
+                  {index < history.length - 1 && (
+                    <View style={[styles.timelineLine, { backgroundColor: colors.border }]} />
+                  )}
+                </View>
+                <View style={styles.timelineContent}>
+                  <Text style={[styles.timelineTitle, { color: colors.text }]}>
+                    {EVENT_LABELS[event.type] || event.type}
+                  </Text>
+                  <Text style={[styles.timelineTime, { color: colors.text }]}>
+                    {new Date(event.createdAt).toLocaleString()}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
       </ScrollView>
 
       {/* Confirmation Modal */}
@@ -306,6 +645,19 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.lg,
     lineHeight: 28,
   },
+  unreadableText: {
+    fontSize: typography.sizes.md,
+    fontStyle: "italic",
+    opacity: 0.7,
+  },
+  encryptedNote: {
+    fontSize: typography.sizes.xs,
+    opacity: 0.6,
+    marginTop: spacing.xs,
+  },
+  formSection: {
+    marginBottom: spacing.md,
+  },
   actionButtons: {
     flexDirection: "row",
     gap: spacing.md,
@@ -333,6 +685,32 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.md,
     fontWeight: "600",
   },
+  proposeLink: {
+    alignItems: "center",
+    paddingTop: spacing.md,
+  },
+  proposeLinkText: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
+  proposalSection: {
+    marginTop: spacing.lg,
+  },
+  proposalInput: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    fontSize: typography.sizes.md,
+    minHeight: 64,
+    textAlignVertical: "top",
+    marginBottom: spacing.md,
+  },
+  proposalButton: {
+    alignItems: "center",
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+  },
   statusBadge: {
     paddingVertical: spacing.md,
     borderRadius: borderRadius.md,
@@ -343,6 +721,89 @@ const styles = StyleSheet.create({
     fontSize: typography.sizes.md,
     fontWeight: "600",
   },
+  groupCard: {
+    borderRadius: borderRadius.lg,
+    padding: spacing.xl,
+    marginTop: spacing.lg,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: spacing.md,
+  },
+  groupHeaderText: {
+    flex: 1,
+  },
+  groupProgress: {
+    fontSize: typography.sizes.lg,
+    fontWeight: "600",
+  },
+  groupRequirement: {
+    fontSize: typography.sizes.sm,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  groupStateBadge: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+  },
+  groupStateText: {
+    color: "#fff",
+    fontSize: typography.sizes.sm,
+    fontWeight: "600",
+  },
+  recipientRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  recipientName: {
+    fontSize: typography.sizes.md,
+  },
+  recipientStatus: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
+  historyCard: {
+    borderRadius: borderRadius.lg,
+    padding: spacing.xl,
+    marginTop: spacing.lg,
+  },
+  timelineItem: {
+    flexDirection: "row",
+    minHeight: 48,
+  },
+  timelineMarker: {
+    width: 20,
+    alignItems: "center",
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 6,
+  },
+  timelineLine: {
+    width: 2,
+    flex: 1,
+    marginTop: 4,
+  },
+  timelineContent: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  timelineTitle: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
+  timelineTime: {
+    fontSize: typography.sizes.sm,
+    opacity: 0.6,
+    marginTop: 2,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
@@ -0,0 +1,19 @@
+CREATE TABLE "consent_receipts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"sender_id" text NOT NULL,
+	"recipient_id" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"channel" text NOT NULL,
+	"accepted_at" timestamp NOT NULL,
+	"payload" text NOT NULL,
+	"signature" text NOT NULL,
+	"key_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "consent_receipts_message_id_unique" UNIQUE("message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "consent_receipts" ADD CONSTRAINT "consent_receipts_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "consent_receipts_message_id_idx" ON "consent_receipts" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "consent_receipts_sender_id_idx" ON "consent_receipts" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "consent_receipts_recipient_id_idx" ON "consent_receipts" USING btree ("recipient_id");
\ No newline at end of file
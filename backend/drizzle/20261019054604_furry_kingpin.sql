@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "revoked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "revocation_reason" text;
\ No newline at end of file
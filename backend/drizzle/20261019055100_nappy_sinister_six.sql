@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "invited_email" text;
\ No newline at end of file
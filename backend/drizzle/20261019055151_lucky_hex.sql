@@ -0,0 +1,15 @@
+CREATE TABLE "short_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"message_id" uuid NOT NULL,
+	"expires_at" timestamp,
+	"click_count" integer DEFAULT 0 NOT NULL,
+	"last_clicked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "short_links_code_unique" UNIQUE("code"),
+	CONSTRAINT "short_links_message_id_unique" UNIQUE("message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "short_links" ADD CONSTRAINT "short_links_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "short_links_code_idx" ON "short_links" USING btree ("code");--> statement-breakpoint
+CREATE INDEX "short_links_expires_at_idx" ON "short_links" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "location_privacy_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"label" text,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL,
+	"radius_meters" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_locations" ADD COLUMN "hidden" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_sharing_preferences" ADD COLUMN "distance_display" text DEFAULT 'bucketed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_sharing_preferences" ADD COLUMN "location_fuzz_meters" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "location_privacy_zones" ADD CONSTRAINT "location_privacy_zones_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "location_privacy_zones_user_id_idx" ON "location_privacy_zones" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user_locations" ADD COLUMN "visible_until" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE INDEX "user_locations_visible_until_idx" ON "user_locations" USING btree ("visible_until");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "connection_rejections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"requester_user_id" text NOT NULL,
+	"target_user_id" text NOT NULL,
+	"rejection_count" integer DEFAULT 0 NOT NULL,
+	"last_rejected_at" timestamp NOT NULL,
+	"never_allow" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "connection_rejections" ADD CONSTRAINT "connection_rejections_requester_user_id_user_id_fk" FOREIGN KEY ("requester_user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "connection_rejections" ADD CONSTRAINT "connection_rejections_target_user_id_user_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "connection_rejections_unique_pair" ON "connection_rejections" USING btree ("requester_user_id","target_user_id");--> statement-breakpoint
+INSERT INTO "connection_rejections" ("requester_user_id", "target_user_id", "rejection_count", "last_rejected_at")
+SELECT "requester_user_id", "target_user_id", 1, "updated_at" FROM "device_connections" WHERE "status" = 'rejected';
@@ -0,0 +1,3 @@
+ALTER TABLE "device_connections" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+CREATE INDEX "device_connections_expires_at_idx" ON "device_connections" USING btree ("expires_at");--> statement-breakpoint
+UPDATE "device_connections" SET "expires_at" = "created_at" + interval '72 hours' WHERE "status" = 'pending';
@@ -0,0 +1,20 @@
+CREATE TABLE "message_recipients" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"recipient_id" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"responded_at" timestamp,
+	"revoked_at" timestamp,
+	"revocation_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "consent_receipts" DROP CONSTRAINT "consent_receipts_message_id_unique";--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "is_group" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "quorum" integer;--> statement-breakpoint
+ALTER TABLE "message_recipients" ADD CONSTRAINT "message_recipients_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_recipients" ADD CONSTRAINT "message_recipients_recipient_id_user_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "message_recipients_unique_pair" ON "message_recipients" USING btree ("message_id","recipient_id");--> statement-breakpoint
+CREATE INDEX "message_recipients_recipient_id_idx" ON "message_recipients" USING btree ("recipient_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "consent_receipts_message_recipient_unique" ON "consent_receipts" USING btree ("message_id","recipient_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "message_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text,
+	"title" text NOT NULL,
+	"body" text NOT NULL,
+	"category" text DEFAULT 'other' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "template_id" uuid;--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_templates_owner_id_idx" ON "message_templates" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "message_templates_category_idx" ON "message_templates" USING btree ("category");--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_template_id_message_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."message_templates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "message_templates" ("id", "owner_id", "title", "body", "category") VALUES
+	('6f1c2a10-0000-4000-8000-000000000001', NULL, 'Lunch', 'Do you accept to have lunch with me?', 'food'),
+	('6f1c2a10-0000-4000-8000-000000000002', NULL, 'Dinner', 'Hi {{recipient_name}}, would you like to have dinner with me on {{date}} at {{place}}?', 'food'),
+	('6f1c2a10-0000-4000-8000-000000000003', NULL, 'Coffee', 'Do you accept to have a coffee with me at {{place}}?', 'social'),
+	('6f1c2a10-0000-4000-8000-000000000004', NULL, 'Stay in touch', '{{recipient_name}}, do you agree to exchange contacts with me?', 'social'),
+	('6f1c2a10-0000-4000-8000-000000000005', NULL, 'Run together', 'Would you like to go for a run together on {{date}}?', 'sports'),
+	('6f1c2a10-0000-4000-8000-000000000006', NULL, 'Meeting', 'Hi {{recipient_name}}, do you agree to meet on {{date}} at {{place}} to talk about work?', 'work');
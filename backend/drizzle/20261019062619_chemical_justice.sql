@@ -0,0 +1,3 @@
+ALTER TABLE "message_recipients" ADD COLUMN "form_answers" jsonb;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "form" jsonb;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "form_answers" jsonb;
\ No newline at end of file
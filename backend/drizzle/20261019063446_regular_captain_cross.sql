@@ -0,0 +1,4 @@
+ALTER TABLE "messages" ADD COLUMN "in_reply_to_id" uuid;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "thread_id" uuid;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_in_reply_to_id_messages_id_fk" FOREIGN KEY ("in_reply_to_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "messages_thread_id_idx" ON "messages" USING btree ("thread_id");
\ No newline at end of file
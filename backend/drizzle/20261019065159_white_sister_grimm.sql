@@ -0,0 +1,27 @@
+CREATE TABLE "device_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"device_id" text NOT NULL,
+	"public_key" text NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"device_key_id" uuid NOT NULL,
+	"ephemeral_public_key" text NOT NULL,
+	"nonce" text NOT NULL,
+	"sealed_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "encrypted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "device_keys" ADD CONSTRAINT "device_keys_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_keys" ADD CONSTRAINT "message_keys_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_keys" ADD CONSTRAINT "message_keys_device_key_id_device_keys_id_fk" FOREIGN KEY ("device_key_id") REFERENCES "public"."device_keys"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "device_keys_user_device_unique" ON "device_keys" USING btree ("user_id","device_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "message_keys_message_device_unique" ON "message_keys" USING btree ("message_id","device_key_id");--> statement-breakpoint
+CREATE INDEX "message_keys_device_key_id_idx" ON "message_keys" USING btree ("device_key_id");
\ No newline at end of file
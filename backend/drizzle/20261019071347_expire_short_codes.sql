@@ -0,0 +1,3 @@
+-- Short codes used to carry only 32 random bits and could be guessed.
+-- Drop them; the sender's next share creates a longer code for the message.
+DELETE FROM "short_links" WHERE length("code") < 13;
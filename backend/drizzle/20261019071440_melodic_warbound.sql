@@ -0,0 +1,3 @@
+ALTER TABLE "user_sharing_preferences" ALTER COLUMN "location_fuzz_meters" SET DEFAULT 250;--> statement-breakpoint
+-- Fuzzing used to be off unless chosen; apply the new default to everyone still on the old one
+UPDATE "user_sharing_preferences" SET "location_fuzz_meters" = 250 WHERE "location_fuzz_meters" = 0;
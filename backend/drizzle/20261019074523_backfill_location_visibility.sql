@@ -0,0 +1,5 @@
+-- Rows that existed before visible_until took the column default of the moment that migration ran,
+-- which hid fresh locations straight away; give stale rows the visibility an update would have set.
+-- 30 minutes is the default LOCATION_TTL_MINUTES. Migrations cannot read the environment, so
+-- deployments running with another TTL should repeat this update with their own interval.
+UPDATE "user_locations" SET "visible_until" = "updated_at" + interval '30 minutes' WHERE "visible_until" <= now();
@@ -0,0 +1,6 @@
+ALTER TABLE "user_locations" ADD COLUMN "fuzz_meters" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- The grid used for existing rows was not recorded; assume the user's current setting, or the default
+UPDATE "user_locations" SET "fuzz_meters" = COALESCE(
+  (SELECT "location_fuzz_meters" FROM "user_sharing_preferences" WHERE "user_sharing_preferences"."user_id" = "user_locations"."user_id"),
+  250
+);
@@ -5,11 +5,14 @@ import {
   uuid,
   boolean,
   index,
+  integer,
   jsonb,
   numeric,
   uniqueIndex,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { user } from './auth-schema.js';
+import type { ConsentForm, FormAnswers } from '../utils/consent-forms.js';
 
 /**
  * Messages table for message exchange functionality
@@ -25,16 +28,31 @@ export const messages = pgTable(
     recipientId: text('recipient_id').references(() => user.id, {
       onDelete: 'cascade',
     }),
-    content: text('content').notNull(),
+    invitedEmail: text('invited_email'), // Set when the recipient was invited by email before signing up
+    content: text('content').notNull(), // Ciphertext when encrypted (see utils/message-encryption.ts)
+    encrypted: boolean('encrypted').default(false).notNull(),
     status: text('status', {
-      enum: ['pending', 'accepted', 'rejected'],
+      enum: ['pending', 'accepted', 'rejected', 'revoked', 'countered'],
     })
       .default('pending')
       .notNull(),
+    revokedAt: timestamp('revoked_at'),
+    revocationReason: text('revocation_reason'),
     linkToken: text('link_token').unique(),
     linkExpiresAt: timestamp('link_expires_at'),
     singleUse: boolean('single_use').default(false).notNull(),
     linkUsed: boolean('link_used').default(false).notNull(),
+    isGroup: boolean('is_group').default(false).notNull(), // Recipients live in message_recipients
+    quorum: integer('quorum'), // Group messages: acceptances needed; null means every recipient
+    templateId: uuid('template_id').references(() => messageTemplates.id, {
+      onDelete: 'set null',
+    }),
+    form: jsonb('form').$type<ConsentForm>(), // Structured questions answered when accepting
+    formAnswers: jsonb('form_answers').$type<FormAnswers>(), // Group answers live in message_recipients
+    inReplyToId: uuid('in_reply_to_id').references((): AnyPgColumn => messages.id, {
+      onDelete: 'set null',
+    }), // Set on counter-proposals: the message they answer
+    threadId: uuid('thread_id'), // Negotiation threads: id of the message that opened it
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at')
       .defaultNow()
@@ -46,6 +64,100 @@ export const messages = pgTable(
     index('messages_recipient_id_idx').on(table.recipientId),
     index('messages_link_token_idx').on(table.linkToken),
     index('messages_status_idx').on(table.status),
+    index('messages_thread_id_idx').on(table.threadId),
+  ]
+);
+
+/**
+ * Message templates table
+ * Reusable consent texts; rows without an owner are system templates available to everyone
+ * Bodies may contain {{recipient_name}}, {{date}} and {{place}} placeholders
+ */
+export const messageTemplates = pgTable(
+  'message_templates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    title: text('title').notNull(),
+    body: text('body').notNull(),
+    category: text('category', {
+      enum: ['social', 'food', 'sports', 'work', 'other'],
+    })
+      .default('other')
+      .notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index('message_templates_owner_id_idx').on(table.ownerId),
+    index('message_templates_category_idx').on(table.category),
+  ]
+);
+
+/**
+ * Message recipients table
+ * Per-recipient responses to a group message
+ */
+export const messageRecipients = pgTable(
+  'message_recipients',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    messageId: uuid('message_id').notNull().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    recipientId: text('recipient_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    status: text('status', {
+      enum: ['pending', 'accepted', 'rejected', 'revoked'],
+    })
+      .default('pending')
+      .notNull(),
+    respondedAt: timestamp('responded_at'),
+    revokedAt: timestamp('revoked_at'),
+    revocationReason: text('revocation_reason'),
+    formAnswers: jsonb('form_answers').$type<FormAnswers>(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('message_recipients_unique_pair').on(table.messageId, table.recipientId),
+    index('message_recipients_recipient_id_idx').on(table.recipientId),
+  ]
+);
+
+/**
+ * Message attachments table
+ * Metadata for files uploaded by the sender; the bytes live in the storage driver under storageKey
+ */
+export const messageAttachments = pgTable(
+  'message_attachments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    messageId: uuid('message_id').notNull().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    uploaderId: text('uploader_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    storageKey: text('storage_key').notNull().unique(),
+    fileName: text('file_name').notNull(),
+    contentType: text('content_type').notNull(),
+    size: integer('size').notNull(), // bytes
+    sha256: text('sha256').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('message_attachments_message_id_idx').on(table.messageId),
+    index('message_attachments_uploader_id_idx').on(table.uploaderId),
   ]
 );
 
@@ -119,6 +231,11 @@ export const userSharingPreferences = pgTable(
     allowedShareMethods: jsonb('allowed_share_methods').$type<Array<'whatsapp' | 'email' | 'telegram' | 'sms'>>()
       .default(['whatsapp'])
       .notNull(),
+    // How others see the distance to this user: exact (rounded) or in coarse buckets
+    distanceDisplay: text('distance_display', { enum: ['exact', 'bucketed'] })
+      .default('bucketed')
+      .notNull(),
+    locationFuzzMeters: integer('location_fuzz_meters').default(250).notNull(), // grid size stored coordinates snap to, 0 = off (see DEFAULT_LOCATION_FUZZ_METERS)
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at')
       .defaultNow()
@@ -191,15 +308,39 @@ export const userLocations = pgTable(
     latitude: numeric('latitude', { precision: 10, scale: 8 }).notNull(),
     longitude: numeric('longitude', { precision: 11, scale: 8 }).notNull(),
     accuracy: numeric('accuracy', { precision: 10, scale: 2 }), // in meters
+    hidden: boolean('hidden').default(false).notNull(), // inside one of the user's privacy zones
+    fuzzMeters: integer('fuzz_meters').default(0).notNull(), // grid cell the stored coordinate was snapped to
+    visibleUntil: timestamp('visible_until').defaultNow().notNull(), // stale afterwards, purged by the location job
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => [
     index('user_locations_user_id_idx').on(table.userId),
     index('user_locations_coords_idx').on(table.latitude, table.longitude),
+    index('user_locations_visible_until_idx').on(table.visibleUntil),
   ]
 );
 
+/**
+ * Location privacy zones table
+ * Circular geofences inside which a user is hidden from nearby discovery
+ */
+export const locationPrivacyZones = pgTable(
+  'location_privacy_zones',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: text('user_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    label: text('label'),
+    latitude: numeric('latitude', { precision: 10, scale: 8 }).notNull(),
+    longitude: numeric('longitude', { precision: 11, scale: 8 }).notNull(),
+    radiusMeters: integer('radius_meters').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('location_privacy_zones_user_id_idx').on(table.userId)]
+);
+
 /**
  * Device connections table for GPS-based connection requests
  * Tracks connection requests between nearby users
@@ -215,11 +356,12 @@ export const deviceConnections = pgTable(
       onDelete: 'cascade',
     }),
     status: text('status', {
-      enum: ['pending', 'accepted', 'rejected'],
+      enum: ['pending', 'accepted', 'rejected', 'cancelled', 'expired'],
     })
       .default('pending')
       .notNull(),
     distanceMeters: numeric('distance_meters', { precision: 10, scale: 2 }), // in meters
+    expiresAt: timestamp('expires_at'), // pending requests only
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at')
       .defaultNow()
@@ -230,6 +372,299 @@ export const deviceConnections = pgTable(
     index('device_connections_requester_user_id_idx').on(table.requesterUserId),
     index('device_connections_target_user_id_idx').on(table.targetUserId),
     index('device_connections_status_idx').on(table.status),
+    index('device_connections_expires_at_idx').on(table.expiresAt),
     uniqueIndex('device_connections_unique_pair').on(table.requesterUserId, table.targetUserId),
   ]
 );
+
+/**
+ * Connection rejections table
+ * Rejection history per requester and target; kept when the connection row is deleted
+ * so the re-request policy cannot be bypassed
+ */
+export const connectionRejections = pgTable(
+  'connection_rejections',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    requesterUserId: text('requester_user_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    targetUserId: text('target_user_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    rejectionCount: integer('rejection_count').notNull().default(0),
+    lastRejectedAt: timestamp('last_rejected_at').notNull(),
+    neverAllow: boolean('never_allow').notNull().default(false),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('connection_rejections_unique_pair').on(
+      table.requesterUserId,
+      table.targetUserId
+    ),
+  ]
+);
+
+/**
+ * Conversations table
+ * One private conversation per pair of connected users; user_a_id sorts before user_b_id
+ * Read receipts are kept as the time each participant last read the conversation
+ */
+export const conversations = pgTable(
+  'conversations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userAId: text('user_a_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    userBId: text('user_b_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    userALastReadAt: timestamp('user_a_last_read_at'),
+    userBLastReadAt: timestamp('user_b_last_read_at'),
+    lastMessageAt: timestamp('last_message_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('conversations_unique_pair').on(table.userAId, table.userBId),
+    index('conversations_user_b_id_idx').on(table.userBId),
+    index('conversations_last_message_at_idx').on(table.lastMessageAt),
+  ]
+);
+
+/**
+ * Conversation messages table
+ * Chat messages between connected users; replies point at the message they answer
+ */
+export const conversationMessages = pgTable(
+  'conversation_messages',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    conversationId: uuid('conversation_id').notNull().references(() => conversations.id, {
+      onDelete: 'cascade',
+    }),
+    senderId: text('sender_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    body: text('body').notNull(),
+    replyToId: uuid('reply_to_id').references((): AnyPgColumn => conversationMessages.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('conversation_messages_conversation_id_created_at_idx').on(
+      table.conversationId,
+      table.createdAt
+    ),
+    index('conversation_messages_sender_id_idx').on(table.senderId),
+  ]
+);
+
+/**
+ * Device keys table
+ * Public halves of the X25519 keypairs each device generates for end-to-end encrypted messages
+ * Private keys never leave the device; revoked keys stay so earlier messages keep their key envelopes
+ */
+export const deviceKeys = pgTable(
+  'device_keys',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: text('user_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    deviceId: text('device_id').notNull(), // Chosen by the device, stable across key rotations
+    publicKey: text('public_key').notNull(), // Base64, 32 bytes
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [uniqueIndex('device_keys_user_device_unique').on(table.userId, table.deviceId)]
+);
+
+/**
+ * Message keys table
+ * The content key of an encrypted message, sealed to one device key
+ * A device only ever receives the envelopes addressed to its own key
+ */
+export const messageKeys = pgTable(
+  'message_keys',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    messageId: uuid('message_id').notNull().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    deviceKeyId: uuid('device_key_id').notNull().references(() => deviceKeys.id, {
+      onDelete: 'cascade',
+    }),
+    ephemeralPublicKey: text('ephemeral_public_key').notNull(), // Base64, 32 bytes
+    nonce: text('nonce').notNull(), // Base64, 24 bytes
+    sealedKey: text('sealed_key').notNull(), // Base64, content key plus authenticator
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('message_keys_message_device_unique').on(table.messageId, table.deviceKeyId),
+    index('message_keys_device_key_id_idx').on(table.deviceKeyId),
+  ]
+);
+
+/**
+ * Consent receipts table
+ * Immutable, signed proof that a recipient accepted a message
+ */
+export const consentReceipts = pgTable(
+  'consent_receipts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    messageId: uuid('message_id').notNull().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    senderId: text('sender_id').notNull(),
+    recipientId: text('recipient_id').notNull(),
+    contentHash: text('content_hash').notNull(), // SHA-256 of message content
+    channel: text('channel', { enum: ['link', 'proximity', 'push'] }).notNull(),
+    acceptedAt: timestamp('accepted_at').notNull(),
+    payload: text('payload').notNull(), // Canonical JSON that was signed
+    signature: text('signature').notNull(),
+    keyId: text('key_id').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    // One receipt per recipient; group messages have several
+    uniqueIndex('consent_receipts_message_recipient_unique').on(table.messageId, table.recipientId),
+    index('consent_receipts_message_id_idx').on(table.messageId),
+    index('consent_receipts_sender_id_idx').on(table.senderId),
+    index('consent_receipts_recipient_id_idx').on(table.recipientId),
+  ]
+);
+
+/**
+ * Message events table
+ * Append-only audit trail of every state transition on a message
+ */
+export const messageEvents = pgTable(
+  'message_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    messageId: uuid('message_id').notNull().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    eventType: text('event_type', {
+      enum: ['created', 'link_opened', 'accepted', 'rejected', 'revoked', 'expired', 'link_used', 'countered'],
+    }).notNull(),
+    actorId: text('actor_id').references(() => user.id, {
+      onDelete: 'set null',
+    }), // Null for unauthenticated actions such as opening a link
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('message_events_message_id_idx').on(table.messageId),
+    index('message_events_created_at_idx').on(table.createdAt),
+  ]
+);
+
+/**
+ * Short links table
+ * Maps short codes handed out in share URLs (/m/:code) to message link tokens
+ */
+export const shortLinks = pgTable(
+  'short_links',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    code: text('code').notNull().unique(),
+    messageId: uuid('message_id').notNull().unique().references(() => messages.id, {
+      onDelete: 'cascade',
+    }),
+    expiresAt: timestamp('expires_at'), // Mirrors messages.linkExpiresAt
+    clickCount: integer('click_count').default(0).notNull(),
+    lastClickedAt: timestamp('last_clicked_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('short_links_code_idx').on(table.code),
+    index('short_links_expires_at_idx').on(table.expiresAt),
+  ]
+);
+
+/**
+ * User blocks table
+ * A block hides both users from each other and stops requests in either direction
+ */
+export const userBlocks = pgTable(
+  'user_blocks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    blockerId: text('blocker_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    blockedId: text('blocked_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('user_blocks_unique_pair').on(table.blockerId, table.blockedId),
+    index('user_blocks_blocked_id_idx').on(table.blockedId),
+  ]
+);
+
+/**
+ * User reports table
+ * Abuse reports queued for moderator review
+ */
+export const userReports = pgTable(
+  'user_reports',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    reporterId: text('reporter_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    reportedUserId: text('reported_user_id').notNull().references(() => user.id, {
+      onDelete: 'cascade',
+    }),
+    category: text('category', {
+      enum: ['spam', 'harassment', 'inappropriate_content', 'impersonation', 'other'],
+    }).notNull(),
+    details: text('details'),
+    messageId: uuid('message_id').references(() => messages.id, {
+      onDelete: 'set null',
+    }), // optional message the report refers to
+    status: text('status', { enum: ['open', 'reviewed', 'dismissed'] })
+      .default('open')
+      .notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('user_reports_reported_user_id_idx').on(table.reportedUserId),
+    index('user_reports_reporter_id_idx').on(table.reporterId),
+    index('user_reports_status_idx').on(table.status),
+  ]
+);
+
+/**
+ * Rate limit buckets table
+ * Fixed-window counters shared by every instance when RATE_LIMIT_STORE=database
+ */
+export const rateLimitBuckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: text('key').primaryKey(),
+    count: integer('count').notNull().default(0),
+    resetAt: timestamp('reset_at').notNull(),
+  },
+  (table) => [index('rate_limit_buckets_reset_at_idx').on(table.resetAt)]
+);
@@ -14,6 +14,15 @@ import { registerOAuthProfileRoutes } from './routes/oauth-profile.js';
 import { registerLocationRoutes } from './routes/location.js';
 import { registerConnectionRoutes } from './routes/connections.js';
 import { registerAuthRoutes } from './routes/auth.js';
+import { registerConsentReceiptRoutes } from './routes/consent-receipts.js';
+import { registerModerationRoutes } from './routes/moderation.js';
+import { registerMessageTemplateRoutes } from './routes/message-templates.js';
+import { registerAttachmentRoutes } from './routes/attachments.js';
+import { registerConversationRoutes } from './routes/conversations.js';
+import { registerRealtimeRoutes } from './routes/realtime.js';
+import { registerDeviceKeyRoutes } from './routes/device-keys.js';
+import { scheduleLocationPurge } from './jobs/location-purge.js';
+import { scheduleConnectionExpiry } from './jobs/connection-expiry.js';
 
 // Combine app and auth schemas
 const schema = { ...appSchema, ...authSchema };
@@ -73,6 +82,17 @@ registerOAuthProfileRoutes(app);
 registerLocationRoutes(app);
 registerConnectionRoutes(app);
 registerAuthRoutes(app);
+registerConsentReceiptRoutes(app);
+registerModerationRoutes(app);
+registerMessageTemplateRoutes(app);
+registerAttachmentRoutes(app);
+registerConversationRoutes(app);
+registerRealtimeRoutes(app);
+registerDeviceKeyRoutes(app);
 
 await app.run();
 app.logger.info('Application running');
+
+// Background jobs
+scheduleLocationPurge(app);
+scheduleConnectionExpiry(app);
@@ -0,0 +1,76 @@
+import type { App } from '../index.js';
+import { and, eq, lte } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { notifyUser } from '../utils/notifications.js';
+
+/**
+ * Connection Expiry Job
+ * Marks pending connection requests past their expires_at as expired and notifies both sides
+ *
+ * Environment variables:
+ * - CONNECTION_EXPIRY_INTERVAL_MINUTES: How often the job runs (default 15)
+ */
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+/**
+ * Expires every overdue request and returns how many were expired
+ */
+export async function expireConnectionRequests(app: App, now: Date = new Date()): Promise<number> {
+  const expired = await app.db
+    .update(schema.deviceConnections)
+    .set({ status: 'expired', updatedAt: now })
+    .where(
+      and(
+        eq(schema.deviceConnections.status, 'pending'),
+        lte(schema.deviceConnections.expiresAt, now)
+      )
+    )
+    .returning();
+
+  for (const connection of expired) {
+    const data = { connectionId: connection.id, type: 'connection_expired' };
+
+    await Promise.all([
+      notifyUser(app, connection.requesterUserId, {
+        title: 'Connection request expired',
+        body: 'Your connection request was not answered in time',
+        data,
+      }),
+      notifyUser(app, connection.targetUserId, {
+        title: 'Connection request expired',
+        body: 'A connection request you did not answer has expired',
+        data,
+      }),
+    ]);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Runs the sweep immediately and then on a fixed interval
+ * The timer does not keep the process alive on shutdown
+ */
+export function scheduleConnectionExpiry(app: App): NodeJS.Timeout {
+  const minutes = parseInt(process.env.CONNECTION_EXPIRY_INTERVAL_MINUTES || '', 10);
+  const intervalMs = (minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+
+  const run = async () => {
+    try {
+      const expiredCount = await expireConnectionRequests(app);
+      if (expiredCount > 0) {
+        app.logger.info({ expiredCount }, 'Expired connection requests');
+      }
+    } catch (error) {
+      app.logger.error({ err: error }, 'Failed to expire connection requests');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  app.logger.info({ intervalMs }, 'Connection expiry job scheduled');
+  return timer;
+}
@@ -0,0 +1,52 @@
+import type { App } from '../index.js';
+import { lte } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Location Purge Job
+ * Deletes user locations whose visible_until has passed
+ *
+ * Environment variables:
+ * - LOCATION_PURGE_INTERVAL_MINUTES: How often the job runs (default 5)
+ */
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+/**
+ * Deletes every stale location and returns how many were removed
+ */
+export async function purgeStaleLocations(app: App, now: Date = new Date()): Promise<number> {
+  const deleted = await app.db
+    .delete(schema.userLocations)
+    .where(lte(schema.userLocations.visibleUntil, now))
+    .returning({ id: schema.userLocations.id });
+
+  return deleted.length;
+}
+
+/**
+ * Runs the purge immediately and then on a fixed interval
+ * The timer does not keep the process alive on shutdown
+ */
+export function scheduleLocationPurge(app: App): NodeJS.Timeout {
+  const minutes = parseInt(process.env.LOCATION_PURGE_INTERVAL_MINUTES || '', 10);
+  const intervalMs = (minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+
+  const run = async () => {
+    try {
+      const deletedCount = await purgeStaleLocations(app);
+      if (deletedCount > 0) {
+        app.logger.info({ deletedCount }, 'Purged stale user locations');
+      }
+    } catch (error) {
+      app.logger.error({ err: error }, 'Failed to purge stale user locations');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+
+  app.logger.info({ intervalMs }, 'Location purge job scheduled');
+  return timer;
+}
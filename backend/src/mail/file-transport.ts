@@ -0,0 +1,38 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { MailTransport, MailMessage } from './types.js';
+import { buildMimeMessage, generateMessageId } from './mime.js';
+
+/**
+ * File Transport
+ * Writes each message as an .eml file instead of sending it
+ * Intended for local development
+ *
+ * Environment variables:
+ * - MAIL_FILE_DIR: Output directory (default ./mail-outbox)
+ */
+export function createFileTransport(): MailTransport {
+  return {
+    name: 'file',
+
+    async send(message: MailMessage) {
+      const messageId = generateMessageId(message.from);
+      const directory = process.env.MAIL_FILE_DIR || './mail-outbox';
+
+      try {
+        await mkdir(directory, { recursive: true });
+        const fileName = `${Date.now()}-${messageId.replace(/[<>@]/g, '_')}.eml`;
+        await writeFile(join(directory, fileName), buildMimeMessage(message, messageId), 'utf8');
+
+        return { transport: 'file', messageId, accepted: true };
+      } catch (error) {
+        return {
+          transport: 'file',
+          messageId,
+          accepted: false,
+          error: (error as Error).message,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getMailTransport, passwordResetEmail, sendMail } from './index.js';
+
+describe('mail transport selection', () => {
+  const savedEnv = { ...process.env };
+  let outbox: string;
+
+  before(() => {
+    outbox = join(mkdtempSync(join(tmpdir(), 'mail-test-')), 'outbox');
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SMTP_HOST;
+    process.env.MAIL_FILE_DIR = outbox;
+  });
+
+  after(() => {
+    process.env = savedEnv;
+    rmSync(join(outbox, '..'), { recursive: true, force: true });
+  });
+
+  it('fails instead of writing reset links to disk when SMTP is not configured', async () => {
+    const delivery = await sendMail(
+      'bob@example.com',
+      passwordResetEmail({ resetUrl: 'https://acceptconnect.app/reset?token=secret', expiresAt: new Date() })
+    );
+
+    assert.equal(getMailTransport().name, 'smtp');
+    assert.equal(delivery.accepted, false);
+    assert.equal(delivery.error, 'SMTP not configured');
+    assert.equal(existsSync(outbox), false);
+  });
+});
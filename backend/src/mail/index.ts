@@ -0,0 +1,61 @@
+import type { MailTransport, MailDeliveryResult } from './types.js';
+import type { RenderedMail } from './templates.js';
+import { createSmtpTransport } from './smtp-transport.js';
+import { createFileTransport } from './file-transport.js';
+import { createMemoryTransport, type MemoryMailTransport } from './memory-transport.js';
+
+export type { MailMessage, MailDeliveryResult, MailTransport } from './types.js';
+export { passwordResetEmail, messageInvitationEmail } from './templates.js';
+
+/**
+ * Mailer
+ * Sends rendered templates through the configured transport
+ *
+ * Environment variables:
+ * - MAIL_TRANSPORT: "smtp" (default), "file" or "memory"
+ *   Without SMTP_HOST the smtp transport reports every send as failed; writing mail to
+ *   disk has to be asked for with "file", so a missing variable cannot divert reset links there
+ * - MAIL_FROM: Sender mailbox (default "Accept Connect <no-reply@acceptconnect.app>")
+ */
+
+const DEFAULT_FROM = 'Accept Connect <no-reply@acceptconnect.app>';
+
+let transport: MailTransport | null = null;
+
+export const memoryMailTransport: MemoryMailTransport = createMemoryTransport();
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'memory':
+        transport = memoryMailTransport;
+        break;
+      case 'file':
+        transport = createFileTransport();
+        break;
+      case 'smtp':
+      default:
+        transport = createSmtpTransport();
+        break;
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replaces the active transport, e.g. to inject the memory transport in tests
+ */
+export function setMailTransport(override: MailTransport | null): void {
+  transport = override;
+}
+
+/**
+ * Sends a rendered template to a single recipient
+ */
+export async function sendMail(to: string, mail: RenderedMail): Promise<MailDeliveryResult> {
+  return getMailTransport().send({
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+    to,
+    ...mail,
+  });
+}
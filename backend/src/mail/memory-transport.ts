@@ -0,0 +1,31 @@
+import type { MailTransport, MailMessage } from './types.js';
+import { generateMessageId } from './mime.js';
+
+/**
+ * Memory Transport
+ * Keeps sent messages in memory so tests can inspect them
+ */
+
+export interface MemoryMailTransport extends MailTransport {
+  readonly outbox: Array<MailMessage & { messageId: string }>;
+  reset(): void;
+}
+
+export function createMemoryTransport(): MemoryMailTransport {
+  const outbox: MemoryMailTransport['outbox'] = [];
+
+  return {
+    name: 'memory',
+    outbox,
+
+    async send(message: MailMessage) {
+      const messageId = generateMessageId(message.from);
+      outbox.push({ ...message, messageId });
+      return { transport: 'memory', messageId, accepted: true };
+    },
+
+    reset() {
+      outbox.length = 0;
+    },
+  };
+}
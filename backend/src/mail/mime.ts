@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import type { MailMessage } from './types.js';
+
+/**
+ * MIME Utilities
+ * Builds RFC 5322 messages with text and HTML alternatives
+ */
+
+/**
+ * Generates a Message-ID for the given sender domain
+ */
+export function generateMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'acceptconnect.app';
+  return `<${randomBytes(16).toString('hex')}@${domain}>`;
+}
+
+/**
+ * Extracts the bare address from "Name <address>" notation
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word when it contains non-ASCII text
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64-encodes a body part, wrapped at 76 characters per line
+ */
+function encodeBody(content: string): string {
+  return (
+    Buffer.from(content, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') || ''
+  );
+}
+
+/**
+ * Serializes a message to a multipart/alternative MIME document
+ */
+export function buildMimeMessage(message: MailMessage, messageId: string): string {
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Message-ID: ${messageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
@@ -0,0 +1,167 @@
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+import type { MailTransport, MailMessage } from './types.js';
+import { buildMimeMessage, extractAddress, generateMessageId } from './mime.js';
+
+/**
+ * SMTP Transport
+ * Delivers mail to an SMTP relay, upgrading with STARTTLS when offered
+ *
+ * Environment variables:
+ * - SMTP_HOST: Relay hostname (required)
+ * - SMTP_PORT: Relay port (default 587, or 465 when SMTP_SECURE is set)
+ * - SMTP_SECURE: Set to "true" for implicit TLS
+ * - SMTP_USER / SMTP_PASSWORD: Credentials for AUTH PLAIN
+ */
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads complete (possibly multi-line) SMTP replies from a socket
+ */
+class SmtpReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  attach(socket: Socket): void {
+    // Decode manually: setting an encoding would break a later STARTTLS upgrade
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.substring(0, newline);
+      this.buffer = this.buffer.substring(newline + 2);
+      this.lines.push(line.substring(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.substring(0, 3), 10), lines: this.lines };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiting.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+}
+
+export function isSmtpConfigured(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+export function createSmtpTransport(): MailTransport {
+  return {
+    name: 'smtp',
+
+    async send(message: MailMessage) {
+      const messageId = generateMessageId(message.from);
+
+      if (!isSmtpConfigured()) {
+        return { transport: 'smtp', messageId, accepted: false, error: 'SMTP not configured' };
+      }
+
+      const host = process.env.SMTP_HOST!;
+      const secure = process.env.SMTP_SECURE === 'true';
+      const port = parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10);
+
+      let socket: Socket | null = null;
+
+      try {
+        let reader = new SmtpReplyReader();
+        socket = await new Promise<Socket>((resolve, reject) => {
+          const connected = secure
+            ? connectTls({ host, port, servername: host }, () => resolve(connected))
+            : connectTcp({ host, port }, () => resolve(connected));
+          connected.once('error', reject);
+        });
+        socket.setTimeout(SMTP_TIMEOUT_MS);
+        reader.attach(socket);
+
+        const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+          if (line !== null) socket!.write(`${line}\r\n`);
+          const reply = await reader.read();
+          if (!expected.includes(reply.code)) {
+            throw new Error(`SMTP ${reply.code}: ${reply.lines.join(' ')}`);
+          }
+          return reply;
+        };
+
+        const clientName = hostname();
+        await command(null, [220]);
+        let capabilities = await command(`EHLO ${clientName}`, [250]);
+
+        if (!secure && capabilities.lines.some((line) => line.toUpperCase() === 'STARTTLS')) {
+          await command('STARTTLS', [220]);
+          const plainSocket = socket;
+          plainSocket.removeAllListeners('data');
+          plainSocket.removeAllListeners('close');
+          socket = await new Promise<Socket>((resolve, reject) => {
+            const upgraded = connectTls({ socket: plainSocket, servername: host }, () => resolve(upgraded));
+            upgraded.once('error', reject);
+          });
+          socket.setTimeout(SMTP_TIMEOUT_MS);
+          reader = new SmtpReplyReader();
+          reader.attach(socket);
+          capabilities = await command(`EHLO ${clientName}`, [250]);
+        }
+
+        if (process.env.SMTP_USER) {
+          const credentials = Buffer.from(
+            `\u0000${process.env.SMTP_USER}\u0000${process.env.SMTP_PASSWORD || ''}`
+          ).toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+        await command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+
+        // Dot-stuff lines that begin with "." as required by RFC 5321;
+        // the MIME document already ends with CRLF, so "." closes DATA
+        const data = buildMimeMessage(message, messageId).replace(/^\./gm, '..');
+        await command(`${data}.`, [250]);
+        await command('QUIT', [221]).catch(() => undefined);
+
+        return { transport: 'smtp', messageId, accepted: true };
+      } catch (error) {
+        return {
+          transport: 'smtp',
+          messageId,
+          accepted: false,
+          error: (error as Error).message,
+        };
+      } finally {
+        socket?.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Mail Templates
+ * Each template renders a subject plus matching text and HTML bodies
+ */
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Escapes text for safe interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wraps body content in the shared HTML layout
+ */
+function layout(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Helvetica,Arial,sans-serif;color:#18181b;">
+    <div style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      ${content}
+      <p style="margin-top:32px;font-size:12px;color:#71717a;">Accept Connect</p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Renders a call-to-action button
+ */
+function button(label: string, url: string): string {
+  return `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 24px;background:#2563eb;color:#ffffff;border-radius:8px;text-decoration:none;font-weight:600;">${escapeHtml(label)}</a></p>`;
+}
+
+/**
+ * Password reset email
+ */
+export function passwordResetEmail(options: {
+  name?: string;
+  resetUrl: string;
+  expiresAt: Date;
+}): RenderedMail {
+  const { name, resetUrl, expiresAt } = options;
+  const greeting = name ? `Hi ${name},` : 'Hi,';
+  const expiry = expiresAt.toUTCString();
+
+  return {
+    subject: 'Reset your Accept Connect password',
+    text: [
+      greeting,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      '',
+      resetUrl,
+      '',
+      `This link expires on ${expiry}.`,
+      "If you didn't request a reset, you can ignore this email.",
+    ].join('\n'),
+    html: layout(
+      'Reset your password',
+      `<p>${escapeHtml(greeting)}</p>
+      <p>We received a request to reset your password. Use the button below to choose a new one.</p>
+      ${button('Reset password', resetUrl)}
+      <p style="font-size:14px;color:#52525b;">This link expires on ${escapeHtml(expiry)}. If you didn't request a reset, you can ignore this email.</p>`
+    ),
+  };
+}
+
+/**
+ * Invitation for a recipient who does not have an account yet
+ */
+export function messageInvitationEmail(options: {
+  senderName: string;
+  content: string;
+  respondUrl: string;
+  expiresAt: Date;
+}): RenderedMail {
+  const { senderName, content, respondUrl, expiresAt } = options;
+  const expiry = expiresAt.toUTCString();
+
+  return {
+    subject: `${senderName} sent you a consent request`,
+    text: [
+      `${senderName} sent you a consent request on Accept Connect:`,
+      '',
+      `"${content}"`,
+      '',
+      'Open the link below to accept or reject it. You will be asked to create a free account.',
+      '',
+      respondUrl,
+      '',
+      `This request expires on ${expiry}.`,
+    ].join('\n'),
+    html: layout(
+      'New consent request',
+      `<p><strong>${escapeHtml(senderName)}</strong> sent you a consent request on Accept Connect:</p>
+      <blockquote style="margin:16px 0;padding:12px 16px;border-left:4px solid #2563eb;background:#eff6ff;">${escapeHtml(content)}</blockquote>
+      <p>Accept or reject it using the button below. You will be asked to create a free account.</p>
+      ${button('Respond', respondUrl)}
+      <p style="font-size:14px;color:#52525b;">This request expires on ${escapeHtml(expiry)}.</p>`
+    ),
+  };
+}
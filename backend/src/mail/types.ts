@@ -0,0 +1,28 @@
+/**
+ * Mail Types
+ * Shared contract between the mailer and transport implementations
+ */
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailDeliveryResult {
+  transport: string;
+  messageId: string;
+  accepted: boolean;
+  error?: string;
+}
+
+/**
+ * A mail transport
+ * Transports never throw for delivery failures; they report them in the result
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailDeliveryResult>;
+}
@@ -0,0 +1,105 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import { createServer, type Http2Server } from 'http2';
+import type { AddressInfo } from 'net';
+import type { PushTokenRecord } from './types.js';
+import { createApnsProvider } from './apns-provider.js';
+
+const notification = { title: 'New request', body: 'Lunch at 12?' };
+
+const iosToken = (token: string): PushTokenRecord => ({
+  id: token,
+  userId: 'alice',
+  token,
+  platform: 'ios',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// How the local gateway answers each device token
+const GATEWAY_RESPONSES: Record<string, { status: number; reason?: string }> = {
+  delivered: { status: 200 },
+  unregistered: { status: 410, reason: 'Unregistered' },
+  'bad-token': { status: 400, reason: 'BadDeviceToken' },
+  'bad-topic': { status: 400, reason: 'DeviceTokenNotForTopic' },
+  'too-many': { status: 429, reason: 'TooManyRequests' },
+  'bad-payload': { status: 400, reason: 'PayloadEmpty' },
+};
+
+describe('APNs provider', () => {
+  const savedEnv = { ...process.env };
+  let gateway: Http2Server;
+  let gatewayUrl: string;
+
+  before(async () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    process.env.APNS_KEY_ID = 'KEY123';
+    process.env.APNS_TEAM_ID = 'TEAM123';
+    process.env.APNS_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+    process.env.APNS_BUNDLE_ID = 'app.acceptconnect';
+
+    gateway = createServer((request, response) => {
+      const token = request.url.replace('/3/device/', '');
+      const { status, reason } = GATEWAY_RESPONSES[token];
+      response.writeHead(status, { 'content-type': 'application/json' });
+      response.end(reason ? JSON.stringify({ reason }) : '');
+    });
+    await new Promise<void>((resolve) => gateway.listen(0, '127.0.0.1', resolve));
+    gatewayUrl = `http://127.0.0.1:${(gateway.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    process.env = savedEnv;
+    await new Promise((resolve) => gateway.close(resolve));
+  });
+
+  it('reports tokens APNs rejected for good as invalid', async () => {
+    const results = await createApnsProvider({ host: gatewayUrl }).send(
+      ['delivered', 'unregistered', 'bad-token', 'bad-topic'].map(iosToken),
+      notification
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.pushTokenId, result.status]),
+      [
+        ['delivered', 'delivered'],
+        ['unregistered', 'invalid_token'],
+        ['bad-token', 'invalid_token'],
+        ['bad-topic', 'invalid_token'],
+      ]
+    );
+  });
+
+  it('keeps tokens on errors that do not concern the token', async () => {
+    const results = await createApnsProvider({ host: gatewayUrl }).send(
+      ['too-many', 'bad-payload'].map(iosToken),
+      notification
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.pushTokenId, result.status, result.error]),
+      [
+        ['too-many', 'failed', 'TooManyRequests'],
+        ['bad-payload', 'failed', 'PayloadEmpty'],
+      ]
+    );
+  });
+
+  it('fails each token instead of crashing when the gateway is unreachable', async () => {
+    // Nothing listens on port 1
+    const results = await createApnsProvider({ host: 'http://127.0.0.1:1' }).send(
+      ['delivered', 'unregistered'].map(iosToken),
+      notification
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.pushTokenId, result.status]),
+      [
+        ['delivered', 'failed'],
+        ['unregistered', 'failed'],
+      ]
+    );
+    assert.match(results[0].error!, /ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,197 @@
+import { connect, constants, type ClientHttp2Session, type ClientHttp2Stream } from 'http2';
+import type { PushProvider, PushTokenRecord, PushNotification, PushDeliveryResult } from './types.js';
+import { failAll, PUSH_REQUEST_TIMEOUT_MS } from './types.js';
+import { parsePrivateKey, signJwt } from '../utils/jwt.js';
+
+/**
+ * APNs Provider
+ * Delivers to native iOS device tokens over the APNs HTTP/2 API
+ * using token-based (.p8) authentication
+ *
+ * Environment variables required:
+ * - APNS_KEY_ID: Key ID of the APNs auth key
+ * - APNS_TEAM_ID: Apple developer team ID
+ * - APNS_PRIVATE_KEY: Contents of the .p8 auth key (PEM)
+ * - APNS_BUNDLE_ID: App bundle identifier used as the apns-topic
+ * - APNS_PRODUCTION: Set to "true" to use the production gateway
+ */
+
+const APNS_PRODUCTION_HOST = 'https://api.push.apple.com';
+const APNS_SANDBOX_HOST = 'https://api.sandbox.push.apple.com';
+
+// APNs rejects provider tokens older than one hour; refresh well before that
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+// Reasons for which the device token will never work again
+const INVALID_TOKEN_REASONS = ['BadDeviceToken', 'Unregistered', 'DeviceTokenNotForTopic'];
+
+export function isApnsConfigured(): boolean {
+  return !!(
+    process.env.APNS_KEY_ID &&
+    process.env.APNS_TEAM_ID &&
+    process.env.APNS_PRIVATE_KEY &&
+    process.env.APNS_BUNDLE_ID
+  );
+}
+
+export interface ApnsProviderOptions {
+  /** Overrides the APNs gateway, e.g. to point tests at a local server */
+  host?: string;
+}
+
+export function createApnsProvider(options: ApnsProviderOptions = {}): PushProvider {
+  let providerToken: { value: string; issuedAt: number } | null = null;
+
+  function getProviderToken(): string {
+    if (providerToken && Date.now() - providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS) {
+      return providerToken.value;
+    }
+
+    const issuedAt = Date.now();
+    const value = signJwt(
+      { kid: process.env.APNS_KEY_ID },
+      { iss: process.env.APNS_TEAM_ID, iat: Math.floor(issuedAt / 1000) },
+      parsePrivateKey(process.env.APNS_PRIVATE_KEY!),
+      'ES256'
+    );
+
+    providerToken = { value, issuedAt };
+    return value;
+  }
+
+  return {
+    name: 'apns',
+
+    supports(token: PushTokenRecord) {
+      return token.platform === 'ios';
+    },
+
+    async send(tokens: PushTokenRecord[], notification: PushNotification) {
+      if (!isApnsConfigured()) {
+        return failAll('apns', tokens, 'APNs not configured');
+      }
+
+      const host = process.env.APNS_PRODUCTION === 'true' ? APNS_PRODUCTION_HOST : APNS_SANDBOX_HOST;
+      const body = JSON.stringify({
+        aps: {
+          alert: { title: notification.title, body: notification.body },
+          sound: 'default',
+        },
+        ...notification.data,
+      });
+
+      let client: ClientHttp2Session;
+      try {
+        client = connect(options.host ?? host);
+      } catch (error) {
+        return failAll('apns', tokens, (error as Error).message);
+      }
+
+      // Failure callbacks of the tokens still waiting for an answer
+      const pending = new Map<string, (error: string) => void>();
+
+      // DNS, TLS and network failures are emitted on the session; unhandled they would crash the process
+      client.on('error', (error) => {
+        for (const fail of [...pending.values()]) {
+          fail(error.message);
+        }
+      });
+
+      try {
+        const authorization = `bearer ${getProviderToken()}`;
+
+        return await Promise.all(
+          tokens.map(
+            (token) =>
+              new Promise<PushDeliveryResult>((resolve) => {
+                const settle = (result: PushDeliveryResult) => {
+                  if (pending.delete(token.id)) {
+                    resolve(result);
+                  }
+                };
+                const fail = (error: string) =>
+                  settle({
+                    pushTokenId: token.id,
+                    provider: 'apns',
+                    platform: token.platform,
+                    status: 'failed',
+                    error,
+                  });
+                pending.set(token.id, fail);
+
+                let request: ClientHttp2Stream;
+                try {
+                  request = client.request({
+                    [constants.HTTP2_HEADER_METHOD]: 'POST',
+                    [constants.HTTP2_HEADER_PATH]: `/3/device/${token.token}`,
+                    authorization,
+                    'apns-topic': process.env.APNS_BUNDLE_ID,
+                    'apns-push-type': 'alert',
+                    'content-type': 'application/json',
+                  });
+                } catch (error) {
+                  // The session may already have failed
+                  fail((error as Error).message);
+                  return;
+                }
+
+                let status = 0;
+                let responseBody = '';
+
+                request.setTimeout(PUSH_REQUEST_TIMEOUT_MS, () => {
+                  fail('APNs request timed out');
+                  request.close(constants.NGHTTP2_CANCEL);
+                });
+                request.on('response', (headers) => {
+                  status = Number(headers[constants.HTTP2_HEADER_STATUS]);
+                });
+                request.on('data', (chunk) => {
+                  responseBody += chunk;
+                });
+                request.on('end', () => {
+                  if (status === 200) {
+                    settle({
+                      pushTokenId: token.id,
+                      provider: 'apns',
+                      platform: token.platform,
+                      status: 'delivered',
+                    });
+                    return;
+                  }
+
+                  let reason = `HTTP ${status}`;
+                  try {
+                    reason = (JSON.parse(responseBody) as { reason: string }).reason || reason;
+                  } catch {}
+
+                  settle({
+                    pushTokenId: token.id,
+                    provider: 'apns',
+                    platform: token.platform,
+                    status:
+                      status === 410 || INVALID_TOKEN_REASONS.includes(reason)
+                        ? 'invalid_token'
+                        : 'failed',
+                    error: reason,
+                  });
+                });
+                request.on('error', (error) => {
+                  fail(error.message);
+                });
+                // A stream closed without a response, e.g. when the session went away
+                request.on('close', () => {
+                  fail(`APNs stream closed with code ${request.rstCode ?? 'unknown'}`);
+                });
+
+                request.end(body);
+              })
+          )
+        );
+      } catch (error) {
+        return failAll('apns', tokens, (error as Error).message);
+      } finally {
+        client.close();
+      }
+    },
+  };
+}
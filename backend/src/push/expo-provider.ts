@@ -0,0 +1,98 @@
+import type { PushProvider, PushTokenRecord, PushNotification, PushDeliveryResult } from './types.js';
+import { failAll, PUSH_REQUEST_TIMEOUT_MS } from './types.js';
+
+/**
+ * Expo Push Provider
+ * Delivers to ExponentPushToken[...] tokens through the Expo push service
+ *
+ * Optional environment variables:
+ * - EXPO_ACCESS_TOKEN: Access token when enhanced push security is enabled
+ */
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100;
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export function isExpoPushToken(token: string): boolean {
+  return /^Expo(nent)?PushToken\[.+\]$/.test(token);
+}
+
+export function createExpoProvider(): PushProvider {
+  return {
+    name: 'expo',
+
+    supports(token: PushTokenRecord) {
+      return isExpoPushToken(token.token);
+    },
+
+    async send(tokens: PushTokenRecord[], notification: PushNotification) {
+      const results: PushDeliveryResult[] = [];
+
+      for (let i = 0; i < tokens.length; i += EXPO_BATCH_SIZE) {
+        const batch = tokens.slice(i, i + EXPO_BATCH_SIZE);
+
+        try {
+          const response = await fetch(EXPO_PUSH_URL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json',
+              ...(process.env.EXPO_ACCESS_TOKEN && {
+                Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}`,
+              }),
+            },
+            body: JSON.stringify(
+              batch.map((token) => ({
+                to: token.token,
+                title: notification.title,
+                body: notification.body,
+                data: notification.data,
+                sound: 'default',
+              }))
+            ),
+            signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+          });
+
+          if (!response.ok) {
+            results.push(...failAll('expo', batch, `HTTP ${response.status}`));
+            continue;
+          }
+
+          const { data: tickets } = (await response.json()) as { data: ExpoPushTicket[] };
+
+          batch.forEach((token, index) => {
+            const ticket = tickets[index];
+            if (ticket?.status === 'ok') {
+              results.push({
+                pushTokenId: token.id,
+                provider: 'expo',
+                platform: token.platform,
+                status: 'delivered',
+              });
+            } else {
+              results.push({
+                pushTokenId: token.id,
+                provider: 'expo',
+                platform: token.platform,
+                status: ticket?.details?.error === 'DeviceNotRegistered' ? 'invalid_token' : 'failed',
+                error: ticket?.details?.error || ticket?.message || 'Missing push ticket',
+              });
+            }
+          });
+        } catch (error) {
+          results.push(...failAll('expo', batch, (error as Error).message));
+        }
+      }
+
+      return results;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { PushProvider, PushTokenRecord, PushNotification } from './types.js';
+
+/**
+ * Fake Push Provider
+ * Records notifications in memory instead of delivering them
+ * Used for local development and tests (PUSH_PROVIDER=fake)
+ *
+ * Tokens starting with "invalid" are reported as invalid so that
+ * token pruning can be exercised without a real provider
+ */
+
+export interface FakePushProvider extends PushProvider {
+  readonly sent: Array<{ token: PushTokenRecord; notification: PushNotification }>;
+  reset(): void;
+}
+
+export function createFakeProvider(): FakePushProvider {
+  const sent: FakePushProvider['sent'] = [];
+
+  return {
+    name: 'fake',
+    sent,
+
+    supports() {
+      return true;
+    },
+
+    async send(tokens: PushTokenRecord[], notification: PushNotification) {
+      return tokens.map((token) => {
+        if (token.token.startsWith('invalid')) {
+          return {
+            pushTokenId: token.id,
+            provider: 'fake',
+            platform: token.platform,
+            status: 'invalid_token' as const,
+            error: 'Unregistered',
+          };
+        }
+
+        sent.push({ token, notification });
+        return {
+          pushTokenId: token.id,
+          provider: 'fake',
+          platform: token.platform,
+          status: 'delivered' as const,
+        };
+      });
+    },
+
+    reset() {
+      sent.length = 0;
+    },
+  };
+}
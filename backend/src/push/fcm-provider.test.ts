@@ -0,0 +1,127 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import type { PushTokenRecord } from './types.js';
+import { createFcmProvider } from './fcm-provider.js';
+
+const notification = { title: 'New request', body: 'Lunch at 12?' };
+
+const androidToken = (id: string): PushTokenRecord => ({
+  id,
+  userId: 'alice',
+  token: `fcm-${id}`,
+  platform: 'android',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const fcmError = (status: number, code: string, errorCode?: string) =>
+  jsonResponse(status, {
+    error: {
+      status: code,
+      details: errorCode ? [{ '@type': 'type.googleapis.com/google.firebase.fcm.v1.FcmError', errorCode }] : [],
+    },
+  });
+
+/**
+ * Answers the token exchange and then each send with the response listed for its token
+ */
+function mockFcm(responses: Record<string, () => Response>) {
+  return mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    if (url === 'https://oauth2.googleapis.com/token') {
+      return jsonResponse(200, { access_token: 'access-token', expires_in: 3600 });
+    }
+    const { message } = JSON.parse(init.body as string) as { message: { token: string } };
+    return responses[message.token]();
+  });
+}
+
+describe('FCM provider', () => {
+  const savedEnv = { ...process.env };
+
+  before(() => {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    process.env.FCM_PROJECT_ID = 'test-project';
+    process.env.FCM_CLIENT_EMAIL = 'push@test-project.iam.gserviceaccount.com';
+    process.env.FCM_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+  });
+
+  after(() => {
+    process.env = savedEnv;
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('reports tokens FCM no longer knows as invalid', async () => {
+    mockFcm({
+      'fcm-delivered': () => jsonResponse(200, { name: 'projects/test-project/messages/1' }),
+      'fcm-unregistered': () => fcmError(404, 'NOT_FOUND', 'UNREGISTERED'),
+      'fcm-not-found': () => fcmError(404, 'NOT_FOUND'),
+    });
+
+    const results = await createFcmProvider().send(
+      [androidToken('delivered'), androidToken('unregistered'), androidToken('not-found')],
+      notification
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.pushTokenId, result.status, result.error]),
+      [
+        ['delivered', 'delivered', undefined],
+        ['unregistered', 'invalid_token', 'UNREGISTERED'],
+        ['not-found', 'invalid_token', 'NOT_FOUND'],
+      ]
+    );
+  });
+
+  it('keeps tokens on errors that do not mean the token is gone', async () => {
+    mockFcm({
+      'fcm-bad-payload': () => fcmError(400, 'INVALID_ARGUMENT', 'INVALID_ARGUMENT'),
+      'fcm-unavailable': () => fcmError(503, 'UNAVAILABLE', 'UNAVAILABLE'),
+      'fcm-plain-404': () => new Response('Not Found', { status: 404 }),
+    });
+
+    const results = await createFcmProvider().send(
+      [androidToken('bad-payload'), androidToken('unavailable'), androidToken('plain-404')],
+      notification
+    );
+
+    assert.deepEqual(
+      results.map((result) => [result.pushTokenId, result.status, result.error]),
+      [
+        ['bad-payload', 'failed', 'INVALID_ARGUMENT'],
+        ['unavailable', 'failed', 'UNAVAILABLE'],
+        ['plain-404', 'failed', 'HTTP 404'],
+      ]
+    );
+  });
+
+  it('fails every token when the access token cannot be obtained', async () => {
+    mock.method(globalThis, 'fetch', async () => jsonResponse(401, { error: 'invalid_grant' }));
+
+    const results = await createFcmProvider().send([androidToken('a'), androidToken('b')], notification);
+
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ['failed', 'failed']
+    );
+  });
+
+  it('reports network errors as failures', async () => {
+    mockFcm({
+      'fcm-offline': () => {
+        throw new TypeError('fetch failed');
+      },
+    });
+
+    const [result] = await createFcmProvider().send([androidToken('offline')], notification);
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.error, 'fetch failed');
+  });
+});
@@ -0,0 +1,158 @@
+import type { PushProvider, PushTokenRecord, PushNotification, PushDeliveryResult } from './types.js';
+import { failAll, PUSH_REQUEST_TIMEOUT_MS } from './types.js';
+import { parsePrivateKey, signJwt } from '../utils/jwt.js';
+
+/**
+ * FCM Provider
+ * Delivers to native Android registration tokens through the FCM HTTP v1 API
+ * using a Google service account
+ *
+ * Environment variables required:
+ * - FCM_PROJECT_ID: Firebase project ID
+ * - FCM_CLIENT_EMAIL: Service account client email
+ * - FCM_PRIVATE_KEY: Service account private key (PEM)
+ */
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+// Error codes for which the registration token will never work again
+// INVALID_ARGUMENT is not one of them: FCM also returns it for a malformed payload
+const INVALID_TOKEN_CODES = ['UNREGISTERED', 'NOT_FOUND'];
+
+export function isFcmConfigured(): boolean {
+  return !!(
+    process.env.FCM_PROJECT_ID &&
+    process.env.FCM_CLIENT_EMAIL &&
+    process.env.FCM_PRIVATE_KEY
+  );
+}
+
+export function createFcmProvider(): PushProvider {
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  /**
+   * Exchanges a signed service account assertion for an OAuth access token
+   */
+  async function getAccessToken(): Promise<string> {
+    if (accessToken && Date.now() < accessToken.expiresAt) {
+      return accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = signJwt(
+      {},
+      {
+        iss: process.env.FCM_CLIENT_EMAIL,
+        scope: FCM_SCOPE,
+        aud: GOOGLE_TOKEN_URL,
+        iat: now,
+        exp: now + 3600,
+      },
+      parsePrivateKey(process.env.FCM_PRIVATE_KEY!),
+      'RS256'
+    );
+
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+      signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM token exchange failed with HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as { access_token: string; expires_in: number };
+
+    // Refresh a minute before Google expires the token
+    accessToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (data.expires_in - 60) * 1000,
+    };
+
+    return accessToken.value;
+  }
+
+  return {
+    name: 'fcm',
+
+    supports(token: PushTokenRecord) {
+      return token.platform === 'android';
+    },
+
+    async send(tokens: PushTokenRecord[], notification: PushNotification) {
+      if (!isFcmConfigured()) {
+        return failAll('fcm', tokens, 'FCM not configured');
+      }
+
+      let authorization: string;
+      try {
+        authorization = `Bearer ${await getAccessToken()}`;
+      } catch (error) {
+        return failAll('fcm', tokens, (error as Error).message);
+      }
+
+      const url = `https://fcm.googleapis.com/v1/projects/${process.env.FCM_PROJECT_ID}/messages:send`;
+
+      return Promise.all(
+        tokens.map(async (token): Promise<PushDeliveryResult> => {
+          try {
+            const response = await fetch(url, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                Authorization: authorization,
+              },
+              body: JSON.stringify({
+                message: {
+                  token: token.token,
+                  notification: { title: notification.title, body: notification.body },
+                  data: notification.data,
+                },
+              }),
+              signal: AbortSignal.timeout(PUSH_REQUEST_TIMEOUT_MS),
+            });
+
+            if (response.ok) {
+              return {
+                pushTokenId: token.id,
+                provider: 'fcm',
+                platform: token.platform,
+                status: 'delivered',
+              };
+            }
+
+            const errorBody = (await response.json().catch(() => ({}))) as {
+              error?: { status?: string; details?: Array<{ errorCode?: string }> };
+            };
+            const errorCode =
+              errorBody.error?.details?.find((detail) => detail.errorCode)?.errorCode ||
+              errorBody.error?.status ||
+              `HTTP ${response.status}`;
+
+            return {
+              pushTokenId: token.id,
+              provider: 'fcm',
+              platform: token.platform,
+              status: INVALID_TOKEN_CODES.includes(errorCode) ? 'invalid_token' : 'failed',
+              error: errorCode,
+            };
+          } catch (error) {
+            return {
+              pushTokenId: token.id,
+              provider: 'fcm',
+              platform: token.platform,
+              status: 'failed',
+              error: (error as Error).message,
+            };
+          }
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { PushProvider, PushTokenRecord, PushNotification, PushDeliveryResult } from './types.js';
+import { createExpoProvider } from './expo-provider.js';
+import { createApnsProvider } from './apns-provider.js';
+import { createFcmProvider } from './fcm-provider.js';
+import { createFakeProvider, type FakePushProvider } from './fake-provider.js';
+
+export type { PushNotification, PushDeliveryResult, PushTokenRecord } from './types.js';
+
+/**
+ * Push Delivery Dispatcher
+ * Routes each token to the first provider that supports it
+ *
+ * PUSH_PROVIDER selects the delivery mode:
+ * - "native" (default): Expo tokens via Expo, iOS via APNs, Android via FCM
+ * - "fake": every token is recorded in memory by the fake provider
+ */
+
+let providers: PushProvider[] | null = null;
+
+export const fakePushProvider: FakePushProvider = createFakeProvider();
+
+export function getPushProviders(): PushProvider[] {
+  if (!providers) {
+    providers =
+      process.env.PUSH_PROVIDER === 'fake'
+        ? [fakePushProvider]
+        : [createExpoProvider(), createApnsProvider(), createFcmProvider()];
+  }
+  return providers;
+}
+
+/**
+ * Replaces the active providers, e.g. to inject the fake provider in tests
+ */
+export function setPushProviders(override: PushProvider[] | null): void {
+  providers = override;
+}
+
+/**
+ * Delivers a notification to a set of tokens
+ * Returns one result per token, in no particular order
+ */
+export async function deliverPush(
+  tokens: PushTokenRecord[],
+  notification: PushNotification
+): Promise<PushDeliveryResult[]> {
+  const activeProviders = getPushProviders();
+  const batches = new Map<PushProvider, PushTokenRecord[]>();
+  const results: PushDeliveryResult[] = [];
+
+  for (const token of tokens) {
+    const provider = activeProviders.find((candidate) => candidate.supports(token));
+
+    if (!provider) {
+      results.push({
+        pushTokenId: token.id,
+        provider: 'none',
+        platform: token.platform,
+        status: 'failed',
+        error: 'No provider supports this token',
+      });
+      continue;
+    }
+
+    batches.set(provider, [...(batches.get(provider) || []), token]);
+  }
+
+  const providerResults = await Promise.all(
+    [...batches.entries()].map(([provider, batch]) => provider.send(batch, notification))
+  );
+
+  return results.concat(...providerResults);
+}
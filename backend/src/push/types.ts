@@ -0,0 +1,53 @@
+import type * as schema from '../db/schema.js';
+
+/**
+ * Push Delivery Types
+ * Shared contract between the delivery dispatcher and provider adapters
+ */
+
+export type PushTokenRecord = typeof schema.pushTokens.$inferSelect;
+
+// Notifications are sent while a request handler waits, so a slow provider must not hold it up
+export const PUSH_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export interface PushDeliveryResult {
+  pushTokenId: string;
+  provider: string;
+  platform: PushTokenRecord['platform'];
+  status: 'delivered' | 'failed' | 'invalid_token';
+  error?: string;
+}
+
+/**
+ * A push provider adapter
+ * Providers never throw for per-token failures; they report them as results
+ */
+export interface PushProvider {
+  readonly name: string;
+  /** Whether this provider can deliver to the given token */
+  supports(token: PushTokenRecord): boolean;
+  send(tokens: PushTokenRecord[], notification: PushNotification): Promise<PushDeliveryResult[]>;
+}
+
+/**
+ * Builds a failed result for every token, used when a provider call fails as a whole
+ */
+export function failAll(
+  provider: string,
+  tokens: PushTokenRecord[],
+  error: string
+): PushDeliveryResult[] {
+  return tokens.map((token) => ({
+    pushTokenId: token.id,
+    provider,
+    platform: token.platform,
+    status: 'failed' as const,
+    error,
+  }));
+}
@@ -0,0 +1,55 @@
+import type { App } from '../index.js';
+import { lte, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { RateLimitStore } from './types.js';
+
+/**
+ * Database Store
+ * Keeps counters in the rate_limit_buckets table so every instance shares them
+ */
+
+// Expired buckets are deleted once every this many increments
+const PRUNE_EVERY = 500;
+
+export function createDatabaseStore(app: App): RateLimitStore {
+  const buckets = schema.rateLimitBuckets;
+  let incrementsSincePrune = 0;
+
+  const prune = async (now: Date) => {
+    try {
+      await app.db.delete(buckets).where(lte(buckets.resetAt, now));
+    } catch (error) {
+      app.logger.error({ err: error }, 'Failed to prune rate limit buckets');
+    }
+  };
+
+  return {
+    name: 'database',
+
+    async increment(key: string, windowMs: number) {
+      const now = new Date();
+      // Compared inside the upsert so concurrent instances agree on when a window ends
+      const expired = sql`${buckets.resetAt} <= ${now.toISOString()}::timestamp`;
+
+      const [counter] = await app.db
+        .insert(buckets)
+        .values({ key, count: 1, resetAt: new Date(now.getTime() + windowMs) })
+        .onConflictDoUpdate({
+          target: buckets.key,
+          set: {
+            count: sql`case when ${expired} then 1 else ${buckets.count} + 1 end`,
+            resetAt: sql`case when ${expired} then excluded.reset_at else ${buckets.resetAt} end`,
+          },
+        })
+        .returning({ count: buckets.count, resetAt: buckets.resetAt });
+
+      incrementsSincePrune += 1;
+      if (incrementsSincePrune >= PRUNE_EVERY) {
+        incrementsSincePrune = 0;
+        void prune(now);
+      }
+
+      return counter;
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { RateLimitScope, RateLimitStore } from './types.js';
+import { createMemoryStore, type MemoryRateLimitStore } from './memory-store.js';
+import { createDatabaseStore } from './database-store.js';
+import { getRateLimitPolicy, type RateLimitPolicyName } from './policies.js';
+
+export type { RateLimitStore, RateLimitPolicy, RateLimitRule, RateLimitScope } from './types.js';
+export { resetRateLimitPolicies, type RateLimitPolicyName } from './policies.js';
+
+/**
+ * Rate Limiter
+ * Counts attempts per user, per IP and per target against the route's policy
+ *
+ * Environment variables:
+ * - RATE_LIMIT_STORE: "memory" or "database" (default memory; use database when running several instances)
+ * - RATE_LIMIT_POLICIES: JSON overrides for the default policies, see policies.ts
+ */
+
+let store: RateLimitStore | null = null;
+
+export const memoryRateLimitStore: MemoryRateLimitStore = createMemoryStore();
+
+export function getRateLimitStore(app: App): RateLimitStore {
+  if (!store) {
+    switch (process.env.RATE_LIMIT_STORE) {
+      case 'database':
+        store = createDatabaseStore(app);
+        break;
+      case 'memory':
+      default:
+        store = memoryRateLimitStore;
+        break;
+    }
+  }
+  return store;
+}
+
+/**
+ * Replaces the active store, e.g. with a shared store backed by another service
+ */
+export function setRateLimitStore(override: RateLimitStore | null): void {
+  store = override;
+}
+
+export interface RateLimitSubject {
+  userId?: string;
+  ip?: string;
+  /** Who the action is aimed at: a user id or an email address */
+  target?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until every exceeded window resets; 0 when allowed */
+  retryAfterSeconds: number;
+  exceeded: RateLimitScope[];
+}
+
+/**
+ * Builds the counter key for a scope
+ * Target counters are kept per sender when one is known, so one user cannot lock others out of a target
+ */
+function counterKey(
+  policyName: RateLimitPolicyName,
+  scope: RateLimitScope,
+  subject: RateLimitSubject
+): string | null {
+  switch (scope) {
+    case 'user':
+      return subject.userId ? `${policyName}:user:${subject.userId}` : null;
+    case 'ip':
+      return subject.ip ? `${policyName}:ip:${subject.ip}` : null;
+    case 'target':
+      if (!subject.target) return null;
+      return subject.userId
+        ? `${policyName}:target:${subject.userId}:${subject.target.toLowerCase()}`
+        : `${policyName}:target:${subject.target.toLowerCase()}`;
+  }
+}
+
+/**
+ * Counts one attempt in every scope of the policy that applies to the subject
+ */
+export async function checkRateLimit(
+  app: App,
+  policyName: RateLimitPolicyName,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  const policy = getRateLimitPolicy(policyName);
+  const activeStore = getRateLimitStore(app);
+  const now = Date.now();
+
+  const checks = await Promise.all(
+    (Object.keys(policy) as RateLimitScope[]).map(async (scope) => {
+      const key = counterKey(policyName, scope, subject);
+      if (!key) return null;
+
+      const rule = policy[scope];
+      const counter = await activeStore.increment(key, rule.windowSeconds * 1000);
+      return { scope, counter, limit: rule.limit };
+    })
+  );
+
+  const exceeded = checks.filter((check) => check && check.counter.count > check.limit);
+
+  return {
+    allowed: exceeded.length === 0,
+    retryAfterSeconds: exceeded.reduce(
+      (max, check) =>
+        Math.max(max, Math.ceil((check.counter.resetAt.getTime() - now) / 1000), 1),
+      0
+    ),
+    exceeded: exceeded.map((check) => check.scope),
+  };
+}
+
+/**
+ * Applies a policy to a request, replying 429 with Retry-After when a limit is exceeded
+ * Returns false when the request was rejected and the handler should stop
+ * Store failures are logged and let the request through
+ */
+export async function enforceRateLimit(
+  app: App,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  policyName: RateLimitPolicyName,
+  subject: Omit<RateLimitSubject, 'ip'> = {}
+): Promise<boolean> {
+  // Resolved outside the try so a malformed RATE_LIMIT_POLICIES fails the request instead of disabling limits
+  getRateLimitPolicy(policyName);
+
+  let result: RateLimitResult;
+
+  try {
+    result = await checkRateLimit(app, policyName, { ...subject, ip: request.ip });
+  } catch (error) {
+    app.logger.error({ err: error, policy: policyName }, 'Rate limit check failed');
+    return true;
+  }
+
+  if (result.allowed) {
+    return true;
+  }
+
+  app.logger.warn(
+    { policy: policyName, ...subject, ip: request.ip, exceeded: result.exceeded },
+    'Rate limit exceeded'
+  );
+
+  reply
+    .status(429)
+    .header('Retry-After', String(result.retryAfterSeconds))
+    .send({
+      error: 'Too many requests, please try again later',
+      retry_after: result.retryAfterSeconds,
+    });
+  return false;
+}
@@ -0,0 +1,49 @@
+import type { RateLimitStore, RateLimitCounter } from './types.js';
+
+/**
+ * Memory Store
+ * Keeps counters in process memory; limits are per instance
+ */
+
+// Expired windows are swept once the map grows past this size
+const SWEEP_THRESHOLD = 10_000;
+
+export interface MemoryRateLimitStore extends RateLimitStore {
+  reset(): void;
+}
+
+export function createMemoryStore(): MemoryRateLimitStore {
+  const counters = new Map<string, RateLimitCounter>();
+
+  const sweep = (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt.getTime() <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async increment(key: string, windowMs: number) {
+      const now = Date.now();
+      let counter = counters.get(key);
+
+      if (!counter || counter.resetAt.getTime() <= now) {
+        if (counters.size >= SWEEP_THRESHOLD) {
+          sweep(now);
+        }
+        counter = { count: 0, resetAt: new Date(now + windowMs) };
+        counters.set(key, counter);
+      }
+
+      counter.count += 1;
+      return { count: counter.count, resetAt: counter.resetAt };
+    },
+
+    reset() {
+      counters.clear();
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type { RateLimitPolicy, RateLimitRule, RateLimitScope } from './types.js';
+
+/**
+ * Rate Limit Policies
+ * Default limits per route, overridable through RATE_LIMIT_POLICIES
+ *
+ * RATE_LIMIT_POLICIES is a JSON object keyed by policy name, e.g.
+ *   {"connection-request": {"user": {"limit": 10, "windowSeconds": 3600}, "ip": null}}
+ * A scope set to null is not limited.
+ */
+
+export type RateLimitPolicyName =
+  | 'connection-request'
+  | 'message-create'
+  | 'forgot-password'
+  | 'attachment-upload'
+  | 'conversation-message'
+  | 'notification-send'
+  | 'short-link-lookup';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  'connection-request': {
+    user: { limit: 20, windowSeconds: HOUR },
+    ip: { limit: 60, windowSeconds: HOUR },
+    target: { limit: 3, windowSeconds: DAY },
+  },
+  'message-create': {
+    user: { limit: 30, windowSeconds: HOUR },
+    ip: { limit: 100, windowSeconds: HOUR },
+    target: { limit: 10, windowSeconds: HOUR },
+  },
+  'forgot-password': {
+    ip: { limit: 10, windowSeconds: HOUR },
+    target: { limit: 3, windowSeconds: HOUR },
+  },
+  'attachment-upload': {
+    user: { limit: 30, windowSeconds: HOUR },
+    ip: { limit: 60, windowSeconds: HOUR },
+  },
+  'conversation-message': {
+    user: { limit: 300, windowSeconds: HOUR },
+    ip: { limit: 600, windowSeconds: HOUR },
+  },
+  'notification-send': {
+    user: { limit: 30, windowSeconds: HOUR },
+    ip: { limit: 60, windowSeconds: HOUR },
+    target: { limit: 5, windowSeconds: HOUR },
+  },
+  'short-link-lookup': {
+    ip: { limit: 120, windowSeconds: HOUR },
+  },
+};
+
+const SCOPES: RateLimitScope[] = ['user', 'ip', 'target'];
+
+let policies: Record<RateLimitPolicyName, RateLimitPolicy> | null = null;
+
+function isValidRule(rule: unknown): rule is RateLimitRule {
+  const candidate = rule as RateLimitRule;
+  return (
+    !!candidate &&
+    Number.isInteger(candidate.limit) &&
+    candidate.limit > 0 &&
+    Number.isInteger(candidate.windowSeconds) &&
+    candidate.windowSeconds > 0
+  );
+}
+
+/**
+ * Merges RATE_LIMIT_POLICIES over the defaults
+ * Throws on malformed overrides so a bad deploy fails loudly instead of running unthrottled
+ */
+function loadPolicies(): Record<RateLimitPolicyName, RateLimitPolicy> {
+  const merged = structuredClone(DEFAULT_POLICIES);
+  const raw = process.env.RATE_LIMIT_POLICIES;
+
+  if (!raw) {
+    return merged;
+  }
+
+  const overrides = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+
+  for (const [name, override] of Object.entries(overrides)) {
+    if (!(name in merged)) {
+      throw new Error(`RATE_LIMIT_POLICIES: unknown policy "${name}"`);
+    }
+
+    const policy = merged[name as RateLimitPolicyName];
+
+    for (const [scope, rule] of Object.entries(override || {})) {
+      if (!SCOPES.includes(scope as RateLimitScope)) {
+        throw new Error(`RATE_LIMIT_POLICIES: unknown scope "${scope}" in "${name}"`);
+      }
+
+      if (rule === null) {
+        delete policy[scope as RateLimitScope];
+      } else if (isValidRule(rule)) {
+        policy[scope as RateLimitScope] = { limit: rule.limit, windowSeconds: rule.windowSeconds };
+      } else {
+        throw new Error(
+          `RATE_LIMIT_POLICIES: "${name}.${scope}" needs positive integer limit and windowSeconds`
+        );
+      }
+    }
+  }
+
+  return merged;
+}
+
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  if (!policies) {
+    policies = loadPolicies();
+  }
+  return policies[name];
+}
+
+/**
+ * Drops cached policies so the next lookup re-reads RATE_LIMIT_POLICIES
+ */
+export function resetRateLimitPolicies(): void {
+  policies = null;
+}
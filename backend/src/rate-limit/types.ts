@@ -0,0 +1,28 @@
+/**
+ * Rate Limit Types
+ * Shared contract between the limiter and counter stores
+ */
+
+export type RateLimitScope = 'user' | 'ip' | 'target';
+
+export interface RateLimitRule {
+  /** Attempts allowed per window */
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitPolicy = Partial<Record<RateLimitScope, RateLimitRule>>;
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * A fixed-window counter store
+ * increment() counts one attempt and returns the window's running total
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+}
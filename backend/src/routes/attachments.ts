@@ -0,0 +1,291 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { count, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import * as schema from '../db/schema.js';
+import { getStorage } from '../storage/index.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  buildStorageKey,
+  canAccessAttachments,
+  formatAttachment,
+  getMaxAttachmentBytes,
+  hashAttachment,
+  listAttachments,
+  sanitizeFileName,
+  validateAttachment,
+} from '../utils/attachments.js';
+
+/**
+ * Attachment Routes
+ * Upload, list, download and delete files attached to consent messages
+ *
+ * Uploads send the file itself as the request body with its Content-Type
+ * (e.g. image/jpeg or application/pdf) and the file name in ?filename=
+ */
+export function registerAttachmentRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // Keep accepted file types as raw bytes; oversized bodies are refused with 413 before they are buffered
+  app.fastify.addContentTypeParser(
+    ATTACHMENT_CONTENT_TYPES,
+    { parseAs: 'buffer', bodyLimit: getMaxAttachmentBytes() },
+    (_request, body, done) => done(null, body)
+  );
+
+  /**
+   * POST /api/messages/:id/attachments - Attach a file to a pending message
+   * Body: raw file bytes; Query: filename (optional)
+   * Only the sender can attach, only before anyone answered, and never to encrypted messages
+   */
+  app.fastify.post(
+    '/api/messages/:id/attachments',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const { filename } = request.query as { filename?: string };
+      const contentType = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+      app.logger.info({ userId, messageId: id, contentType }, 'Uploading message attachment');
+
+      if (!Buffer.isBuffer(request.body)) {
+        return reply.status(415).send({
+          error: `Send the file as the request body. Allowed types: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`,
+        });
+      }
+
+      const data = request.body;
+      const validationError = validateAttachment(contentType, data);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const allowed = await enforceRateLimit(app, request, reply, 'attachment-upload', { userId });
+      if (!allowed) return;
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        if (message.senderId !== userId) {
+          return reply.status(403).send({ error: 'Only the sender can attach files' });
+        }
+
+        if (message.status !== 'pending') {
+          return reply.status(409).send({ error: 'Files can only be attached to pending messages' });
+        }
+
+        // Files are stored as they are, which would leak what the encrypted text keeps private
+        if (message.encrypted) {
+          return reply.status(409).send({ error: 'Files cannot be attached to encrypted messages' });
+        }
+
+        const [{ value: attached }] = await app.db
+          .select({ value: count() })
+          .from(schema.messageAttachments)
+          .where(eq(schema.messageAttachments.messageId, id));
+
+        if (attached >= MAX_ATTACHMENTS_PER_MESSAGE) {
+          return reply.status(409).send({
+            error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+          });
+        }
+
+        const attachmentId = randomUUID();
+        const storageKey = buildStorageKey(id, attachmentId);
+        const storage = getStorage();
+
+        await storage.put(storageKey, data);
+
+        let attachment: typeof schema.messageAttachments.$inferSelect;
+        try {
+          [attachment] = await app.db
+            .insert(schema.messageAttachments)
+            .values({
+              id: attachmentId,
+              messageId: id,
+              uploaderId: userId,
+              storageKey,
+              fileName: sanitizeFileName(filename, contentType),
+              contentType,
+              size: data.length,
+              sha256: hashAttachment(data),
+            })
+            .returning();
+        } catch (error) {
+          // Don't leave unreferenced files behind
+          await storage.delete(storageKey);
+          throw error;
+        }
+
+        app.logger.info(
+          { userId, messageId: id, attachmentId, size: data.length, storage: storage.name },
+          'Message attachment uploaded'
+        );
+
+        return reply.status(201).send(formatAttachment(attachment));
+      } catch (error) {
+        app.logger.error({ err: error, userId, messageId: id }, 'Failed to upload message attachment');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/messages/:id/attachments - List a message's attachments
+   * Query: token (optional) - the link token, for link recipients who have not answered yet
+   */
+  app.fastify.get(
+    '/api/messages/:id/attachments',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const { token } = request.query as { token?: string };
+
+      app.logger.info({ userId, messageId: id }, 'Listing message attachments');
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        if (!(await canAccessAttachments(app, message, userId, token))) {
+          return reply.status(403).send({ error: 'Not authorized' });
+        }
+
+        const attachments = await listAttachments(app, id);
+
+        return {
+          attachments: attachments.map(formatAttachment),
+          count: attachments.length,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, messageId: id }, 'Failed to list message attachments');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/attachments/:id - Download an attachment
+   * Query: token (optional) - the link token, for link recipients who have not answered yet
+   */
+  app.fastify.get(
+    '/api/attachments/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const { token } = request.query as { token?: string };
+
+      app.logger.info({ userId, attachmentId: id }, 'Downloading attachment');
+
+      try {
+        const attachment = await app.db.query.messageAttachments.findFirst({
+          where: eq(schema.messageAttachments.id, id),
+        });
+
+        const message =
+          attachment &&
+          (await app.db.query.messages.findFirst({
+            where: eq(schema.messages.id, attachment.messageId),
+          }));
+
+        // Same answer for missing and forbidden, so ids cannot be probed
+        if (!message || !(await canAccessAttachments(app, message, userId, token))) {
+          return reply.status(404).send({ error: 'Attachment not found' });
+        }
+
+        const data = await getStorage().get(attachment.storageKey);
+
+        if (!data) {
+          app.logger.error({ attachmentId: id, storageKey: attachment.storageKey }, 'Attachment file missing from storage');
+          return reply.status(404).send({ error: 'Attachment not found' });
+        }
+
+        const disposition = attachment.contentType.startsWith('image/') ? 'inline' : 'attachment';
+
+        return reply
+          .header('Content-Type', attachment.contentType)
+          .header('Content-Length', data.length)
+          .header('Content-Disposition', `${disposition}; filename="${attachment.fileName}"`)
+          .header('X-Content-Type-Options', 'nosniff')
+          .header('Cache-Control', 'private, no-store')
+          .send(data);
+      } catch (error) {
+        app.logger.error({ err: error, userId, attachmentId: id }, 'Failed to download attachment');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/attachments/:id - Remove an attachment from a pending message
+   * Only the sender can remove attachments
+   */
+  app.fastify.delete(
+    '/api/attachments/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, attachmentId: id }, 'Deleting attachment');
+
+      try {
+        const attachment = await app.db.query.messageAttachments.findFirst({
+          where: eq(schema.messageAttachments.id, id),
+        });
+
+        if (!attachment || attachment.uploaderId !== userId) {
+          return reply.status(404).send({ error: 'Attachment not found' });
+        }
+
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, attachment.messageId),
+        });
+
+        // What the recipient answered to must stay intact
+        if (message && message.status !== 'pending') {
+          return reply.status(409).send({ error: 'Attachments of answered messages cannot be removed' });
+        }
+
+        await app.db
+          .delete(schema.messageAttachments)
+          .where(eq(schema.messageAttachments.id, id));
+
+        await getStorage().delete(attachment.storageKey);
+
+        app.logger.info({ userId, attachmentId: id }, 'Attachment deleted');
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, attachmentId: id }, 'Failed to delete attachment');
+        throw error;
+      }
+    }
+  );
+}
@@ -1,9 +1,33 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, or } from 'drizzle-orm';
+import { eq, and, desc } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
 import { calculateHaversineDistance, parseCoordinate } from '../utils/distance.js';
+import { dispatchNotification } from '../utils/notifications.js';
+import { publish } from '../utils/realtime.js';
+import { getLocationPrivacy, presentDistance, strictestDisplay } from '../utils/location-privacy.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
+import { acceptCrossingRequest, betweenUsers, getConnectedUsers, areConnected } from '../utils/connection-graph.js';
+import {
+  checkRerequest,
+  describeRerequestDenial,
+  getRequestExpiry,
+  isOpenRequest,
+  openRequestFilter,
+  recordRejection,
+} from '../utils/connection-policy.js';
+
+type ConnectionStatus = (typeof schema.deviceConnections.$inferSelect)['status'];
+
+const CONNECTION_STATUSES: ConnectionStatus[] = [
+  'pending',
+  'accepted',
+  'rejected',
+  'cancelled',
+  'expired',
+];
 
 /**
  * Device Connections Routes
@@ -15,6 +39,10 @@ export function registerConnectionRoutes(app: App) {
   /**
    * POST /api/connections/request - Send connection request to nearby user
    * Calculates distance and creates entry with 'pending' status
+   * The stored distance is bucketed or rounded according to both users' privacy settings
+   * After a rejection, a new request is only possible once the re-request policy allows it
+   * If the target already asked the current user, both requests are accepted
+   * Requests expire after CONNECTION_REQUEST_TTL_HOURS unless answered
    */
   app.fastify.post(
     '/api/connections/request',
@@ -42,6 +70,12 @@ export function registerConnectionRoutes(app: App) {
         });
       }
 
+      const allowed = await enforceRateLimit(app, request, reply, 'connection-request', {
+        userId,
+        target: target_user_id,
+      });
+      if (!allowed) return;
+
       try {
         // Verify target user exists
         const targetUser = await app.db.query.user.findFirst({
@@ -54,6 +88,16 @@ export function registerConnectionRoutes(app: App) {
           });
         }
 
+        if (await isBlockedBetween(app, userId, target_user_id)) {
+          app.logger.warn(
+            { userId, targetUserId: target_user_id },
+            'Connection request blocked'
+          );
+          return reply.status(403).send({
+            error: 'Cannot send a connection request to this user',
+          });
+        }
+
         // Check if connection already exists
         const existingConnection = await app.db.query.deviceConnections.findFirst({
           where: and(
@@ -62,9 +106,48 @@ export function registerConnectionRoutes(app: App) {
           ),
         });
 
-        if (existingConnection) {
+        // Rejected, cancelled and expired requests are closed and can be reopened below
+        if (
+          existingConnection &&
+          (existingConnection.status === 'accepted' || isOpenRequest(existingConnection))
+        ) {
+          return reply.status(409).send({
+            error:
+              existingConnection.status === 'accepted'
+                ? 'Already connected with this user'
+                : 'Connection request already exists with this user',
+          });
+        }
+
+        const reverseConnection = await app.db.query.deviceConnections.findFirst({
+          where: and(
+            eq(schema.deviceConnections.requesterUserId, target_user_id),
+            eq(schema.deviceConnections.targetUserId, userId)
+          ),
+        });
+
+        if (reverseConnection?.status === 'accepted') {
           return reply.status(409).send({
-            error: 'Connection request already exists with this user',
+            error: 'Already connected with this user',
+          });
+        }
+
+        // Rejection history outlives deleted connections, so deleting cannot reset the policy
+        // A pending request from the target lifts it: they are asking to connect
+        const rerequest =
+          reverseConnection && isOpenRequest(reverseConnection)
+            ? null
+            : await checkRerequest(app, userId, target_user_id);
+        if (rerequest && !rerequest.allowed) {
+          app.logger.info(
+            { userId, targetUserId: target_user_id, reason: rerequest.reason },
+            'Connection re-request denied'
+          );
+          return reply.status(403).send({
+            error: describeRerequestDenial(rerequest),
+            reason: rerequest.reason,
+            retry_at: rerequest.retryAt ? rerequest.retryAt.toISOString() : null,
+            rerequests_remaining: rerequest.remaining,
           });
         }
 
@@ -78,7 +161,13 @@ export function registerConnectionRoutes(app: App) {
           }),
         ]);
 
-        if (!requesterLocation || !targetLocation) {
+        // A target inside a privacy zone or with a stale location is treated as having no location
+        if (
+          !requesterLocation ||
+          !targetLocation ||
+          targetLocation.hidden ||
+          targetLocation.visibleUntil <= new Date()
+        ) {
           return reply.status(400).send({
             error: 'One or both users do not have location data',
           });
@@ -94,18 +183,45 @@ export function registerConnectionRoutes(app: App) {
           targetLocation.longitude
         );
 
-        const distanceMeters = calculateHaversineDistance(requesterCoord, targetCoord);
+        const [requesterPrivacy, targetPrivacy] = await Promise.all([
+          getLocationPrivacy(app, userId),
+          getLocationPrivacy(app, target_user_id),
+        ]);
 
-        // Create connection request
-        const [connection] = await app.db
-          .insert(schema.deviceConnections)
-          .values({
-            requesterUserId: userId,
-            targetUserId: target_user_id,
-            status: 'pending',
-            distanceMeters: distanceMeters.toString(),
-          })
-          .returning();
+        const distance = presentDistance(
+          calculateHaversineDistance(requesterCoord, targetCoord),
+          strictestDisplay(requesterPrivacy.distanceDisplay, targetPrivacy.distanceDisplay)
+        );
+
+        // Create connection request, reusing the closed one when asking again
+        const distanceMeters = distance.distance_meters?.toString() ?? null;
+        const expiresAt = getRequestExpiry();
+        let [connection] = existingConnection
+          ? await app.db
+              .update(schema.deviceConnections)
+              .set({ status: 'pending', distanceMeters, expiresAt, createdAt: new Date() })
+              .where(eq(schema.deviceConnections.id, existingConnection.id))
+              .returning()
+          : await app.db
+              .insert(schema.deviceConnections)
+              .values({
+                requesterUserId: userId,
+                targetUserId: target_user_id,
+                status: 'pending',
+                distanceMeters,
+                expiresAt,
+              })
+              .returning();
+
+        // Checked after the insert so two requests crossing at the same time still match
+        const crossing = await acceptCrossingRequest(app, userId, target_user_id);
+        if (crossing) {
+          [connection] = await app.db
+            .update(schema.deviceConnections)
+            .set({ status: 'accepted', expiresAt: null, updatedAt: new Date() })
+            .where(eq(schema.deviceConnections.id, connection.id))
+            .returning();
+        }
 
         app.logger.info(
           {
@@ -113,10 +229,43 @@ export function registerConnectionRoutes(app: App) {
             requesterUserId: userId,
             targetUserId: target_user_id,
             distanceMeters: parseFloat(connection.distanceMeters || '0'),
+            mutual: !!crossing,
           },
           'Connection request created'
         );
 
+        if (crossing) {
+          publish(app, [userId, target_user_id], {
+            type: 'connection_status',
+            data: { connection_id: crossing.id, status: 'accepted', user_id: userId },
+          });
+        } else {
+          publish(app, [target_user_id], {
+            type: 'connection_request',
+            data: {
+              connection_id: connection.id,
+              requester_user_id: userId,
+              requester_name: session.user.name || null,
+            },
+          });
+        }
+
+        dispatchNotification(
+          app,
+          target_user_id,
+          crossing
+            ? {
+                title: 'You are now connected',
+                body: `${session.user.name || 'A nearby user'} accepted your connection request`,
+                data: { connectionId: crossing.id, type: 'connection_accepted' },
+              }
+            : {
+                title: 'New connection request',
+                body: `${session.user.name || 'A nearby user'} wants to connect with you`,
+                data: { connectionId: connection.id, type: 'connection_request' },
+              }
+        );
+
         return {
           success: true,
           connection: {
@@ -124,8 +273,11 @@ export function registerConnectionRoutes(app: App) {
             target_user_id: connection.targetUserId,
             status: connection.status,
             distance_meters: connection.distanceMeters ? parseFloat(connection.distanceMeters) : null,
+            distance_label: distance.distance_label,
             created_at: connection.createdAt,
+            expires_at: connection.expiresAt,
           },
+          mutual: !!crossing,
         };
       } catch (error) {
         app.logger.error(
@@ -155,10 +307,7 @@ export function registerConnectionRoutes(app: App) {
           .select()
           .from(schema.deviceConnections)
           .where(
-            and(
-              eq(schema.deviceConnections.targetUserId, userId),
-              eq(schema.deviceConnections.status, 'pending')
-            )
+            and(eq(schema.deviceConnections.targetUserId, userId), openRequestFilter())
           );
 
         // Fetch requester details for each connection
@@ -174,6 +323,7 @@ export function registerConnectionRoutes(app: App) {
               requester_username: requester?.name || 'Unknown',
               distance_meters: conn.distanceMeters ? parseFloat(conn.distanceMeters) : null,
               created_at: conn.createdAt,
+              expires_at: conn.expiresAt,
             };
           })
         );
@@ -197,9 +347,73 @@ export function registerConnectionRoutes(app: App) {
     }
   );
 
+  /**
+   * GET /api/connections/outgoing - Get connection requests sent by current user
+   * Query: status (default 'pending'); pending excludes requests past their expiry
+   */
+  app.fastify.get(
+    '/api/connections/outgoing',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { status = 'pending' } = request.query as { status?: ConnectionStatus };
+
+      app.logger.info({ userId, status }, 'Fetching outgoing connections');
+
+      if (!CONNECTION_STATUSES.includes(status)) {
+        return reply.status(400).send({
+          error: `status must be one of: ${CONNECTION_STATUSES.join(', ')}`,
+        });
+      }
+
+      try {
+        const connections = await app.db
+          .select({
+            connection: schema.deviceConnections,
+            targetUsername: authSchema.user.name,
+          })
+          .from(schema.deviceConnections)
+          .innerJoin(authSchema.user, eq(authSchema.user.id, schema.deviceConnections.targetUserId))
+          .where(
+            and(
+              eq(schema.deviceConnections.requesterUserId, userId),
+              status === 'pending'
+                ? openRequestFilter()
+                : eq(schema.deviceConnections.status, status)
+            )
+          )
+          .orderBy(desc(schema.deviceConnections.createdAt));
+
+        const requests = connections.map(({ connection, targetUsername }) => ({
+          id: connection.id,
+          target_user_id: connection.targetUserId,
+          target_username: targetUsername || 'Unknown',
+          status: connection.status,
+          distance_meters: connection.distanceMeters ? parseFloat(connection.distanceMeters) : null,
+          created_at: connection.createdAt,
+          expires_at: connection.expiresAt,
+        }));
+
+        return {
+          requests,
+          count: requests.length,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId },
+          'Failed to fetch outgoing connections'
+        );
+        throw error;
+      }
+    }
+  );
+
   /**
    * POST /api/connections/:id/respond - Accept or reject connection request
-   * Body: { action: 'accept' | 'reject' }
+   * Body: { action: 'accept' | 'reject', never_allow?: boolean }
+   * Rejecting with never_allow: true stops the requester from ever asking again
    */
   app.fastify.post(
     '/api/connections/:id/respond',
@@ -209,7 +423,10 @@ export function registerConnectionRoutes(app: App) {
 
       const userId = session.user.id;
       const { id } = request.params as { id: string };
-      const { action } = request.body as { action: 'accept' | 'reject' };
+      const { action, never_allow } = request.body as {
+        action: 'accept' | 'reject';
+        never_allow?: boolean;
+      };
 
       app.logger.info(
         { connectionId: id, userId, action },
@@ -240,10 +457,13 @@ export function registerConnectionRoutes(app: App) {
           });
         }
 
-        // Verify status is still pending
-        if (connection.status !== 'pending') {
+        // Verify the request is still open
+        if (!isOpenRequest(connection)) {
           return reply.status(409).send({
-            error: `Cannot respond to ${connection.status} request`,
+            error:
+              connection.status === 'pending'
+                ? 'Connection request has expired'
+                : `Cannot respond to ${connection.status} request`,
           });
         }
 
@@ -253,11 +473,31 @@ export function registerConnectionRoutes(app: App) {
           .update(schema.deviceConnections)
           .set({
             status: newStatus,
+            expiresAt: null,
             updatedAt: new Date(),
           })
-          .where(eq(schema.deviceConnections.id, id))
+          .where(and(eq(schema.deviceConnections.id, id), openRequestFilter()))
           .returning();
 
+        // Cancelled by the requester or answered concurrently between the read and the update
+        if (!updated) {
+          return reply.status(409).send({
+            error: 'Connection request is no longer pending',
+          });
+        }
+
+        if (newStatus === 'rejected') {
+          await recordRejection(app, connection.requesterUserId, userId, never_allow === true);
+        } else {
+          // The current user may have asked the requester too; that request is settled as well
+          await acceptCrossingRequest(app, connection.requesterUserId, userId);
+        }
+
+        publish(app, [connection.requesterUserId, userId], {
+          type: 'connection_status',
+          data: { connection_id: id, status: newStatus, user_id: userId },
+        });
+
         app.logger.info(
           {
             connectionId: id,
@@ -285,8 +525,87 @@ export function registerConnectionRoutes(app: App) {
     }
   );
 
+  /**
+   * POST /api/connections/:id/cancel - Withdraw a pending request sent by current user
+   */
+  app.fastify.post(
+    '/api/connections/:id/cancel',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ connectionId: id, userId }, 'Cancelling connection request');
+
+      try {
+        const connection = await app.db.query.deviceConnections.findFirst({
+          where: eq(schema.deviceConnections.id, id),
+        });
+
+        if (!connection) {
+          return reply.status(404).send({
+            error: 'Connection request not found',
+          });
+        }
+
+        if (connection.requesterUserId !== userId) {
+          return reply.status(403).send({
+            error: 'Not authorized to cancel this request',
+          });
+        }
+
+        if (!isOpenRequest(connection)) {
+          return reply.status(409).send({
+            error:
+              connection.status === 'pending'
+                ? 'Connection request has expired'
+                : `Cannot cancel ${connection.status} request`,
+          });
+        }
+
+        const [updated] = await app.db
+          .update(schema.deviceConnections)
+          .set({ status: 'cancelled', expiresAt: null, updatedAt: new Date() })
+          .where(and(eq(schema.deviceConnections.id, id), openRequestFilter()))
+          .returning();
+
+        // Answered by the target between the read and the update
+        if (!updated) {
+          return reply.status(409).send({
+            error: 'Connection request is no longer pending',
+          });
+        }
+
+        publish(app, [connection.targetUserId, userId], {
+          type: 'connection_status',
+          data: { connection_id: id, status: 'cancelled', user_id: userId },
+        });
+
+        app.logger.info({ connectionId: id, userId }, 'Connection request cancelled');
+
+        return {
+          success: true,
+          connection: {
+            id: updated.id,
+            status: updated.status,
+            updated_at: updated.updatedAt,
+          },
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, connectionId: id, userId },
+          'Failed to cancel connection request'
+        );
+        throw error;
+      }
+    }
+  );
+
   /**
    * GET /api/connections/active - Get all accepted connections for current user
+   * One entry per connected user, even when requests were accepted in both directions
    */
   app.fastify.get(
     '/api/connections/active',
@@ -299,39 +618,14 @@ export function registerConnectionRoutes(app: App) {
       app.logger.info({ userId }, 'Fetching active connections');
 
       try {
-        const connections = await app.db
-          .select()
-          .from(schema.deviceConnections)
-          .where(
-            and(
-              or(
-                eq(schema.deviceConnections.requesterUserId, userId),
-                eq(schema.deviceConnections.targetUserId, userId)
-              ),
-              eq(schema.deviceConnections.status, 'accepted')
-            )
-          );
+        const connected = await getConnectedUsers(app, userId);
 
-        // Fetch connected user details
-        const activeConnections = await Promise.all(
-          connections.map(async (conn) => {
-            const connectedUserId =
-              conn.requesterUserId === userId
-                ? conn.targetUserId
-                : conn.requesterUserId;
-
-            const connectedUser = await app.db.query.user.findFirst({
-              where: eq(authSchema.user.id, connectedUserId),
-            });
-
-            return {
-              id: conn.id,
-              user_id: connectedUserId,
-              username: connectedUser?.name || 'Unknown',
-              connected_at: conn.createdAt,
-            };
-          })
-        );
+        const activeConnections = connected.map((entry) => ({
+          id: entry.connectionId,
+          user_id: entry.userId,
+          username: entry.username || 'Unknown',
+          connected_at: entry.connectedAt,
+        }));
 
         app.logger.info(
           { userId, count: activeConnections.length },
@@ -352,8 +646,108 @@ export function registerConnectionRoutes(app: App) {
     }
   );
 
+  /**
+   * GET /api/users/:id/connections - Get a user's connections regardless of direction
+   * Visible to the user themself and to users connected with them
+   * Each entry says whether the current user is connected with that person too
+   */
+  app.fastify.get(
+    '/api/users/:id/connections',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id: subjectUserId } = request.params as { id: string };
+
+      app.logger.info({ userId, subjectUserId }, 'Fetching connection graph');
+
+      try {
+        if (subjectUserId !== userId && !(await areConnected(app, userId, subjectUserId))) {
+          return reply.status(403).send({
+            error: 'Not authorized to view this user\'s connections',
+          });
+        }
+
+        const [connected, own] = await Promise.all([
+          getConnectedUsers(app, subjectUserId),
+          subjectUserId === userId ? null : getConnectedUsers(app, userId),
+        ]);
+
+        const ownIds = new Set((own ?? []).map((entry) => entry.userId));
+
+        const connections = connected.map((entry) => ({
+          user_id: entry.userId,
+          username: entry.username || 'Unknown',
+          connected_at: entry.connectedAt,
+          is_self: entry.userId === userId,
+          is_mutual: entry.userId !== userId && ownIds.has(entry.userId),
+        }));
+
+        return {
+          user_id: subjectUserId,
+          connections,
+          count: connections.length,
+          mutual_count: connections.filter((entry) => entry.is_mutual).length,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, subjectUserId },
+          'Failed to fetch connection graph'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/connections/rejections/:userId - Forget rejections of a user's requests
+   * Lets that user ask again right away, including after never_allow
+   */
+  app.fastify.delete(
+    '/api/connections/rejections/:userId',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { userId: requesterUserId } = request.params as { userId: string };
+
+      app.logger.info({ userId, requesterUserId }, 'Clearing connection rejections');
+
+      try {
+        const [deleted] = await app.db
+          .delete(schema.connectionRejections)
+          .where(
+            and(
+              eq(schema.connectionRejections.requesterUserId, requesterUserId),
+              eq(schema.connectionRejections.targetUserId, userId)
+            )
+          )
+          .returning();
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'No rejections recorded for this user',
+          });
+        }
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, requesterUserId },
+          'Failed to clear connection rejections'
+        );
+        throw error;
+      }
+    }
+  );
+
   /**
    * DELETE /api/connections/:id - Disconnect from a user
+   * Removing an accepted connection removes the pair in both directions
    */
   app.fastify.delete(
     '/api/connections/:id',
@@ -392,7 +786,14 @@ export function registerConnectionRoutes(app: App) {
 
         await app.db
           .delete(schema.deviceConnections)
-          .where(eq(schema.deviceConnections.id, id));
+          .where(
+            connection.status === 'accepted'
+              ? and(
+                  betweenUsers(connection.requesterUserId, connection.targetUserId),
+                  eq(schema.deviceConnections.status, 'accepted')
+                )
+              : eq(schema.deviceConnections.id, id)
+          );
 
         app.logger.info(
           { connectionId: id, userId },
@@ -476,6 +877,7 @@ export function registerConnectionRoutes(app: App) {
             distance_meters: connection.distanceMeters ? parseFloat(connection.distanceMeters) : null,
             created_at: connection.createdAt,
             updated_at: connection.updatedAt,
+            expires_at: connection.expiresAt,
           },
         };
       } catch (error) {
@@ -0,0 +1,215 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { and, eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import {
+  findConsentRevocation,
+  formatConsentReceipt,
+  getReceiptPublicKey,
+  verifyReceiptSignature,
+  type ConsentReceiptPayload,
+} from '../utils/consent-receipts.js';
+import { findGroupRecipient } from '../utils/group-messages.js';
+
+/**
+ * Consent Receipt Routes
+ * Exposes signed receipts for accepted messages and lets anyone verify them
+ */
+export function registerConsentReceiptRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  if (getReceiptPublicKey().ephemeral) {
+    app.logger.warn(
+      {},
+      'RECEIPT_SIGNING_PRIVATE_KEY not configured, using ephemeral receipt signing key'
+    );
+  }
+
+  /**
+   * GET /api/messages/:id/receipt - Get the consent receipt for an accepted message
+   * Only the sender or recipient can fetch the receipt
+   * Group messages have one receipt per recipient: recipients get their own,
+   * the sender picks one with ?recipientId=
+   */
+  app.fastify.get(
+    '/api/messages/:id/receipt',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const { recipientId: requestedRecipientId } = request.query as { recipientId?: string };
+
+      app.logger.info(
+        { messageId: id, userId: session.user.id },
+        'Fetching consent receipt'
+      );
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        let recipientId = message.recipientId;
+        let revocation =
+          message.status === 'revoked'
+            ? { revokedAt: message.revokedAt, reason: message.revocationReason }
+            : null;
+
+        if (message.isGroup) {
+          const isSender = message.senderId === session.user.id;
+          recipientId = isSender ? requestedRecipientId ?? null : session.user.id;
+
+          if (!recipientId) {
+            return reply.status(400).send({
+              error: 'recipientId is required for group messages',
+            });
+          }
+
+          const recipient = await findGroupRecipient(app, id, recipientId);
+          if (!recipient) {
+            return reply.status(isSender ? 404 : 403).send({
+              error: isSender ? 'Recipient not found' : 'Not authorized',
+            });
+          }
+
+          revocation =
+            recipient.status === 'revoked'
+              ? { revokedAt: recipient.revokedAt, reason: recipient.revocationReason }
+              : null;
+        } else if (
+          // Verify user is either sender or recipient
+          message.senderId !== session.user.id &&
+          message.recipientId !== session.user.id
+        ) {
+          return reply.status(403).send({ error: 'Not authorized' });
+        }
+
+        const receipt = recipientId
+          ? await app.db.query.consentReceipts.findFirst({
+              where: and(
+                eq(schema.consentReceipts.messageId, id),
+                eq(schema.consentReceipts.recipientId, recipientId)
+              ),
+            })
+          : undefined;
+
+        if (!receipt) {
+          return reply.status(404).send({
+            error: 'No consent receipt for this message',
+          });
+        }
+
+        app.logger.info(
+          { messageId: id, receiptId: receipt.id },
+          'Consent receipt fetched'
+        );
+
+        return {
+          ...formatConsentReceipt(receipt),
+          // Receipts stay immutable; a later withdrawal is reported alongside
+          revocation,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: id, userId: session.user.id },
+          'Failed to fetch consent receipt'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/receipts/verify - Verify a consent receipt
+   * Body: { payload, signature, keyId } as returned by GET /api/messages/:id/receipt
+   * valid is only true for an authentic receipt whose consent has not been withdrawn since;
+   * revocation tells when and why it was withdrawn
+   * Does NOT require authentication
+   */
+  app.fastify.post(
+    '/api/receipts/verify',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { payload, signature, keyId } = (request.body || {}) as {
+        payload: ConsentReceiptPayload;
+        signature: string;
+        keyId: string;
+      };
+
+      app.logger.info(
+        { messageId: payload?.messageId, keyId },
+        'Verifying consent receipt'
+      );
+
+      if (!payload || !signature || !keyId) {
+        return reply.status(400).send({
+          error: 'payload, signature and keyId are required',
+        });
+      }
+
+      try {
+        const signatureValid = verifyReceiptSignature(payload, signature, keyId);
+
+        // Cross-check against the stored receipt so a valid signature over
+        // a different payload cannot be replayed
+        const stored =
+          payload.messageId && payload.recipientId
+            ? await app.db.query.consentReceipts.findFirst({
+                where: and(
+                  eq(schema.consentReceipts.messageId, payload.messageId),
+                  eq(schema.consentReceipts.recipientId, payload.recipientId)
+                ),
+              })
+            : undefined;
+
+        const matchesRecord = !!stored && stored.signature === signature;
+
+        // An authentic receipt only proves consent was given; it may have been withdrawn since
+        const revocation = stored
+          ? await findConsentRevocation(app, stored.messageId, stored.recipientId)
+          : null;
+
+        app.logger.info(
+          { messageId: payload.messageId, signatureValid, matchesRecord, revoked: !!revocation },
+          'Consent receipt verified'
+        );
+
+        return {
+          valid: signatureValid && matchesRecord && !revocation,
+          signatureValid,
+          matchesRecord,
+          revoked: !!revocation,
+          revocation,
+          receiptId: stored?.id ?? null,
+          verifiedAt: new Date().toISOString(),
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: payload?.messageId },
+          'Failed to verify consent receipt'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/receipts/public-key - Get the receipt signing public key
+   * Allows receipts to be verified offline, including those signed by a retired key
+   * Does NOT require authentication
+   */
+  app.fastify.get(
+    '/api/receipts/public-key',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      app.logger.info({}, 'Fetching receipt public key');
+
+      const { keyId, algorithm, publicKey, retiredKeys } = getReceiptPublicKey();
+
+      return { keyId, algorithm, publicKey, retiredKeys };
+    }
+  );
+}
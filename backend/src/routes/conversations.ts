@@ -0,0 +1,488 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import { areConnected } from '../utils/connection-graph.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import { dispatchNotification } from '../utils/notifications.js';
+import { publish } from '../utils/realtime.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
+import {
+  MAX_CONVERSATION_MESSAGE_LENGTH,
+  MAX_CONVERSATION_PAGE_SIZE,
+  countUnread,
+  formatConversationMessage,
+  getOrCreateConversation,
+  isParticipant,
+  lastReadAt,
+  otherParticipant,
+  participantFilter,
+  readMarkerUpdate,
+  unreadCountSql,
+  type Conversation,
+  type ConversationMessage,
+} from '../utils/conversations.js';
+
+/**
+ * Loads a conversation the user takes part in
+ * Replies 404 and returns null when it does not exist or belongs to others
+ */
+async function loadConversation(
+  app: App,
+  reply: FastifyReply,
+  id: string,
+  userId: string
+): Promise<Conversation | null> {
+  const conversation = await app.db.query.conversations.findFirst({
+    where: eq(schema.conversations.id, id),
+  });
+
+  if (!conversation || !isParticipant(conversation, userId)) {
+    reply.status(404).send({ error: 'Conversation not found' });
+    return null;
+  }
+
+  return conversation;
+}
+
+/**
+ * New messages need an accepted connection and no block between the two users
+ * Returns the reason sending is not possible, or null
+ */
+async function sendingBlockedReason(app: App, userId: string, otherUserId: string): Promise<string | null> {
+  if (await isBlockedBetween(app, userId, otherUserId)) {
+    return 'Cannot send messages to this user';
+  }
+  if (!(await areConnected(app, userId, otherUserId))) {
+    return 'You can only message your connections';
+  }
+  return null;
+}
+
+function formatConversation(
+  conversation: Conversation,
+  userId: string,
+  details: { otherUsername: string | null; unread: number; lastMessage?: ConversationMessage | null }
+) {
+  const otherUserId = otherParticipant(conversation, userId);
+  const otherLastReadAt = lastReadAt(conversation, otherUserId);
+
+  return {
+    id: conversation.id,
+    other_user_id: otherUserId,
+    other_username: details.otherUsername || 'Unknown',
+    unread_count: details.unread,
+    last_message: details.lastMessage
+      ? formatConversationMessage(details.lastMessage, userId, otherLastReadAt)
+      : null,
+    last_message_at: conversation.lastMessageAt,
+    other_last_read_at: otherLastReadAt,
+    created_at: conversation.createdAt,
+  };
+}
+
+/**
+ * Conversation Routes
+ * Private message threads between users with an accepted connection
+ */
+export function registerConversationRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * GET /api/conversations - List the current user's conversations
+   * Most recently active first, each with its latest message and unread count
+   */
+  app.fastify.get(
+    '/api/conversations',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching conversations');
+
+      try {
+        const otherUserId = sql<string>`case when ${schema.conversations.userAId} = ${userId} then ${schema.conversations.userBId} else ${schema.conversations.userAId} end`;
+
+        const rows = await app.db
+          .select({
+            conversation: schema.conversations,
+            otherUsername: authSchema.user.name,
+            unread: unreadCountSql(userId),
+          })
+          .from(schema.conversations)
+          .innerJoin(authSchema.user, eq(authSchema.user.id, otherUserId))
+          .where(participantFilter(userId))
+          .orderBy(desc(sql`coalesce(${schema.conversations.lastMessageAt}, ${schema.conversations.createdAt})`));
+
+        // Latest message of each listed conversation
+        const latest: ConversationMessage[] =
+          rows.length > 0
+            ? await app.db
+                .selectDistinctOn([schema.conversationMessages.conversationId])
+                .from(schema.conversationMessages)
+                .where(
+                  inArray(
+                    schema.conversationMessages.conversationId,
+                    rows.map((row) => row.conversation.id)
+                  )
+                )
+                .orderBy(
+                  schema.conversationMessages.conversationId,
+                  desc(schema.conversationMessages.createdAt)
+                )
+            : [];
+
+        const latestByConversation = new Map(latest.map((message) => [message.conversationId, message]));
+
+        const conversations = rows.map((row) =>
+          formatConversation(row.conversation, userId, {
+            otherUsername: row.otherUsername,
+            unread: row.unread,
+            lastMessage: latestByConversation.get(row.conversation.id) ?? null,
+          })
+        );
+
+        app.logger.info({ userId, count: conversations.length }, 'Conversations fetched');
+
+        return {
+          conversations,
+          count: conversations.length,
+          unread_total: conversations.reduce((total, entry) => total + entry.unread_count, 0),
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch conversations');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/conversations - Open the conversation with a connected user
+   * Body: { user_id }
+   * Returns the existing conversation when there is one (200), otherwise creates it (201)
+   */
+  app.fastify.post(
+    '/api/conversations',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { user_id: otherUserId } = (request.body || {}) as { user_id?: string };
+
+      app.logger.info({ userId, otherUserId }, 'Opening conversation');
+
+      if (!otherUserId) {
+        return reply.status(400).send({ error: 'user_id is required' });
+      }
+
+      if (otherUserId === userId) {
+        return reply.status(400).send({ error: 'Cannot start a conversation with yourself' });
+      }
+
+      try {
+        const blockedReason = await sendingBlockedReason(app, userId, otherUserId);
+        if (blockedReason) {
+          return reply.status(403).send({ error: blockedReason });
+        }
+
+        const { conversation, created } = await getOrCreateConversation(app, userId, otherUserId);
+
+        const otherUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, otherUserId),
+        });
+
+        if (created) {
+          app.logger.info({ userId, otherUserId, conversationId: conversation.id }, 'Conversation created');
+        }
+
+        return reply.status(created ? 201 : 200).send(
+          formatConversation(conversation, userId, {
+            otherUsername: otherUser?.name ?? null,
+            unread: await countUnread(app, conversation.id, userId),
+          })
+        );
+      } catch (error) {
+        app.logger.error({ err: error, userId, otherUserId }, 'Failed to open conversation');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/conversations/:id - Get a conversation
+   * can_send is false once the users are no longer connected or one blocked the other;
+   * the history stays readable
+   */
+  app.fastify.get(
+    '/api/conversations/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, conversationId: id }, 'Fetching conversation');
+
+      try {
+        const conversation = await loadConversation(app, reply, id, userId);
+        if (!conversation) return;
+
+        const otherUserId = otherParticipant(conversation, userId);
+
+        const [otherUser, lastMessage, unread, blockedReason] = await Promise.all([
+          app.db.query.user.findFirst({ where: eq(authSchema.user.id, otherUserId) }),
+          app.db.query.conversationMessages.findFirst({
+            where: eq(schema.conversationMessages.conversationId, id),
+            orderBy: desc(schema.conversationMessages.createdAt),
+          }),
+          countUnread(app, id, userId),
+          sendingBlockedReason(app, userId, otherUserId),
+        ]);
+
+        return {
+          ...formatConversation(conversation, userId, {
+            otherUsername: otherUser?.name ?? null,
+            unread,
+            lastMessage,
+          }),
+          can_send: !blockedReason,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, conversationId: id }, 'Failed to fetch conversation');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/conversations/:id/messages - Get a page of a conversation's history
+   * Query params: ?limit=50&offset=0 (newest first, max 100 per page)
+   */
+  app.fastify.get(
+    '/api/conversations/:id/messages',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const { limit = '50', offset = '0' } = request.query as {
+        limit?: string;
+        offset?: string;
+      };
+
+      const limitNum = parseInt(limit, 10);
+      const offsetNum = parseInt(offset, 10);
+
+      app.logger.info(
+        { userId, conversationId: id, limit: limitNum, offset: offsetNum },
+        'Fetching conversation messages'
+      );
+
+      if (isNaN(limitNum) || limitNum < 1 || isNaN(offsetNum) || offsetNum < 0) {
+        return reply.status(400).send({
+          error: 'limit must be at least 1 and offset cannot be negative',
+        });
+      }
+
+      const pageSize = Math.min(limitNum, MAX_CONVERSATION_PAGE_SIZE);
+
+      try {
+        const conversation = await loadConversation(app, reply, id, userId);
+        if (!conversation) return;
+
+        const rows = await app.db
+          .select({
+            message: schema.conversationMessages,
+            total: sql<number>`count(*) over ()`.mapWith(Number),
+          })
+          .from(schema.conversationMessages)
+          .where(eq(schema.conversationMessages.conversationId, id))
+          .orderBy(desc(schema.conversationMessages.createdAt))
+          .limit(pageSize)
+          .offset(offsetNum);
+
+        const otherLastReadAt = lastReadAt(conversation, otherParticipant(conversation, userId));
+        const messages = rows.map((row) => formatConversationMessage(row.message, userId, otherLastReadAt));
+        const total = rows[0]?.total ?? 0;
+
+        return {
+          conversation_id: id,
+          messages,
+          count: messages.length,
+          total,
+          limit: pageSize,
+          offset: offsetNum,
+          has_more: offsetNum + messages.length < total,
+          other_last_read_at: otherLastReadAt,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, conversationId: id },
+          'Failed to fetch conversation messages'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/conversations/:id/messages - Send a message
+   * Body: { body, reply_to_id? } - reply_to_id threads the message under an earlier one
+   */
+  app.fastify.post(
+    '/api/conversations/:id/messages',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const { body, reply_to_id: replyToId } = (request.body || {}) as {
+        body?: string;
+        reply_to_id?: string;
+      };
+
+      app.logger.info({ userId, conversationId: id, isReply: !!replyToId }, 'Sending conversation message');
+
+      const text = typeof body === 'string' ? body.trim() : '';
+
+      if (text.length === 0 || text.length > MAX_CONVERSATION_MESSAGE_LENGTH) {
+        return reply.status(400).send({
+          error: `body is required and must be at most ${MAX_CONVERSATION_MESSAGE_LENGTH} characters`,
+        });
+      }
+
+      try {
+        const conversation = await loadConversation(app, reply, id, userId);
+        if (!conversation) return;
+
+        const otherUserId = otherParticipant(conversation, userId);
+
+        const blockedReason = await sendingBlockedReason(app, userId, otherUserId);
+        if (blockedReason) {
+          return reply.status(403).send({ error: blockedReason });
+        }
+
+        if (replyToId) {
+          const parent = await app.db.query.conversationMessages.findFirst({
+            where: and(
+              eq(schema.conversationMessages.id, replyToId),
+              eq(schema.conversationMessages.conversationId, id)
+            ),
+          });
+
+          if (!parent) {
+            return reply.status(400).send({ error: 'reply_to_id must be a message in this conversation' });
+          }
+        }
+
+        const allowed = await enforceRateLimit(app, request, reply, 'conversation-message', {
+          userId,
+          target: otherUserId,
+        });
+        if (!allowed) return;
+
+        const [message] = await app.db
+          .insert(schema.conversationMessages)
+          .values({
+            conversationId: id,
+            senderId: userId,
+            body: text,
+            replyToId: replyToId || null,
+          })
+          .returning();
+
+        // Sending implies having read everything before it
+        const [updated] = await app.db
+          .update(schema.conversations)
+          .set({
+            lastMessageAt: message.createdAt,
+            ...readMarkerUpdate(conversation, userId),
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.conversations.id, id))
+          .returning();
+
+        // Each side gets the message as they would load it
+        publish(app, [otherUserId], {
+          type: 'conversation_message',
+          data: formatConversationMessage(message, otherUserId, lastReadAt(updated, userId)),
+        });
+        publish(app, [userId], {
+          type: 'conversation_message',
+          data: formatConversationMessage(message, userId, lastReadAt(updated, otherUserId)),
+        });
+
+        dispatchNotification(app, otherUserId, {
+          title: session.user.name || 'New message',
+          body: text.length > 100 ? `${text.slice(0, 97)}...` : text,
+          data: { conversationId: id, type: 'conversation_message' },
+        });
+
+        app.logger.info({ userId, conversationId: id, messageId: message.id }, 'Conversation message sent');
+
+        return reply
+          .status(201)
+          .send(formatConversationMessage(message, userId, lastReadAt(updated, otherUserId)));
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, conversationId: id },
+          'Failed to send conversation message'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/conversations/:id/read - Mark the conversation as read
+   * The other participant sees their messages up to now as read
+   */
+  app.fastify.post(
+    '/api/conversations/:id/read',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, conversationId: id }, 'Marking conversation as read');
+
+      try {
+        const conversation = await loadConversation(app, reply, id, userId);
+        if (!conversation) return;
+
+        const [updated] = await app.db
+          .update(schema.conversations)
+          .set(readMarkerUpdate(conversation, userId))
+          .where(eq(schema.conversations.id, id))
+          .returning();
+
+        // Turns the other participant's messages to "Read" while they watch
+        publish(app, [otherParticipant(conversation, userId)], {
+          type: 'conversation_read',
+          data: { conversation_id: id, user_id: userId, read_at: lastReadAt(updated, userId) },
+        });
+
+        return {
+          conversation_id: id,
+          last_read_at: lastReadAt(updated, userId),
+          unread_count: 0,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, conversationId: id },
+          'Failed to mark conversation as read'
+        );
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,253 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, asc, count, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import {
+  ENCRYPTION_ALGORITHM,
+  MAX_DEVICE_KEYS_PER_USER,
+  formatDeviceKey,
+  isValidPublicKey,
+} from '../utils/message-encryption.js';
+
+const MAX_DEVICE_ID_LENGTH = 100;
+
+export function registerDeviceKeyRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * POST /api/keys - Register or rotate the public key of one of the user's devices
+   * Body: { device_id, public_key } where public_key is a base64 X25519 key
+   * The private key stays on the device; registering again with the same device_id replaces
+   * the key and reactivates a revoked device
+   */
+  app.fastify.post(
+    '/api/keys',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { device_id, public_key } = (request.body ?? {}) as {
+        device_id?: string;
+        public_key?: string;
+      };
+
+      app.logger.info({ userId, deviceId: device_id }, 'Registering device key');
+
+      if (
+        typeof device_id !== 'string' ||
+        device_id.trim().length === 0 ||
+        device_id.length > MAX_DEVICE_ID_LENGTH
+      ) {
+        return reply.status(400).send({
+          error: `device_id is required and must be at most ${MAX_DEVICE_ID_LENGTH} characters`,
+        });
+      }
+
+      if (!isValidPublicKey(public_key)) {
+        return reply.status(400).send({
+          error: `public_key must be a base64 ${ENCRYPTION_ALGORITHM} public key`,
+        });
+      }
+
+      try {
+        const existing = await app.db.query.deviceKeys.findFirst({
+          where: and(
+            eq(schema.deviceKeys.userId, userId),
+            eq(schema.deviceKeys.deviceId, device_id)
+          ),
+        });
+
+        if (existing && !existing.revokedAt && existing.publicKey === public_key) {
+          return formatDeviceKey(existing);
+        }
+
+        // Only devices that are not active yet count towards the limit
+        if (!existing || existing.revokedAt) {
+          const [{ value: activeKeys }] = await app.db
+            .select({ value: count() })
+            .from(schema.deviceKeys)
+            .where(and(eq(schema.deviceKeys.userId, userId), isNull(schema.deviceKeys.revokedAt)));
+
+          if (activeKeys >= MAX_DEVICE_KEYS_PER_USER) {
+            return reply.status(409).send({
+              error: `At most ${MAX_DEVICE_KEYS_PER_USER} devices can hold encryption keys; revoke one first`,
+            });
+          }
+        }
+
+        if (existing) {
+          const deviceKey = await app.db.transaction(async (tx) => {
+            // Envelopes sealed to the old key cannot be opened by the new one
+            if (existing.publicKey !== public_key) {
+              await tx
+                .delete(schema.messageKeys)
+                .where(eq(schema.messageKeys.deviceKeyId, existing.id));
+            }
+
+            const [updated] = await tx
+              .update(schema.deviceKeys)
+              .set({ publicKey: public_key, revokedAt: null })
+              .where(eq(schema.deviceKeys.id, existing.id))
+              .returning();
+            return updated;
+          });
+
+          app.logger.info(
+            { userId, deviceKeyId: deviceKey.id, rotated: existing.publicKey !== public_key },
+            'Device key updated'
+          );
+
+          return formatDeviceKey(deviceKey);
+        }
+
+        const [deviceKey] = await app.db
+          .insert(schema.deviceKeys)
+          .values({ userId, deviceId: device_id, publicKey: public_key })
+          .returning();
+
+        app.logger.info({ userId, deviceKeyId: deviceKey.id }, 'Device key registered');
+
+        return reply.status(201).send(formatDeviceKey(deviceKey));
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to register device key');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/keys - List the current user's device keys, including revoked ones
+   */
+  app.fastify.get(
+    '/api/keys',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Listing device keys');
+
+      try {
+        const keys = await app.db
+          .select()
+          .from(schema.deviceKeys)
+          .where(eq(schema.deviceKeys.userId, userId))
+          .orderBy(asc(schema.deviceKeys.createdAt));
+
+        app.logger.info({ userId, count: keys.length }, 'Device keys listed');
+
+        return { keys: keys.map(formatDeviceKey) };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to list device keys');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/keys/:deviceId - Revoke the key of a lost or retired device
+   * New messages are no longer encrypted to it; envelopes it already holds are kept so the
+   * device can be reactivated with the same key
+   */
+  app.fastify.delete(
+    '/api/keys/:deviceId',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { deviceId } = request.params as { deviceId: string };
+
+      app.logger.info({ userId, deviceId }, 'Revoking device key');
+
+      try {
+        const existing = await app.db.query.deviceKeys.findFirst({
+          where: and(
+            eq(schema.deviceKeys.userId, userId),
+            eq(schema.deviceKeys.deviceId, deviceId)
+          ),
+        });
+
+        if (!existing) {
+          return reply.status(404).send({ error: 'Device key not found' });
+        }
+
+        if (existing.revokedAt) {
+          return formatDeviceKey(existing);
+        }
+
+        const [revoked] = await app.db
+          .update(schema.deviceKeys)
+          .set({ revokedAt: new Date() })
+          .where(eq(schema.deviceKeys.id, existing.id))
+          .returning();
+
+        app.logger.info({ userId, deviceKeyId: revoked.id }, 'Device key revoked');
+
+        return formatDeviceKey(revoked);
+      } catch (error) {
+        app.logger.error({ err: error, userId, deviceId }, 'Failed to revoke device key');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/users/:id/keys - Active public keys of a user, to encrypt messages to them
+   * An empty list means the user has not set up encryption on any device
+   */
+  app.fastify.get(
+    '/api/users/:id/keys',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id: targetUserId } = request.params as { id: string };
+
+      app.logger.info({ userId: session.user.id, targetUserId }, 'Fetching public keys of user');
+
+      try {
+        const targetUser = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, targetUserId),
+        });
+
+        if (!targetUser) {
+          return reply.status(404).send({ error: 'User not found' });
+        }
+
+        if (
+          targetUserId !== session.user.id &&
+          (await isBlockedBetween(app, session.user.id, targetUserId))
+        ) {
+          return reply.status(403).send({ error: 'Cannot fetch keys of this user' });
+        }
+
+        const keys = await app.db
+          .select()
+          .from(schema.deviceKeys)
+          .where(and(eq(schema.deviceKeys.userId, targetUserId), isNull(schema.deviceKeys.revokedAt)))
+          .orderBy(asc(schema.deviceKeys.createdAt));
+
+        return {
+          user_id: targetUserId,
+          keys: keys.map((key) => ({
+            id: key.id,
+            device_id: key.deviceId,
+            public_key: key.publicKey,
+            algorithm: ENCRYPTION_ALGORITHM,
+          })),
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId: session.user.id, targetUserId },
+          'Failed to fetch public keys of user'
+        );
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { registerLocationRoutes } from './location.js';
+
+// Snaps to a 250m grid cell whose center lies about 133m away
+const HOME = { latitude: 45.4642, longitude: 9.19 };
+
+describe('location privacy zones', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerLocationRoutes], ['alice']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const updateLocation = () =>
+    testApp.request('alice', { method: 'POST', url: '/api/location/update', payload: HOME });
+
+  const addZone = () =>
+    testApp.request('alice', {
+      method: 'POST',
+      url: '/api/location/privacy/zones',
+      payload: { ...HOME, radius_meters: 100 },
+    });
+
+  const isHidden = async () =>
+    (
+      await testApp.db.query.userLocations.findFirst({
+        where: eq(schema.userLocations.userId, 'alice'),
+      })
+    )?.hidden;
+
+  it('checks submitted positions against zones before fuzzing them', async () => {
+    assert.equal((await addZone()).statusCode, 201);
+    assert.equal((await updateLocation()).statusCode, 200);
+
+    assert.equal(await isHidden(), true);
+  });
+
+  it('hides a stored position that might be inside a new zone', async () => {
+    assert.equal((await updateLocation()).statusCode, 200);
+    assert.equal(await isHidden(), false);
+
+    const zone = (await addZone()).json().zone;
+    assert.equal(await isHidden(), true);
+
+    await testApp.request('alice', { method: 'DELETE', url: `/api/location/privacy/zones/${zone.id}` });
+    assert.equal(await isHidden(), false);
+  });
+});
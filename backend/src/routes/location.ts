@@ -1,14 +1,87 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, ne } from 'drizzle-orm';
+import { and, asc, between, eq, gt, gte, lte, ne, or, sql, type SQL } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
 import {
-  calculateHaversineDistance,
+  MAX_LOCATION_FUZZ_METERS,
+  MAX_PRIVACY_ZONES,
+  MAX_PRIVACY_ZONE_RADIUS_METERS,
+  MIN_PRIVACY_ZONE_RADIUS_METERS,
+  distanceBucketSql,
+  fuzzCoordinate,
+  getLocationPrivacy,
+  isInsidePrivacyZone,
+  presentDistance,
+  refreshLocationVisibility,
+} from '../utils/location-privacy.js';
+import { resolveVisibleUntil } from '../utils/location-ttl.js';
+import { notBlockedWith } from '../utils/blocks.js';
+import {
+  getBoundingBox,
   parseCoordinate,
   isValidCoordinate,
+  type BoundingBox,
+  type Coordinate,
 } from '../utils/distance.js';
 
+// Largest search radius accepted by the nearby endpoint
+const MAX_NEARBY_RADIUS_METERS = 50_000;
+const MAX_NEARBY_PAGE_SIZE = 100;
+
+/**
+ * Shapes a privacy zone row for API responses
+ */
+function formatZone(zone: typeof schema.locationPrivacyZones.$inferSelect) {
+  return {
+    id: zone.id,
+    label: zone.label,
+    latitude: parseFloat(zone.latitude),
+    longitude: parseFloat(zone.longitude),
+    radius_meters: zone.radiusMeters,
+    created_at: zone.createdAt,
+  };
+}
+
+/**
+ * Haversine distance in meters from a coordinate to each stored location, computed in SQL
+ */
+function haversineDistanceSql(center: Coordinate): SQL<number> {
+  const lat = sql`${schema.userLocations.latitude}::double precision`;
+  const lon = sql`${schema.userLocations.longitude}::double precision`;
+
+  return sql<number>`(2 * 6371000 * asin(sqrt(
+    power(sin(radians(${lat} - ${center.latitude}) / 2), 2) +
+    cos(radians(${center.latitude})) * cos(radians(${lat})) *
+    power(sin(radians(${lon} - ${center.longitude}) / 2), 2)
+  )))`.mapWith(Number);
+}
+
+/**
+ * Restricts stored locations to a bounding box, splitting it at the antimeridian
+ */
+function boundingBoxFilter(box: BoundingBox): SQL {
+  const latitude = between(
+    schema.userLocations.latitude,
+    box.minLatitude.toString(),
+    box.maxLatitude.toString()
+  );
+
+  const longitude =
+    box.minLongitude <= box.maxLongitude
+      ? between(
+          schema.userLocations.longitude,
+          box.minLongitude.toString(),
+          box.maxLongitude.toString()
+        )
+      : or(
+          gte(schema.userLocations.longitude, box.minLongitude.toString()),
+          lte(schema.userLocations.longitude, box.maxLongitude.toString())
+        );
+
+  return and(latitude, longitude);
+}
+
 /**
  * Location Management Routes
  * Handles GPS location updates and nearby user discovery
@@ -19,6 +92,8 @@ export function registerLocationRoutes(app: App) {
   /**
    * POST /api/location/update - Update user's current GPS location
    * Upserts user location (updates if exists, inserts if not)
+   * Applies the user's coordinate fuzzing and privacy zones before storing
+   * Optional visible_until (ISO timestamp) limits how long others can see the location
    */
   app.fastify.post(
     '/api/location/update',
@@ -27,10 +102,11 @@ export function registerLocationRoutes(app: App) {
       if (!session) return;
 
       const userId = session.user.id;
-      const { latitude, longitude, accuracy } = request.body as {
+      const { latitude, longitude, accuracy, visible_until } = request.body as {
         latitude: number;
         longitude: number;
         accuracy?: number;
+        visible_until?: string;
       };
 
       app.logger.info(
@@ -62,7 +138,19 @@ export function registerLocationRoutes(app: App) {
         });
       }
 
+      const visibleUntil = resolveVisibleUntil(visible_until);
+      if (!visibleUntil) {
+        return reply.status(400).send({
+          error: 'visible_until must be a future timestamp',
+        });
+      }
+
       try {
+        // Zones are checked against the exact position, only the fuzzed one is stored
+        const privacy = await getLocationPrivacy(app, userId);
+        const hidden = isInsidePrivacyZone(coord, privacy.zones);
+        const stored = fuzzCoordinate(coord, privacy.fuzzMeters);
+
         // Check if location exists
         const existingLocation = await app.db.query.userLocations.findFirst({
           where: eq(schema.userLocations.userId, userId),
@@ -75,9 +163,12 @@ export function registerLocationRoutes(app: App) {
           const [updated] = await app.db
             .update(schema.userLocations)
             .set({
-              latitude: latitude.toString(),
-              longitude: longitude.toString(),
+              latitude: stored.latitude.toString(),
+              longitude: stored.longitude.toString(),
               accuracy: accuracy ? accuracy.toString() : null,
+              hidden,
+              fuzzMeters: privacy.fuzzMeters,
+              visibleUntil,
               updatedAt: new Date(),
             })
             .where(eq(schema.userLocations.userId, userId))
@@ -94,9 +185,12 @@ export function registerLocationRoutes(app: App) {
             .insert(schema.userLocations)
             .values({
               userId,
-              latitude: latitude.toString(),
-              longitude: longitude.toString(),
+              latitude: stored.latitude.toString(),
+              longitude: stored.longitude.toString(),
               accuracy: accuracy ? accuracy.toString() : null,
+              hidden,
+              fuzzMeters: privacy.fuzzMeters,
+              visibleUntil,
             })
             .returning();
 
@@ -113,6 +207,9 @@ export function registerLocationRoutes(app: App) {
             latitude: parseFloat(location.latitude),
             longitude: parseFloat(location.longitude),
             accuracy: location.accuracy ? parseFloat(location.accuracy) : null,
+            hidden: location.hidden,
+            fuzzed: privacy.fuzzMeters > 0,
+            visible_until: location.visibleUntil,
             updated_at: location.updatedAt,
           },
         };
@@ -128,7 +225,10 @@ export function registerLocationRoutes(app: App) {
 
   /**
    * GET /api/location/nearby - Find nearby users with the app
-   * Query params: ?radius=1000 (radius in meters, default 1000m)
+   * Query params: ?radius=1000 (radius in meters, default 1000m, capped at 50km)
+   *               &limit=50&offset=0 (pagination, max 100 per page)
+   * Blocked users, users inside a privacy zone or past their visible_until are excluded
+   * Distances follow each user's display setting; results are ordered by distance bucket only
    */
   app.fastify.get(
     '/api/location/nearby',
@@ -137,21 +237,36 @@ export function registerLocationRoutes(app: App) {
       if (!session) return;
 
       const userId = session.user.id;
-      const { radius = '1000' } = request.query as { radius?: string };
+      const { radius = '1000', limit = '50', offset = '0' } = request.query as {
+        radius?: string;
+        limit?: string;
+        offset?: string;
+      };
 
-      const radiusMeters = parseInt(radius, 10);
+      const requestedRadius = parseInt(radius, 10);
+      const limitNum = parseInt(limit, 10);
+      const offsetNum = parseInt(offset, 10);
 
       app.logger.info(
-        { userId, radiusMeters },
+        { userId, requestedRadius, limit: limitNum, offset: offsetNum },
         'Searching for nearby users'
       );
 
-      if (isNaN(radiusMeters) || radiusMeters < 0) {
+      if (isNaN(requestedRadius) || requestedRadius < 0) {
         return reply.status(400).send({
           error: 'Radius must be a positive number',
         });
       }
 
+      if (isNaN(limitNum) || limitNum < 1 || isNaN(offsetNum) || offsetNum < 0) {
+        return reply.status(400).send({
+          error: 'limit must be at least 1 and offset cannot be negative',
+        });
+      }
+
+      const radiusMeters = Math.min(requestedRadius, MAX_NEARBY_RADIUS_METERS);
+      const pageSize = Math.min(limitNum, MAX_NEARBY_PAGE_SIZE);
+
       try {
         // Get current user's location
         const userLocation = await app.db.query.userLocations.findFirst({
@@ -170,51 +285,60 @@ export function registerLocationRoutes(app: App) {
           userLocation.longitude
         );
 
-        // Get all other users' locations
-        const otherLocations = await app.db
-          .select()
+        const distance = haversineDistanceSql(userCoord);
+
+        // Bounding box prefilter uses the coordinates index, Haversine gives the exact cut
+        const rows = await app.db
+          .select({
+            userId: schema.userLocations.userId,
+            username: authSchema.user.name,
+            lastSeen: schema.userLocations.updatedAt,
+            distanceDisplay: schema.userSharingPreferences.distanceDisplay,
+            distance,
+            total: sql<number>`count(*) over ()`.mapWith(Number),
+          })
           .from(schema.userLocations)
-          .where(ne(schema.userLocations.userId, userId));
-
-        // Calculate distances and filter by radius
-        const nearbyUsers = [];
-
-        for (const location of otherLocations) {
-          const otherCoord = parseCoordinate(
-            location.latitude,
-            location.longitude
-          );
-
-          const distance = calculateHaversineDistance(userCoord, otherCoord);
-
-          if (distance <= radiusMeters) {
-            // Fetch user details
-            const otherUser = await app.db.query.user.findFirst({
-              where: eq(authSchema.user.id, location.userId),
-            });
-
-            if (otherUser) {
-              nearbyUsers.push({
-                user_id: location.userId,
-                username: otherUser.name,
-                distance_meters: Math.round(distance * 100) / 100, // Round to 2 decimals
-                last_seen: location.updatedAt,
-              });
-            }
-          }
-        }
-
-        // Sort by distance
-        nearbyUsers.sort((a, b) => a.distance_meters - b.distance_meters);
+          .innerJoin(authSchema.user, eq(authSchema.user.id, schema.userLocations.userId))
+          .leftJoin(
+            schema.userSharingPreferences,
+            eq(schema.userSharingPreferences.userId, schema.userLocations.userId)
+          )
+          .where(
+            and(
+              ne(schema.userLocations.userId, userId),
+              eq(schema.userLocations.hidden, false),
+              gt(schema.userLocations.visibleUntil, new Date()),
+              notBlockedWith(userId, schema.userLocations.userId),
+              boundingBoxFilter(getBoundingBox(userCoord, radiusMeters)),
+              lte(distance, radiusMeters)
+            )
+          )
+          // Ordered by bucket, then by user id so the order within a bucket says nothing about distance
+          .orderBy(asc(distanceBucketSql(distance)), asc(schema.userLocations.userId))
+          .limit(pageSize)
+          .offset(offsetNum);
+
+        const nearbyUsers = rows.map((row) => ({
+          user_id: row.userId,
+          username: row.username,
+          ...presentDistance(row.distance, row.distanceDisplay ?? 'bucketed'),
+          last_seen: row.lastSeen,
+        }));
+
+        const total = rows[0]?.total ?? 0;
 
         app.logger.info(
-          { userId, radiusMeters, foundCount: nearbyUsers.length },
+          { userId, radiusMeters, foundCount: nearbyUsers.length, total },
           'Nearby users search completed'
         );
 
         return {
           users: nearbyUsers,
           count: nearbyUsers.length,
+          total,
+          limit: pageSize,
+          offset: offsetNum,
+          has_more: offsetNum + nearbyUsers.length < total,
           radius_meters: radiusMeters,
         };
       } catch (error) {
@@ -257,6 +381,9 @@ export function registerLocationRoutes(app: App) {
             latitude: parseFloat(location.latitude),
             longitude: parseFloat(location.longitude),
             accuracy: location.accuracy ? parseFloat(location.accuracy) : null,
+            hidden: location.hidden,
+            visible_until: location.visibleUntil,
+            stale: location.visibleUntil <= new Date(),
             updated_at: location.updatedAt,
             created_at: location.createdAt,
           },
@@ -305,4 +432,233 @@ export function registerLocationRoutes(app: App) {
       }
     }
   );
+
+  /**
+   * GET /api/location/privacy - Get location privacy settings and zones
+   */
+  app.fastify.get(
+    '/api/location/privacy',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching location privacy settings');
+
+      try {
+        const privacy = await getLocationPrivacy(app, userId);
+
+        return {
+          distance_display: privacy.distanceDisplay,
+          fuzz_meters: privacy.fuzzMeters,
+          zones: privacy.zones.map(formatZone),
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId },
+          'Failed to fetch location privacy settings'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * PUT /api/location/privacy - Update location privacy settings
+   * Body: { distance_display?: 'exact' | 'bucketed', fuzz_meters?: number }
+   * Fuzzing applies from the next location update
+   */
+  app.fastify.put(
+    '/api/location/privacy',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { distance_display, fuzz_meters } = request.body as {
+        distance_display?: 'exact' | 'bucketed';
+        fuzz_meters?: number;
+      };
+
+      app.logger.info(
+        { userId, distanceDisplay: distance_display, fuzzMeters: fuzz_meters },
+        'Updating location privacy settings'
+      );
+
+      if (distance_display !== undefined && !['exact', 'bucketed'].includes(distance_display)) {
+        return reply.status(400).send({
+          error: 'distance_display must be "exact" or "bucketed"',
+        });
+      }
+
+      if (
+        fuzz_meters !== undefined &&
+        (!Number.isInteger(fuzz_meters) || fuzz_meters < 0 || fuzz_meters > MAX_LOCATION_FUZZ_METERS)
+      ) {
+        return reply.status(400).send({
+          error: `fuzz_meters must be an integer between 0 and ${MAX_LOCATION_FUZZ_METERS}`,
+        });
+      }
+
+      try {
+        const updates: Record<string, any> = {};
+        if (distance_display !== undefined) updates.distanceDisplay = distance_display;
+        if (fuzz_meters !== undefined) updates.locationFuzzMeters = fuzz_meters;
+
+        const [preferences] = await app.db
+          .insert(schema.userSharingPreferences)
+          .values({ userId, ...updates })
+          .onConflictDoUpdate({
+            target: schema.userSharingPreferences.userId,
+            set: { ...updates, updatedAt: new Date() },
+          })
+          .returning();
+
+        app.logger.info({ userId }, 'Location privacy settings updated');
+
+        return {
+          distance_display: preferences.distanceDisplay,
+          fuzz_meters: preferences.locationFuzzMeters,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId },
+          'Failed to update location privacy settings'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/location/privacy/zones - Add a privacy zone
+   * Body: { latitude, longitude, radius_meters, label? }
+   * While inside a zone the user does not appear in nearby results
+   */
+  app.fastify.post(
+    '/api/location/privacy/zones',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { latitude, longitude, radius_meters, label } = request.body as {
+        latitude: number;
+        longitude: number;
+        radius_meters: number;
+        label?: string;
+      };
+
+      app.logger.info({ userId, radiusMeters: radius_meters }, 'Adding location privacy zone');
+
+      if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+        return reply.status(400).send({
+          error: 'latitude and longitude must be numbers',
+        });
+      }
+
+      if (!isValidCoordinate(parseCoordinate(latitude, longitude))) {
+        return reply.status(400).send({
+          error: 'Invalid GPS coordinates',
+        });
+      }
+
+      if (
+        !Number.isInteger(radius_meters) ||
+        radius_meters < MIN_PRIVACY_ZONE_RADIUS_METERS ||
+        radius_meters > MAX_PRIVACY_ZONE_RADIUS_METERS
+      ) {
+        return reply.status(400).send({
+          error: `radius_meters must be an integer between ${MIN_PRIVACY_ZONE_RADIUS_METERS} and ${MAX_PRIVACY_ZONE_RADIUS_METERS}`,
+        });
+      }
+
+      if (label !== undefined && (typeof label !== 'string' || label.length > 50)) {
+        return reply.status(400).send({
+          error: 'label must be at most 50 characters',
+        });
+      }
+
+      try {
+        const { zones } = await getLocationPrivacy(app, userId);
+        if (zones.length >= MAX_PRIVACY_ZONES) {
+          return reply.status(400).send({
+            error: `You can have at most ${MAX_PRIVACY_ZONES} privacy zones`,
+          });
+        }
+
+        const [zone] = await app.db
+          .insert(schema.locationPrivacyZones)
+          .values({
+            userId,
+            label: label?.trim() || null,
+            latitude: latitude.toString(),
+            longitude: longitude.toString(),
+            radiusMeters: radius_meters,
+          })
+          .returning();
+
+        await refreshLocationVisibility(app, userId);
+
+        app.logger.info({ userId, zoneId: zone.id }, 'Location privacy zone added');
+
+        return reply.status(201).send({ zone: formatZone(zone) });
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId },
+          'Failed to add location privacy zone'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/location/privacy/zones/:id - Remove a privacy zone
+   */
+  app.fastify.delete(
+    '/api/location/privacy/zones/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, zoneId: id }, 'Removing location privacy zone');
+
+      try {
+        const [deleted] = await app.db
+          .delete(schema.locationPrivacyZones)
+          .where(
+            and(
+              eq(schema.locationPrivacyZones.id, id),
+              eq(schema.locationPrivacyZones.userId, userId)
+            )
+          )
+          .returning();
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'Privacy zone not found',
+          });
+        }
+
+        await refreshLocationVisibility(app, userId);
+
+        app.logger.info({ userId, zoneId: id }, 'Location privacy zone removed');
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId, zoneId: id },
+          'Failed to remove location privacy zone'
+        );
+        throw error;
+      }
+    }
+  );
 }
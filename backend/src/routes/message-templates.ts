@@ -0,0 +1,289 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { and, asc, count, eq, isNull, or } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import {
+  MAX_TEMPLATES_PER_USER,
+  MAX_TEMPLATE_BODY_LENGTH,
+  MAX_TEMPLATE_TITLE_LENGTH,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_VARIABLES,
+  findUnknownVariables,
+  findVisibleTemplate,
+  formatTemplate,
+  type TemplateCategory,
+} from '../utils/message-templates.js';
+
+interface TemplateInput {
+  title?: string;
+  body?: string;
+  category?: TemplateCategory;
+}
+
+/**
+ * Validates template fields; partial input is allowed for updates
+ * Returns an error message, or null when the input is valid
+ */
+function validateTemplateInput(input: TemplateInput, partial: boolean): string | null {
+  if (!partial || input.title !== undefined) {
+    if (typeof input.title !== 'string' || input.title.trim().length === 0) {
+      return 'title is required';
+    }
+    if (input.title.trim().length > MAX_TEMPLATE_TITLE_LENGTH) {
+      return `title must be at most ${MAX_TEMPLATE_TITLE_LENGTH} characters`;
+    }
+  }
+
+  if (!partial || input.body !== undefined) {
+    if (typeof input.body !== 'string' || input.body.trim().length === 0) {
+      return 'body is required';
+    }
+    if (input.body.trim().length > MAX_TEMPLATE_BODY_LENGTH) {
+      return `body must be at most ${MAX_TEMPLATE_BODY_LENGTH} characters`;
+    }
+    const unknown = findUnknownVariables(input.body);
+    if (unknown.length > 0) {
+      return `Unknown variables: ${unknown.join(', ')}. Supported: ${TEMPLATE_VARIABLES.join(', ')}`;
+    }
+  }
+
+  if (input.category !== undefined && !TEMPLATE_CATEGORIES.includes(input.category)) {
+    return `category must be one of: ${TEMPLATE_CATEGORIES.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Message Template Routes
+ * Lists system templates and lets users manage their own
+ */
+export function registerMessageTemplateRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * GET /api/message-templates - List system templates and the current user's templates
+   * Query: category (optional)
+   */
+  app.fastify.get(
+    '/api/message-templates',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { category } = request.query as { category?: TemplateCategory };
+
+      app.logger.info({ userId, category }, 'Fetching message templates');
+
+      if (category !== undefined && !TEMPLATE_CATEGORIES.includes(category)) {
+        return reply.status(400).send({
+          error: `category must be one of: ${TEMPLATE_CATEGORIES.join(', ')}`,
+        });
+      }
+
+      try {
+        const templates = await app.db
+          .select()
+          .from(schema.messageTemplates)
+          .where(
+            and(
+              or(
+                isNull(schema.messageTemplates.ownerId),
+                eq(schema.messageTemplates.ownerId, userId)
+              ),
+              category ? eq(schema.messageTemplates.category, category) : undefined
+            )
+          )
+          .orderBy(asc(schema.messageTemplates.category), asc(schema.messageTemplates.createdAt));
+
+        return {
+          templates: templates.map(formatTemplate),
+          count: templates.length,
+          categories: TEMPLATE_CATEGORIES,
+          variables: TEMPLATE_VARIABLES,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch message templates');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/message-templates/:id - Get a template
+   */
+  app.fastify.get(
+    '/api/message-templates/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, templateId: id }, 'Fetching message template');
+
+      try {
+        const template = await findVisibleTemplate(app, userId, id);
+
+        if (!template) {
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        return formatTemplate(template);
+      } catch (error) {
+        app.logger.error({ err: error, userId, templateId: id }, 'Failed to fetch message template');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/message-templates - Create a template owned by the current user
+   * Body: { title, body, category? }
+   */
+  app.fastify.post(
+    '/api/message-templates',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const input = (request.body || {}) as TemplateInput;
+
+      app.logger.info({ userId, category: input.category }, 'Creating message template');
+
+      const validationError = validateTemplateInput(input, false);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      try {
+        const [{ value: owned }] = await app.db
+          .select({ value: count() })
+          .from(schema.messageTemplates)
+          .where(eq(schema.messageTemplates.ownerId, userId));
+
+        if (owned >= MAX_TEMPLATES_PER_USER) {
+          return reply.status(409).send({
+            error: `You can have at most ${MAX_TEMPLATES_PER_USER} templates`,
+          });
+        }
+
+        const [template] = await app.db
+          .insert(schema.messageTemplates)
+          .values({
+            ownerId: userId,
+            title: input.title.trim(),
+            body: input.body.trim(),
+            category: input.category ?? 'other',
+          })
+          .returning();
+
+        app.logger.info({ userId, templateId: template.id }, 'Message template created');
+
+        return reply.status(201).send(formatTemplate(template));
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to create message template');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * PUT /api/message-templates/:id - Update one of the current user's templates
+   * Body: { title?, body?, category? }
+   * System templates cannot be changed
+   */
+  app.fastify.put(
+    '/api/message-templates/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+      const input = (request.body || {}) as TemplateInput;
+
+      app.logger.info({ userId, templateId: id }, 'Updating message template');
+
+      const validationError = validateTemplateInput(input, true);
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      try {
+        const template = await findVisibleTemplate(app, userId, id);
+
+        if (!template) {
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        if (template.ownerId !== userId) {
+          return reply.status(403).send({ error: 'System templates cannot be changed' });
+        }
+
+        const [updated] = await app.db
+          .update(schema.messageTemplates)
+          .set({
+            ...(input.title !== undefined && { title: input.title.trim() }),
+            ...(input.body !== undefined && { body: input.body.trim() }),
+            ...(input.category !== undefined && { category: input.category }),
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.messageTemplates.id, id))
+          .returning();
+
+        app.logger.info({ userId, templateId: id }, 'Message template updated');
+
+        return formatTemplate(updated);
+      } catch (error) {
+        app.logger.error({ err: error, userId, templateId: id }, 'Failed to update message template');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/message-templates/:id - Delete one of the current user's templates
+   * Messages created from it keep their text
+   */
+  app.fastify.delete(
+    '/api/message-templates/:id',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id } = request.params as { id: string };
+
+      app.logger.info({ userId, templateId: id }, 'Deleting message template');
+
+      try {
+        const template = await findVisibleTemplate(app, userId, id);
+
+        if (!template) {
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        if (template.ownerId !== userId) {
+          return reply.status(403).send({ error: 'System templates cannot be deleted' });
+        }
+
+        await app.db
+          .delete(schema.messageTemplates)
+          .where(eq(schema.messageTemplates.id, id));
+
+        app.logger.info({ userId, templateId: id }, 'Message template deleted');
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, templateId: id }, 'Failed to delete message template');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,369 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { setPushProviders } from '../push/index.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { registerConsentReceiptRoutes } from './consent-receipts.js';
+import { registerMessageRoutes } from './messages.js';
+
+describe('POST /api/messages/link', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes], ['alice', 'bob', 'carol']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const createLink = (body: Record<string, unknown>) =>
+    testApp.request('alice', { method: 'POST', url: '/api/messages/link', payload: body });
+
+  it('creates a pending single-use link that expires after a day', async () => {
+    const response = await createLink({ content: 'Lunch at 12?' });
+    assert.equal(response.statusCode, 200);
+
+    const link = response.json();
+    assert.match(link.linkToken, /^[0-9a-f]{64}$/);
+    assert.equal(link.singleUse, true);
+    assert.equal(link.encrypted, false);
+    assert.ok(link.url.endsWith(`/message/${link.linkToken}`));
+    assert.ok(link.urls.short.endsWith(`/m/${link.shortCode}`));
+
+    const expiresIn = new Date(link.linkExpiresAt).getTime() - Date.now();
+    assert.ok(expiresIn > 23 * 60 * 60 * 1000 && expiresIn <= 24 * 60 * 60 * 1000);
+
+    const message = await testApp.db.query.messages.findFirst({
+      where: eq(schema.messages.id, link.id),
+    });
+    assert.equal(message?.senderId, 'alice');
+    assert.equal(message?.recipientId, null);
+    assert.equal(message?.status, 'pending');
+    assert.equal(message?.content, 'Lunch at 12?');
+
+    const events = await testApp.db
+      .select()
+      .from(schema.messageEvents)
+      .where(eq(schema.messageEvents.messageId, link.id));
+    assert.deepEqual(
+      events.map((event) => event.eventType),
+      ['created']
+    );
+  });
+
+  it('honours expiresIn and singleUse', async () => {
+    const response = await createLink({ content: 'Coffee?', expiresIn: 60 * 1000, singleUse: false });
+    assert.equal(response.statusCode, 200);
+
+    const link = response.json();
+    assert.equal(link.singleUse, false);
+    assert.ok(new Date(link.linkExpiresAt).getTime() - Date.now() <= 60 * 1000);
+  });
+
+  it('rejects invalid input', async () => {
+    assert.equal((await createLink({ content: 'Coffee?', expiresIn: -1 })).statusCode, 400);
+    assert.equal((await createLink({ content: 'Coffee?', shareMethod: 'carrier-pigeon' })).statusCode, 400);
+    assert.equal((await createLink({})).statusCode, 400);
+  });
+
+  it('requires authentication', async () => {
+    const response = await testApp.request(null, {
+      method: 'POST',
+      url: '/api/messages/link',
+      payload: { content: 'Lunch at 12?' },
+    });
+    assert.equal(response.statusCode, 401);
+  });
+
+  it('lets the first person who opens the link answer it once', async () => {
+    const link = (await createLink({ content: 'Lunch at 12?' })).json();
+    const respond = (userId: string) =>
+      testApp.request(userId, {
+        method: 'POST',
+        url: `/api/messages/${link.linkToken}/respond`,
+        payload: { action: 'accept' },
+      });
+
+    const accepted = await respond('bob');
+    assert.equal(accepted.statusCode, 200);
+    assert.equal(accepted.json().status, 'accepted');
+
+    assert.equal((await respond('carol')).statusCode, 410);
+    assert.equal((await respond('bob')).statusCode, 410);
+
+    const message = await testApp.db.query.messages.findFirst({
+      where: eq(schema.messages.id, link.id),
+    });
+    assert.equal(message?.recipientId, 'bob');
+    assert.equal(message?.linkUsed, true);
+  });
+});
+
+describe('POST /api/messages/:id/accept', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes], ['alice', 'bob', 'carol']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const createLink = async (body: Record<string, unknown> = {}) =>
+    (
+      await testApp.request('alice', {
+        method: 'POST',
+        url: '/api/messages/link',
+        payload: { content: 'Lunch at 12?', ...body },
+      })
+    ).json();
+
+  const accept = (userId: string, id: string) =>
+    testApp.request(userId, { method: 'POST', url: `/api/messages/${id}/accept` });
+
+  const receiptsFor = async (messageId: string) =>
+    testApp.db.select().from(schema.consentReceipts).where(eq(schema.consentReceipts.messageId, messageId));
+
+  it('accepts a pending message once and issues one receipt', async () => {
+    const link = await createLink();
+
+    const accepted = await accept('bob', link.id);
+    assert.equal(accepted.statusCode, 200);
+    assert.equal(accepted.json().recipientId, 'bob');
+
+    assert.equal((await accept('bob', link.id)).statusCode, 409);
+    assert.equal((await accept('carol', link.id)).statusCode, 403);
+    assert.equal((await receiptsFor(link.id)).length, 1);
+  });
+
+  it('does not accept answered messages', async () => {
+    const link = await createLink({ singleUse: false });
+    await testApp.request('bob', {
+      method: 'POST',
+      url: `/api/messages/${link.linkToken}/respond`,
+      payload: { action: 'reject' },
+    });
+
+    assert.equal((await accept('bob', link.id)).statusCode, 409);
+    assert.equal((await receiptsFor(link.id)).length, 0);
+  });
+
+  it('does not accept messages whose link expired', async () => {
+    const link = await createLink();
+    await testApp.db
+      .update(schema.messages)
+      .set({ linkExpiresAt: new Date(Date.now() - 1000) })
+      .where(eq(schema.messages.id, link.id));
+
+    assert.equal((await accept('bob', link.id)).statusCode, 410);
+    assert.equal((await receiptsFor(link.id)).length, 0);
+  });
+});
+
+describe('group message answers', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes], ['alice', 'bob', 'carol']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const createGroup = async () =>
+    (
+      await testApp.request('alice', {
+        method: 'POST',
+        url: '/api/messages/group',
+        payload: { content: 'Team lunch at 12?', recipientIds: ['bob', 'carol'] },
+      })
+    ).json();
+
+  const answer = (userId: string, id: string, action: 'accept' | 'reject') =>
+    testApp.request(userId, { method: 'POST', url: `/api/messages/${id}/${action}` });
+
+  it('lets each recipient answer only once', async () => {
+    const group = await createGroup();
+
+    assert.equal((await answer('bob', group.id, 'accept')).statusCode, 200);
+    assert.equal((await answer('bob', group.id, 'reject')).statusCode, 409);
+    assert.equal((await answer('bob', group.id, 'accept')).statusCode, 409);
+
+    const recipient = await testApp.db.query.messageRecipients.findFirst({
+      where: eq(schema.messageRecipients.recipientId, 'bob'),
+    });
+    assert.equal(recipient?.status, 'accepted');
+    assert.equal((await testApp.db.select().from(schema.consentReceipts)).length, 1);
+  });
+
+  it('does not accept after the group link expired', async () => {
+    const group = await createGroup();
+    await testApp.db
+      .update(schema.messages)
+      .set({ linkExpiresAt: new Date(Date.now() - 1000) })
+      .where(eq(schema.messages.id, group.id));
+
+    assert.equal((await answer('carol', group.id, 'accept')).statusCode, 410);
+  });
+});
+
+describe('POST /api/messages/:id/reject', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes, registerConsentReceiptRoutes], ['alice', 'bob']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const createLink = async () =>
+    (
+      await testApp.request('alice', {
+        method: 'POST',
+        url: '/api/messages/link',
+        payload: { content: 'Lunch at 12?', singleUse: false },
+      })
+    ).json();
+
+  const answer = (action: 'accept' | 'reject', id: string) =>
+    testApp.request('bob', { method: 'POST', url: `/api/messages/${id}/${action}` });
+
+  it('rejects a pending message', async () => {
+    const link = await createLink();
+
+    const rejected = await answer('reject', link.id);
+    assert.equal(rejected.statusCode, 200);
+    assert.equal(rejected.json().status, 'rejected');
+  });
+
+  it('leaves given consent to be withdrawn through revoke', async () => {
+    const link = await createLink();
+    await answer('accept', link.id);
+
+    assert.equal((await answer('reject', link.id)).statusCode, 409);
+
+    const message = await testApp.db.query.messages.findFirst({
+      where: eq(schema.messages.id, link.id),
+    });
+    assert.equal(message?.status, 'accepted');
+
+    const receipt = (
+      await testApp.request('bob', { method: 'GET', url: `/api/messages/${link.id}/receipt` })
+    ).json();
+    const verified = await testApp.request(null, {
+      method: 'POST',
+      url: '/api/receipts/verify',
+      payload: { payload: receipt.payload, signature: receipt.signature, keyId: receipt.keyId },
+    });
+    assert.equal(verified.json().valid, true);
+  });
+
+  it('answers a receipt check without a body with 400', async () => {
+    const response = await testApp.request(null, { method: 'POST', url: '/api/receipts/verify' });
+    assert.equal(response.statusCode, 400);
+  });
+});
+
+describe('GET /api/messages/:id/history', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes], ['alice', 'bob']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it("shows network details of the sender's own events only", async () => {
+    const link = (
+      await testApp.request('alice', {
+        method: 'POST',
+        url: '/api/messages/link',
+        payload: { content: 'Lunch at 12?' },
+        headers: { 'user-agent': 'alice-phone' },
+      })
+    ).json();
+    await testApp.request(null, {
+      method: 'GET',
+      url: `/api/messages/link/${link.linkToken}`,
+      headers: { 'user-agent': 'anonymous-browser' },
+    });
+    await testApp.request('bob', {
+      method: 'POST',
+      url: `/api/messages/${link.linkToken}/respond`,
+      payload: { action: 'accept' },
+      headers: { 'user-agent': 'bob-phone' },
+    });
+
+    const { events } = (
+      await testApp.request('alice', { method: 'GET', url: `/api/messages/${link.id}/history` })
+    ).json();
+
+    assert.deepEqual(
+      events.map((event: { type: string; actorId: string | null; userAgent?: string }) => [
+        event.type,
+        event.actorId,
+        event.userAgent,
+      ]),
+      [
+        ['created', 'alice', 'alice-phone'],
+        ['link_opened', null, undefined],
+        ['accepted', 'bob', undefined],
+        ['link_used', 'bob', undefined],
+      ]
+    );
+    assert.ok(events.slice(1).every((event: Record<string, unknown>) => !('ipAddress' in event)));
+  });
+});
+
+describe('push notifications from message routes', () => {
+  let testApp: TestApp;
+  const stalledDeliveries: string[] = [];
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerMessageRoutes], ['alice', 'bob']);
+    // A provider that never answers, like an unresponsive gateway
+    setPushProviders([
+      {
+        name: 'stalled',
+        supports: () => true,
+        send: (tokens) => {
+          stalledDeliveries.push(...tokens.map((token) => token.token));
+          return new Promise(() => {});
+        },
+      },
+    ]);
+    await testApp.db.insert(schema.pushTokens).values({ userId: 'alice', token: 'alice-phone', platform: 'ios' });
+  });
+
+  afterEach(async () => {
+    setPushProviders(null);
+    await testApp.close();
+  });
+
+  it('answer without waiting for delivery', async () => {
+    const link = (
+      await testApp.request('alice', {
+        method: 'POST',
+        url: '/api/messages/link',
+        payload: { content: 'Lunch at 12?' },
+      })
+    ).json();
+
+    const countered = await testApp.request('bob', {
+      method: 'POST',
+      url: `/api/messages/${link.id}/counter`,
+      payload: { content: 'Yes, but at 13:00' },
+    });
+
+    assert.equal(countered.statusCode, 200);
+    assert.deepEqual(stalledDeliveries, ['alice-phone']);
+  });
+});
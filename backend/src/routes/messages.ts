@@ -1,10 +1,550 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, or } from 'drizzle-orm';
+import { eq, and, or, asc, inArray } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
 import { shortenLink, obfuscateUrl, generateShareableMessage } from '../utils/link-utils.js';
+import {
+  issueConsentReceipt,
+  resolveConsentChannel,
+  type ConsentChannel,
+} from '../utils/consent-receipts.js';
+import { dispatchNotification } from '../utils/notifications.js';
+import { recordMessageEvent } from '../utils/message-events.js';
+import { publishMessageStatus } from '../utils/realtime.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import { isValidEmail } from '../middleware/auth-error-handler.js';
+import { sendMail, messageInvitationEmail } from '../mail/index.js';
+import { getOrCreateShortLink } from '../utils/short-links.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
+import {
+  MAX_GROUP_RECIPIENTS,
+  MIN_GROUP_RECIPIENTS,
+  describeGroup,
+  findGroupRecipient,
+  refreshGroupStatus,
+} from '../utils/group-messages.js';
+import {
+  TemplateError,
+  findVisibleTemplate,
+  renderTemplate,
+  type TemplateVariables,
+} from '../utils/message-templates.js';
+import {
+  FormError,
+  normalizeConsentForm,
+  validateFormAnswers,
+  type ConsentForm,
+  type FormAnswers,
+} from '../utils/consent-forms.js';
+import { formatAttachment, listAttachments } from '../utils/attachments.js';
+import { MAX_THREAD_LENGTH, describeThread, getThreadMessages } from '../utils/message-threads.js';
+import {
+  EncryptionError,
+  assertValidCiphertext,
+  contentPreview,
+  listKeyEnvelopes,
+  storeKeyEnvelopes,
+  usersWithDeviceKeys,
+  validateKeyEnvelopes,
+  type KeyEnvelopeInput,
+} from '../utils/message-encryption.js';
+
+type ShareMethod = 'whatsapp' | 'email' | 'telegram' | 'sms';
+
+const SHARE_METHODS: ShareMethod[] = ['whatsapp', 'email', 'telegram', 'sms'];
+
+/**
+ * Returns the user's sharing preferences, creating the defaults on first use
+ */
+async function getOrCreateSharingPreferences(app: App, userId: string) {
+  let preferences = await app.db.query.userSharingPreferences.findFirst({
+    where: eq(schema.userSharingPreferences.userId, userId),
+  });
+
+  // Create default preferences if not found
+  if (!preferences) {
+    const [created] = await app.db
+      .insert(schema.userSharingPreferences)
+      .values({
+        userId,
+        obfuscateLinks: true,
+      })
+      .returning();
+    preferences = created;
+  }
+
+  return preferences;
+}
+
+/**
+ * Builds the full, short and display URLs plus per-platform share texts for a message
+ */
+async function buildShareLinks(
+  app: App,
+  sender: { id: string; name?: string | null },
+  message: typeof schema.messages.$inferSelect
+) {
+  // Build share URLs - full and shortened
+  const fullUrl = `https://acceptconnect.app/message/${message.linkToken}`;
+  const shortLink = await getOrCreateShortLink(app, message);
+  const shortened = shortenLink(message.linkToken, shortLink.code);
+
+  // Get user preferences for link obfuscation
+  const preferences = await getOrCreateSharingPreferences(app, sender.id);
+
+  // Apply obfuscation if enabled
+  const displayUrl = preferences.obfuscateLinks
+    ? obfuscateUrl(fullUrl)
+    : fullUrl;
+
+  // Generate shareable messages for different platforms
+  const shareMessages = generateShareableMessage({
+    fullUrl,
+    senderName: sender.name || 'A user',
+    message: contentPreview(message),
+    obfuscate: preferences.obfuscateLinks,
+  });
+
+  const allowedMethods = preferences.allowedShareMethods || ['whatsapp'];
+
+  return {
+    urls: {
+      full: fullUrl,
+      short: shortened.displayUrl,
+      display: displayUrl,
+    },
+    shortCode: shortLink.code,
+    shareMessages: Object.fromEntries(
+      Object.entries(shareMessages).filter(([method]) =>
+        allowedMethods.includes(method as ShareMethod)
+      )
+    ) as Partial<Record<ShareMethod, string>>,
+  };
+}
+
+/**
+ * Resolves the text of a new message from free text or a template, and validates its optional form
+ * A template takes precedence over content; replies with an error and returns null when the input is invalid
+ * Encrypted content is stored as sent; templates are rendered here, so they cannot be combined with it
+ */
+async function resolveMessageContent(
+  app: App,
+  reply: FastifyReply,
+  userId: string,
+  input: {
+    content?: string;
+    templateId?: string;
+    variables?: TemplateVariables;
+    form?: unknown;
+    encrypted?: boolean;
+  }
+): Promise<{ content: string; templateId: string | null; form: ConsentForm | null; encrypted: boolean } | null> {
+  let form: ConsentForm | null = null;
+
+  if (input.form !== undefined && input.form !== null) {
+    try {
+      form = normalizeConsentForm(input.form);
+    } catch (error) {
+      if (error instanceof FormError) {
+        reply.status(400).send({ error: error.message });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  if (input.encrypted === true) {
+    if (input.templateId) {
+      reply.status(400).send({ error: 'Templates cannot be used for encrypted messages' });
+      return null;
+    }
+
+    try {
+      assertValidCiphertext(input.content);
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        reply.status(400).send({ error: error.message });
+        return null;
+      }
+      throw error;
+    }
+
+    return { content: input.content, templateId: null, form, encrypted: true };
+  }
+
+  if (!input.templateId) {
+    const content = (input.content ?? '').trim();
+    if (content.length === 0) {
+      reply.status(400).send({ error: 'Content is required' });
+      return null;
+    }
+    return { content, templateId: null, form, encrypted: false };
+  }
+
+  const template = await findVisibleTemplate(app, userId, input.templateId);
+
+  if (!template) {
+    reply.status(404).send({ error: 'Template not found' });
+    return null;
+  }
+
+  try {
+    return {
+      content: renderTemplate(template.body, input.variables || {}),
+      templateId: template.id,
+      form,
+      encrypted: false,
+    };
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      reply.status(400).send({ error: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validates the key envelopes of an encrypted message; plaintext messages take none
+ * Recipients must have registered a device key, and each gets at least one envelope
+ * Replies with an error and returns null when the envelopes do not fit
+ */
+async function resolveKeyEnvelopes(
+  app: App,
+  reply: FastifyReply,
+  encrypted: boolean,
+  keys: unknown,
+  senderId: string,
+  recipientIds: string[]
+): Promise<KeyEnvelopeInput[] | null> {
+  if (!encrypted) {
+    if (keys !== undefined && keys !== null) {
+      reply.status(400).send({ error: 'keys are only accepted with encrypted content' });
+      return null;
+    }
+    return [];
+  }
+
+  const ready = await usersWithDeviceKeys(app, recipientIds);
+  if (ready.length !== recipientIds.length) {
+    reply.status(409).send({ error: 'A recipient has not set up encryption on any device' });
+    return null;
+  }
+
+  try {
+    return await validateKeyEnvelopes(app, keys, [senderId, ...recipientIds], recipientIds);
+  } catch (error) {
+    if (error instanceof EncryptionError) {
+      reply.status(400).send({ error: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validates the answers to a message's form when the recipient accepts
+ * Messages without a form take no answers; replies 400 and returns null when the answers do not fit
+ */
+function readFormAnswers(
+  reply: FastifyReply,
+  message: typeof schema.messages.$inferSelect,
+  answers: unknown
+): { answers: FormAnswers | null } | null {
+  if (!message.form) {
+    return { answers: null };
+  }
+
+  try {
+    return { answers: validateFormAnswers(message.form, answers) };
+  } catch (error) {
+    if (error instanceof FormError) {
+      reply.status(400).send({ error: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Refuses answers once the message's link has expired or its single use was spent
+ * Replies 410 and returns false in that case
+ */
+async function checkLinkOpen(
+  app: App,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  message: typeof schema.messages.$inferSelect
+): Promise<boolean> {
+  if (message.linkExpiresAt && new Date() > message.linkExpiresAt) {
+    app.logger.warn({ messageId: message.id }, 'Link expired');
+    await recordMessageEvent(app, request, {
+      messageId: message.id,
+      type: 'expired',
+      metadata: { linkExpiresAt: message.linkExpiresAt.toISOString() },
+    });
+    reply.status(410).send({ error: 'Link has expired' });
+    return false;
+  }
+
+  if (message.singleUse && message.linkUsed) {
+    app.logger.warn({ messageId: message.id }, 'Single-use link already used');
+    reply.status(410).send({ error: 'Link has already been used' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Records one recipient's answer to a group message and updates the aggregate state
+ * Each recipient answers once, while still pending
+ * The sender is notified once the group as a whole accepts or rejects
+ */
+async function respondAsGroupRecipient(
+  app: App,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  message: typeof schema.messages.$inferSelect,
+  user: { id: string; name?: string | null },
+  action: 'accept' | 'reject',
+  channel: ConsentChannel,
+  answers?: unknown
+) {
+  const recipient = await findGroupRecipient(app, message.id, user.id);
+
+  if (!recipient) {
+    return reply.status(403).send({ error: `Not authorized to ${action} this message` });
+  }
+
+  // An answer is final; consent already given is withdrawn through revoke
+  if (recipient.status !== 'pending') {
+    return reply.status(409).send({ error: `Cannot ${action} ${recipient.status} message` });
+  }
+
+  if (action === 'accept' && (await isBlockedBetween(app, message.senderId, user.id))) {
+    return reply.status(403).send({ error: 'Cannot accept messages from this user' });
+  }
+
+  const form = action === 'accept' ? readFormAnswers(reply, message, answers) : { answers: null };
+  if (!form) return;
+
+  const status = action === 'accept' ? 'accepted' : 'rejected';
+  const respondedAt = new Date();
+
+  const [updated] = await app.db
+    .update(schema.messageRecipients)
+    .set({ status, respondedAt, formAnswers: form.answers, updatedAt: respondedAt })
+    .where(
+      and(eq(schema.messageRecipients.id, recipient.id), eq(schema.messageRecipients.status, 'pending'))
+    )
+    .returning();
+
+  if (!updated) {
+    return reply.status(409).send({ error: 'Message has already been answered' });
+  }
+
+  // Each group member gets their own signed proof of consent
+  if (status === 'accepted') {
+    await issueConsentReceipt(
+      app,
+      { ...message, recipientId: user.id, formAnswers: form.answers, updatedAt: respondedAt },
+      channel
+    );
+  }
+
+  await recordMessageEvent(app, request, {
+    messageId: message.id,
+    type: status,
+    actorId: user.id,
+    metadata: { channel, group: true },
+  });
+
+  const { summary, changed } = await refreshGroupStatus(app, message);
+
+  publishMessageStatus(app, message, {
+    status: summary.state,
+    actor_id: user.id,
+    recipient_status: status,
+    is_group: true,
+  });
+
+  if (changed && summary.state !== 'pending') {
+    dispatchNotification(app, message.senderId, {
+      title: summary.state === 'accepted' ? 'Group request accepted' : 'Group request declined',
+      body: `${summary.accepted} of ${summary.total} accepted: ${contentPreview(message)}`,
+      data: { messageId: message.id, type: `group_message_${summary.state}` },
+    });
+  }
+
+  app.logger.info(
+    { messageId: message.id, userId: user.id, status, groupState: summary.state },
+    'Group message response recorded'
+  );
+
+  return {
+    id: message.id,
+    status: summary.state,
+    recipient: {
+      user_id: updated.recipientId,
+      status: updated.status,
+      responded_at: updated.respondedAt,
+      form_answers: updated.formAnswers,
+    },
+    summary,
+  };
+}
+
+/**
+ * Answers a pending message with a counter-proposal ("yes, but at 13:00")
+ * Marks the message as countered and sends a new pending message back to its sender in the same thread
+ * An encrypted proposal carries key envelopes for the original sender's devices
+ */
+async function createCounterProposal(
+  app: App,
+  request: FastifyRequest,
+  reply: FastifyReply,
+  message: typeof schema.messages.$inferSelect,
+  user: { id: string; name?: string | null },
+  input: {
+    content?: string;
+    templateId?: string;
+    variables?: TemplateVariables;
+    form?: unknown;
+    encrypted?: boolean;
+    keys?: unknown;
+  }
+) {
+  if (message.isGroup) {
+    return reply.status(400).send({ error: 'Group messages cannot be countered' });
+  }
+
+  if (message.senderId === user.id) {
+    return reply.status(400).send({ error: 'Cannot counter your own message' });
+  }
+
+  if (message.recipientId && message.recipientId !== user.id) {
+    return reply.status(403).send({ error: 'Not authorized to counter this message' });
+  }
+
+  if (message.status !== 'pending') {
+    return reply.status(409).send({ error: `Cannot counter ${message.status} message` });
+  }
+
+  if (await isBlockedBetween(app, message.senderId, user.id)) {
+    return reply.status(403).send({ error: 'Cannot reply to messages from this user' });
+  }
+
+  const threadId = message.threadId ?? message.id;
+
+  if ((await getThreadMessages(app, threadId)).length >= MAX_THREAD_LENGTH) {
+    return reply.status(409).send({
+      error: `A negotiation can have at most ${MAX_THREAD_LENGTH} proposals`,
+    });
+  }
+
+  const resolved = await resolveMessageContent(app, reply, user.id, input);
+  if (!resolved) return;
+
+  const envelopes = await resolveKeyEnvelopes(
+    app,
+    reply,
+    resolved.encrypted,
+    input.keys,
+    user.id,
+    [message.senderId]
+  );
+  if (!envelopes) return;
+
+  const allowed = await enforceRateLimit(app, request, reply, 'message-create', {
+    userId: user.id,
+    target: message.senderId,
+  });
+  if (!allowed) return;
+
+  const counter = await app.db.transaction(async (tx) => {
+    await tx
+      .update(schema.messages)
+      .set({
+        status: 'countered',
+        recipientId: message.recipientId || user.id,
+        threadId,
+        linkUsed: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.messages.id, message.id));
+
+    const [created] = await tx
+      .insert(schema.messages)
+      .values({
+        senderId: user.id,
+        recipientId: message.senderId,
+        content: resolved.content,
+        encrypted: resolved.encrypted,
+        templateId: resolved.templateId,
+        form: resolved.form,
+        status: 'pending',
+        inReplyToId: message.id,
+        threadId,
+        linkToken: randomBytes(32).toString('hex'),
+        linkExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        singleUse: true,
+      })
+      .returning();
+
+    await storeKeyEnvelopes(tx, created.id, envelopes);
+
+    return created;
+  });
+
+  await recordMessageEvent(app, request, {
+    messageId: message.id,
+    type: 'countered',
+    actorId: user.id,
+    metadata: { counterMessageId: counter.id },
+  });
+
+  if (!message.linkUsed) {
+    await recordMessageEvent(app, request, {
+      messageId: message.id,
+      type: 'link_used',
+      actorId: user.id,
+    });
+  }
+
+  await recordMessageEvent(app, request, {
+    messageId: counter.id,
+    type: 'created',
+    actorId: user.id,
+    metadata: { inReplyToId: message.id, threadId },
+  });
+
+  publishMessageStatus(app, { ...message, threadId }, {
+    status: 'countered',
+    actor_id: user.id,
+    counter_message_id: counter.id,
+  });
+
+  dispatchNotification(app, message.senderId, {
+    title: 'Counter-proposal received',
+    body: `${user.name || 'A user'}: ${contentPreview(counter)}`,
+    data: { messageId: counter.id, type: 'message_countered' },
+  });
+
+  app.logger.info(
+    { messageId: message.id, counterMessageId: counter.id, userId: user.id, threadId },
+    'Message countered'
+  );
+
+  return {
+    id: message.id,
+    status: 'countered',
+    counterMessage: counter,
+    thread: await describeThread(app, counter),
+  };
+}
 
 export function registerMessageRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -12,38 +552,71 @@ export function registerMessageRoutes(app: App) {
   /**
    * POST /api/messages - Create a new message
    * Supports consent flow (no recipient) and direct recipient flow
-   * For consent flow: content is required, recipientId is NOT required
+   * For consent flow: content (or templateId with variables) is required, recipientId is NOT required
    * Link token is always generated for consent messages
+   * An optional form adds structured questions the recipient answers when accepting
+   * With encrypted: true, content is ciphertext and keys holds the key envelopes (see utils/message-encryption.ts)
    */
   app.fastify.post('/api/messages', async (request: FastifyRequest, reply: FastifyReply) => {
     const session = await requireAuth(request, reply);
     if (!session) return;
 
-    const { content, recipientEmail, recipientId, linkExpiresIn, singleUse } =
-      request.body as {
-        content: string;
-        recipientEmail?: string;
-        recipientId?: string;
-        linkExpiresIn?: number;
-        singleUse?: boolean;
-      };
+    const {
+      content: text,
+      recipientEmail,
+      recipientId,
+      linkExpiresIn,
+      singleUse,
+      templateId,
+      variables,
+      form,
+      encrypted,
+      keys,
+    } = request.body as {
+      content?: string;
+      recipientEmail?: string;
+      recipientId?: string;
+      linkExpiresIn?: number;
+      singleUse?: boolean;
+      templateId?: string;
+      variables?: TemplateVariables;
+      form?: ConsentForm;
+      encrypted?: boolean;
+      keys?: KeyEnvelopeInput[];
+    };
 
     app.logger.info(
       {
         senderId: session.user.id,
         recipientEmail,
         recipientId,
-        hasContent: !!content,
+        templateId,
+        hasContent: !!text,
+        encrypted: encrypted === true,
       },
       'Creating message'
     );
 
-    if (!content || content.trim().length === 0) {
-      return reply.status(400).send({ error: 'Content is required' });
-    }
+    const resolved = await resolveMessageContent(app, reply, session.user.id, {
+      content: text,
+      templateId,
+      variables,
+      form,
+      encrypted,
+    });
+    if (!resolved) return;
+
+    const { content } = resolved;
+
+    const allowed = await enforceRateLimit(app, request, reply, 'message-create', {
+      userId: session.user.id,
+      target: recipientId || recipientEmail,
+    });
+    if (!allowed) return;
 
     try {
       let finalRecipientId: string | null = null;
+      let invitedEmail: string | null = null;
 
       // If recipientEmail is provided, look up the user
       if (recipientEmail) {
@@ -51,96 +624,137 @@ export function registerMessageRoutes(app: App) {
           where: eq(authSchema.user.email, recipientEmail),
         });
 
-        if (!recipientUser) {
-          app.logger.warn(
+        if (recipientUser) {
+          finalRecipientId = recipientUser.id;
+        } else {
+          // Not a user yet: invite them by email to respond through the link
+          if (!isValidEmail(recipientEmail)) {
+            return reply.status(400).send({
+              error: 'Invalid recipient email',
+            });
+          }
+
+          // The email would have to carry the content key, which the server must never see
+          if (resolved.encrypted) {
+            return reply.status(400).send({
+              error: 'Encrypted messages to people without an account must be shared as a link',
+            });
+          }
+
+          app.logger.info(
             { recipientEmail },
-            'Recipient email not found'
+            'Recipient email not registered, sending invitation'
           );
-          return reply.status(404).send({
-            error: 'Recipient user not found',
-          });
+          invitedEmail = recipientEmail;
         }
-
-        finalRecipientId = recipientUser.id;
       } else if (recipientId) {
         finalRecipientId = recipientId;
       }
       // else: finalRecipientId remains null for consent flow
 
+      if (finalRecipientId && (await isBlockedBetween(app, session.user.id, finalRecipientId))) {
+        app.logger.warn(
+          { senderId: session.user.id, recipientId: finalRecipientId },
+          'Message blocked between sender and recipient'
+        );
+        return reply.status(403).send({ error: 'Cannot send messages to this user' });
+      }
+
+      const envelopes = await resolveKeyEnvelopes(
+        app,
+        reply,
+        resolved.encrypted,
+        keys,
+        session.user.id,
+        finalRecipientId ? [finalRecipientId] : []
+      );
+      if (!envelopes) return;
+
       // Always generate link token for message sharing
       const linkToken = randomBytes(32).toString('hex');
       // Default expiration: 24 hours from now
       const expirationMs = linkExpiresIn || 24 * 60 * 60 * 1000;
       const linkExpiresAt = new Date(Date.now() + expirationMs);
 
-      const [message] = await app.db
-        .insert(schema.messages)
-        .values({
-          senderId: session.user.id,
-          recipientId: finalRecipientId,
-          content,
-          status: 'pending',
-          linkToken,
-          linkExpiresAt,
-          singleUse: singleUse ?? true, // Default to single-use for consent flow
-        })
-        .returning();
+      const message = await app.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(schema.messages)
+          .values({
+            senderId: session.user.id,
+            recipientId: finalRecipientId,
+            invitedEmail,
+            content,
+            encrypted: resolved.encrypted,
+            templateId: resolved.templateId,
+            form: resolved.form,
+            status: 'pending',
+            linkToken,
+            linkExpiresAt,
+            singleUse: singleUse ?? true, // Default to single-use for consent flow
+          })
+          .returning();
+
+        await storeKeyEnvelopes(tx, created.id, envelopes);
+
+        return created;
+      });
+
+      await recordMessageEvent(app, request, {
+        messageId: message.id,
+        type: 'created',
+        actorId: session.user.id,
+        metadata: { singleUse: message.singleUse, linkExpiresAt: linkExpiresAt.toISOString() },
+      });
 
       app.logger.info(
         { messageId: message.id, linkToken: !!linkToken, recipientId: finalRecipientId },
         'Message created successfully'
       );
 
-      // Build share URLs - full and shortened
+      // Let a known recipient know a request is waiting for them
+      if (finalRecipientId) {
+        dispatchNotification(app, finalRecipientId, {
+          title: 'New consent request',
+          body: `${session.user.name || 'A user'}: ${contentPreview(message)}`,
+          data: { messageId: message.id, type: 'message_received' },
+        });
+      }
+
       const fullUrl = `https://acceptconnect.app/message/${linkToken}`;
-      const shortened = shortenLink(linkToken);
 
-      // Get user preferences for link obfuscation
-      let preferences = await app.db.query.userSharingPreferences.findFirst({
-        where: eq(schema.userSharingPreferences.userId, session.user.id),
-      });
+      let invitation: { email: string; sent: boolean } | undefined;
 
-      // Create default preferences if not found
-      if (!preferences) {
-        const [created] = await app.db
-          .insert(schema.userSharingPreferences)
-          .values({
-            userId: session.user.id,
-            obfuscateLinks: true,
+      if (invitedEmail) {
+        const delivery = await sendMail(
+          invitedEmail,
+          messageInvitationEmail({
+            senderName: session.user.name || 'A user',
+            content,
+            respondUrl: fullUrl,
+            expiresAt: linkExpiresAt,
           })
-          .returning();
-        preferences = created;
+        );
+
+        if (!delivery.accepted) {
+          app.logger.error(
+            { messageId: message.id, error: delivery.error },
+            'Failed to send message invitation email'
+          );
+        }
+
+        invitation = { email: invitedEmail, sent: delivery.accepted };
       }
 
-      // Apply obfuscation if enabled
-      const displayUrl = preferences.obfuscateLinks
-        ? obfuscateUrl(fullUrl)
-        : fullUrl;
-
-      // Generate shareable messages for different platforms
-      const shareMessages = generateShareableMessage({
-        fullUrl,
-        senderName: session.user.name || 'A user',
-        obfuscate: preferences.obfuscateLinks,
-        shorten: false,
-      });
+      const share = await buildShareLinks(app, session.user, message);
 
       // Return message with link options
       return {
         ...message,
         linkToken,
-        urls: {
-          full: fullUrl,
-          short: shortened.displayUrl,
-          display: displayUrl,
-        },
-        shareMessages: Object.fromEntries(
-          Object.entries(shareMessages).filter(([method]) =>
-            (preferences.allowedShareMethods || ['whatsapp']).includes(
-              method as 'whatsapp' | 'email' | 'telegram' | 'sms'
-            )
-          )
-        ),
+        ...(invitation && { invitation }),
+        urls: share.urls,
+        shortCode: share.shortCode,
+        shareMessages: share.shareMessages,
       };
     } catch (error) {
       app.logger.error(
@@ -151,9 +765,338 @@ export function registerMessageRoutes(app: App) {
     }
   });
 
+  /**
+   * POST /api/messages/link - Create a consent message and return its shareable link
+   * Accepts the predefined text as `message`, custom text as `content`, or a templateId with variables
+   * Optional shareMethod returns the ready-to-send text for that platform
+   * Encrypted content keeps its key in the link fragment; keys may only seal it to the sender's own devices
+   */
+  app.fastify.post('/api/messages/link', async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const {
+      message: predefinedText,
+      content,
+      expiresIn,
+      singleUse,
+      shareMethod,
+      templateId,
+      variables,
+      form,
+      encrypted,
+      keys,
+    } = (request.body || {}) as {
+      message?: string;
+      content?: string;
+      expiresIn?: number;
+      singleUse?: boolean;
+      shareMethod?: ShareMethod;
+      templateId?: string;
+      variables?: TemplateVariables;
+      form?: ConsentForm;
+      encrypted?: boolean;
+      keys?: KeyEnvelopeInput[];
+    };
+
+    app.logger.info(
+      { senderId: session.user.id, shareMethod, templateId, hasContent: !!(content ?? predefinedText) },
+      'Creating message link'
+    );
+
+    if (expiresIn !== undefined && (!Number.isFinite(expiresIn) || expiresIn <= 0)) {
+      return reply.status(400).send({ error: 'expiresIn must be a positive number of milliseconds' });
+    }
+
+    if (shareMethod && !SHARE_METHODS.includes(shareMethod)) {
+      return reply.status(400).send({ error: 'Invalid share method' });
+    }
+
+    const resolved = await resolveMessageContent(app, reply, session.user.id, {
+      content: content ?? predefinedText,
+      templateId,
+      variables,
+      form,
+      encrypted,
+    });
+    if (!resolved) return;
+
+    const envelopes = await resolveKeyEnvelopes(
+      app,
+      reply,
+      resolved.encrypted,
+      keys,
+      session.user.id,
+      []
+    );
+    if (!envelopes) return;
+
+    const allowed = await enforceRateLimit(app, request, reply, 'message-create', {
+      userId: session.user.id,
+    });
+    if (!allowed) return;
+
+    try {
+      // Check the platform before creating anything
+      if (shareMethod) {
+        const preferences = await getOrCreateSharingPreferences(app, session.user.id);
+        if (!(preferences.allowedShareMethods || ['whatsapp']).includes(shareMethod)) {
+          app.logger.warn(
+            { senderId: session.user.id, shareMethod },
+            'Share method not allowed by user preferences'
+          );
+          return reply.status(403).send({
+            error: `Sharing via ${shareMethod} is not enabled`,
+          });
+        }
+      }
+
+      const linkToken = randomBytes(32).toString('hex');
+      // Default expiration: 24 hours from now
+      const linkExpiresAt = new Date(Date.now() + (expiresIn || 24 * 60 * 60 * 1000));
+
+      const message = await app.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(schema.messages)
+          .values({
+            senderId: session.user.id,
+            content: resolved.content,
+            encrypted: resolved.encrypted,
+            templateId: resolved.templateId,
+            form: resolved.form,
+            status: 'pending',
+            linkToken,
+            linkExpiresAt,
+            singleUse: singleUse ?? true,
+          })
+          .returning();
+
+        await storeKeyEnvelopes(tx, created.id, envelopes);
+
+        return created;
+      });
+
+      await recordMessageEvent(app, request, {
+        messageId: message.id,
+        type: 'created',
+        actorId: session.user.id,
+        metadata: { singleUse: message.singleUse, linkExpiresAt: linkExpiresAt.toISOString() },
+      });
+
+      const share = await buildShareLinks(app, session.user, message);
+
+      app.logger.info({ messageId: message.id, shareMethod }, 'Message link created');
+
+      return {
+        id: message.id,
+        linkToken,
+        linkExpiresAt: message.linkExpiresAt,
+        singleUse: message.singleUse,
+        encrypted: message.encrypted,
+        url: share.urls.full,
+        urls: share.urls,
+        shortCode: share.shortCode,
+        ...(shareMethod && { shareMethod, shareMessage: share.shareMessages[shareMethod] }),
+        shareMessages: share.shareMessages,
+      };
+    } catch (error) {
+      app.logger.error(
+        { err: error, senderId: session.user.id },
+        'Failed to create message link'
+      );
+      throw error;
+    }
+  });
+
+  /**
+   * POST /api/messages/group - Ask several users for consent with one message
+   * Body: { content | templateId + variables, recipientIds, quorum?, linkExpiresIn?, form?, encrypted?, keys? }
+   * Without a quorum every recipient must accept; with one, that many acceptances suffice
+   * Encrypted content needs a key envelope for every recipient
+   */
+  app.fastify.post('/api/messages/group', async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const {
+      content: text,
+      recipientIds,
+      quorum,
+      linkExpiresIn,
+      templateId,
+      variables,
+      form,
+      encrypted,
+      keys,
+    } = (request.body || {}) as {
+      content?: string;
+      recipientIds?: string[];
+      quorum?: number;
+      linkExpiresIn?: number;
+      templateId?: string;
+      variables?: TemplateVariables;
+      form?: ConsentForm;
+      encrypted?: boolean;
+      keys?: KeyEnvelopeInput[];
+    };
+
+    const uniqueRecipientIds = Array.isArray(recipientIds)
+      ? [...new Set(recipientIds.filter((id) => typeof id === 'string' && id.length > 0))]
+      : [];
+
+    app.logger.info(
+      { senderId: session.user.id, recipientCount: uniqueRecipientIds.length, quorum },
+      'Creating group message'
+    );
+
+    if (
+      uniqueRecipientIds.length < MIN_GROUP_RECIPIENTS ||
+      uniqueRecipientIds.length > MAX_GROUP_RECIPIENTS
+    ) {
+      return reply.status(400).send({
+        error: `recipientIds must list between ${MIN_GROUP_RECIPIENTS} and ${MAX_GROUP_RECIPIENTS} users`,
+      });
+    }
+
+    if (uniqueRecipientIds.includes(session.user.id)) {
+      return reply.status(400).send({ error: 'Cannot include yourself as a recipient' });
+    }
+
+    if (
+      quorum !== undefined &&
+      (!Number.isInteger(quorum) || quorum < 1 || quorum > uniqueRecipientIds.length)
+    ) {
+      return reply.status(400).send({
+        error: 'quorum must be a whole number between 1 and the number of recipients',
+      });
+    }
+
+    if (linkExpiresIn !== undefined && (!Number.isFinite(linkExpiresIn) || linkExpiresIn <= 0)) {
+      return reply.status(400).send({ error: 'linkExpiresIn must be a positive number of milliseconds' });
+    }
+
+    const resolved = await resolveMessageContent(app, reply, session.user.id, {
+      content: text,
+      templateId,
+      variables,
+      form,
+      encrypted,
+    });
+    if (!resolved) return;
+
+    const { content } = resolved;
+
+    const allowed = await enforceRateLimit(app, request, reply, 'message-create', {
+      userId: session.user.id,
+    });
+    if (!allowed) return;
+
+    try {
+      const recipients = await app.db
+        .select({ id: authSchema.user.id })
+        .from(authSchema.user)
+        .where(inArray(authSchema.user.id, uniqueRecipientIds));
+
+      if (recipients.length !== uniqueRecipientIds.length) {
+        return reply.status(404).send({ error: 'One or more recipients not found' });
+      }
+
+      for (const recipientId of uniqueRecipientIds) {
+        if (await isBlockedBetween(app, session.user.id, recipientId)) {
+          app.logger.warn(
+            { senderId: session.user.id, recipientId },
+            'Group message blocked between sender and recipient'
+          );
+          return reply.status(403).send({ error: 'Cannot send messages to one or more recipients' });
+        }
+      }
+
+      const envelopes = await resolveKeyEnvelopes(
+        app,
+        reply,
+        resolved.encrypted,
+        keys,
+        session.user.id,
+        uniqueRecipientIds
+      );
+      if (!envelopes) return;
+
+      // One link for the whole group; it stays usable until every recipient answered
+      const linkToken = randomBytes(32).toString('hex');
+      const linkExpiresAt = new Date(Date.now() + (linkExpiresIn || 24 * 60 * 60 * 1000));
+
+      const message = await app.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(schema.messages)
+          .values({
+            senderId: session.user.id,
+            content,
+            encrypted: resolved.encrypted,
+            templateId: resolved.templateId,
+            form: resolved.form,
+            status: 'pending',
+            linkToken,
+            linkExpiresAt,
+            singleUse: false,
+            isGroup: true,
+            quorum: quorum ?? null,
+          })
+          .returning();
+
+        await storeKeyEnvelopes(tx, created.id, envelopes);
+
+        await tx.insert(schema.messageRecipients).values(
+          uniqueRecipientIds.map((recipientId) => ({
+            messageId: created.id,
+            recipientId,
+          }))
+        );
+
+        return created;
+      });
+
+      await recordMessageEvent(app, request, {
+        messageId: message.id,
+        type: 'created',
+        actorId: session.user.id,
+        metadata: {
+          group: true,
+          recipientCount: uniqueRecipientIds.length,
+          quorum: message.quorum,
+          linkExpiresAt: linkExpiresAt.toISOString(),
+        },
+      });
+
+      uniqueRecipientIds.forEach((recipientId) =>
+        dispatchNotification(app, recipientId, {
+          title: 'New group consent request',
+          body: `${session.user.name || 'A user'}: ${contentPreview(message)}`,
+          data: { messageId: message.id, type: 'message_received' },
+        })
+      );
+
+      app.logger.info(
+        { messageId: message.id, recipientCount: uniqueRecipientIds.length },
+        'Group message created'
+      );
+
+      return reply.status(201).send({
+        ...message,
+        url: `https://acceptconnect.app/message/${linkToken}`,
+        group: await describeGroup(app, message),
+      });
+    } catch (error) {
+      app.logger.error(
+        { err: error, senderId: session.user.id },
+        'Failed to create group message'
+      );
+      throw error;
+    }
+  });
+
   /**
    * GET /api/messages - List messages for current user
-   * Returns both sent and received messages
+   * Returns both sent and received messages, including group messages and counter-proposals
    */
   app.fastify.get(
     '/api/messages',
@@ -163,7 +1106,7 @@ export function registerMessageRoutes(app: App) {
 
       const { status, direction, limit = '50', offset = '0' } =
         request.query as {
-          status?: 'pending' | 'accepted' | 'rejected';
+          status?: 'pending' | 'accepted' | 'rejected' | 'revoked' | 'countered';
           direction?: 'sent' | 'received';
           limit?: string;
           offset?: string;
@@ -180,16 +1123,25 @@ export function registerMessageRoutes(app: App) {
 
         let whereClause;
 
+        // Received covers direct messages and group messages listing the user
+        const received = or(
+          eq(schema.messages.recipientId, session.user.id),
+          inArray(
+            schema.messages.id,
+            app.db
+              .select({ messageId: schema.messageRecipients.messageId })
+              .from(schema.messageRecipients)
+              .where(eq(schema.messageRecipients.recipientId, session.user.id))
+          )
+        );
+
         if (direction === 'sent') {
           whereClause = eq(schema.messages.senderId, session.user.id);
         } else if (direction === 'received') {
-          whereClause = eq(schema.messages.recipientId, session.user.id);
+          whereClause = received;
         } else {
           // Both sent and received
-          whereClause = or(
-            eq(schema.messages.senderId, session.user.id),
-            eq(schema.messages.recipientId, session.user.id)
-          );
+          whereClause = or(eq(schema.messages.senderId, session.user.id), received);
         }
 
         // Add status filter if provided
@@ -247,15 +1199,28 @@ export function registerMessageRoutes(app: App) {
       }
 
       // Verify user is either sender or recipient
+      const isGroupRecipient =
+        message.isGroup && !!(await findGroupRecipient(app, id, session.user.id));
       if (
         message.senderId !== session.user.id &&
-        message.recipientId !== session.user.id
+        message.recipientId !== session.user.id &&
+        !isGroupRecipient
       ) {
         return reply.status(403).send({ error: 'Not authorized' });
       }
 
       app.logger.info({ messageId: id }, 'Message fetched successfully');
-      return message;
+
+      const attachments = (await listAttachments(app, id)).map(formatAttachment);
+
+      if (message.isGroup) {
+        return { ...message, attachments, group: await describeGroup(app, message, session.user.id) };
+      }
+      return {
+        ...message,
+        attachments,
+        ...(message.threadId && { thread: await describeThread(app, message) }),
+      };
     } catch (error) {
       app.logger.error(
         { err: error, messageId: id, userId: session.user.id },
@@ -265,6 +1230,165 @@ export function registerMessageRoutes(app: App) {
     }
   });
 
+  /**
+   * GET /api/messages/:id/keys - Get the content key envelopes addressed to the current user's devices
+   * Only participants can ask; link recipients of link messages find the key in the link fragment instead
+   */
+  app.fastify.get('/api/messages/:id/keys', async (request: FastifyRequest, reply: FastifyReply) => {
+    const session = await requireAuth(request, reply);
+    if (!session) return;
+
+    const { id } = request.params as { id: string };
+
+    app.logger.info({ messageId: id, userId: session.user.id }, 'Fetching message key envelopes');
+
+    try {
+      const message = await app.db.query.messages.findFirst({
+        where: eq(schema.messages.id, id),
+      });
+
+      if (!message) {
+        return reply.status(404).send({ error: 'Message not found' });
+      }
+
+      const isGroupRecipient =
+        message.isGroup && !!(await findGroupRecipient(app, id, session.user.id));
+      if (
+        message.senderId !== session.user.id &&
+        message.recipientId !== session.user.id &&
+        !isGroupRecipient
+      ) {
+        return reply.status(403).send({ error: 'Not authorized' });
+      }
+
+      const keys = message.encrypted ? await listKeyEnvelopes(app, id, session.user.id) : [];
+
+      return { messageId: id, encrypted: message.encrypted, keys };
+    } catch (error) {
+      app.logger.error(
+        { err: error, messageId: id, userId: session.user.id },
+        'Failed to fetch message key envelopes'
+      );
+      throw error;
+    }
+  });
+
+  /**
+   * GET /api/messages/:id/history - Get the audit trail for a message
+   * Returns events in chronological order; only the sender can view it
+   * IP address and user agent are only included for the sender's own events
+   */
+  app.fastify.get(
+    '/api/messages/:id/history',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+
+      app.logger.info(
+        { messageId: id, userId: session.user.id },
+        'Fetching message history'
+      );
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        if (message.senderId !== session.user.id) {
+          return reply.status(403).send({ error: 'Not authorized' });
+        }
+
+        const events = await app.db
+          .select()
+          .from(schema.messageEvents)
+          .where(eq(schema.messageEvents.messageId, id))
+          .orderBy(asc(schema.messageEvents.createdAt));
+
+        app.logger.info(
+          { messageId: id, count: events.length },
+          'Message history fetched'
+        );
+
+        return {
+          messageId: id,
+          events: events.map((event) => ({
+            id: event.id,
+            type: event.eventType,
+            actorId: event.actorId,
+            // The recipient's and link openers' network details are theirs, not the sender's
+            ...(event.actorId === session.user.id && {
+              ipAddress: event.ipAddress,
+              userAgent: event.userAgent,
+            }),
+            metadata: event.metadata,
+            createdAt: event.createdAt,
+          })),
+          count: events.length,
+        };
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: id, userId: session.user.id },
+          'Failed to fetch message history'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/messages/:id/thread - Get the negotiation thread a message belongs to
+   * Returns every proposal, oldest first, and the thread state; only the two parties can view it
+   */
+  app.fastify.get(
+    '/api/messages/:id/thread',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+
+      app.logger.info(
+        { messageId: id, userId: session.user.id },
+        'Fetching message thread'
+      );
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        if (message.senderId !== session.user.id && message.recipientId !== session.user.id) {
+          return reply.status(403).send({ error: 'Not authorized' });
+        }
+
+        const thread = await describeThread(app, message);
+
+        app.logger.info(
+          { messageId: id, threadId: thread.summary.id, count: thread.summary.length },
+          'Message thread fetched'
+        );
+
+        return thread;
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: id, userId: session.user.id },
+          'Failed to fetch message thread'
+        );
+        throw error;
+      }
+    }
+  );
+
   /**
    * GET /api/messages/link/:token - Get message by link token
    * Validates expiration and single-use constraint
@@ -288,23 +1412,18 @@ export function registerMessageRoutes(app: App) {
           return reply.status(404).send({ error: 'Link not found' });
         }
 
-        // Check if link has expired
-        if (message.linkExpiresAt && new Date() > message.linkExpiresAt) {
-          app.logger.warn({ messageId: message.id }, 'Link expired');
-          return reply.status(410).send({ error: 'Link has expired' });
-        }
-
-        // Check if single-use link has been used
-        if (message.singleUse && message.linkUsed) {
-          app.logger.warn({ messageId: message.id }, 'Single-use link already used');
-          return reply.status(410).send({ error: 'Link has already been used' });
-        }
+        if (!(await checkLinkOpen(app, request, reply, message))) return;
 
         // Fetch sender information
         const sender = await app.db.query.user.findFirst({
           where: eq(authSchema.user.id, message.senderId),
         });
 
+        await recordMessageEvent(app, request, {
+          messageId: message.id,
+          type: 'link_opened',
+        });
+
         app.logger.info(
           { messageId: message.id, senderId: message.senderId },
           'Message link accessed'
@@ -314,13 +1433,19 @@ export function registerMessageRoutes(app: App) {
         return {
           id: message.id,
           content: message.content,
+          encrypted: message.encrypted,
           status: message.status,
           createdAt: message.createdAt,
+          isGroup: message.isGroup,
+          form: message.form,
+          // Metadata only; downloading requires signing in and presenting the link token
+          attachments: (await listAttachments(app, message.id)).map(formatAttachment),
           sender: {
             id: sender?.id,
             name: sender?.name,
             email: sender?.email,
           },
+          ...(message.isGroup && { group: await describeGroup(app, message) }),
         };
       } catch (error) {
         app.logger.error(
@@ -334,6 +1459,8 @@ export function registerMessageRoutes(app: App) {
 
   /**
    * POST /api/messages/:id/accept - Accept a message
+   * Body: { answers? } - required when the message has a form
+   * Only pending messages can be accepted, and not after their link expired or was used
    */
   app.fastify.post(
     '/api/messages/:id/accept',
@@ -342,6 +1469,7 @@ export function registerMessageRoutes(app: App) {
       if (!session) return;
 
       const { id } = request.params as { id: string };
+      const { answers } = (request.body || {}) as { answers?: FormAnswers };
 
       app.logger.info(
         { messageId: id, userId: session.user.id },
@@ -357,6 +1485,27 @@ export function registerMessageRoutes(app: App) {
           return reply.status(404).send({ error: 'Message not found' });
         }
 
+        if (message.isGroup) {
+          if (!(await checkLinkOpen(app, request, reply, message))) return;
+
+          // Group members were notified directly, like a single known recipient
+          const channel = await resolveConsentChannel(
+            app,
+            { ...message, recipientId: session.user.id },
+            false
+          );
+          return respondAsGroupRecipient(
+            app,
+            request,
+            reply,
+            message,
+            session.user,
+            'accept',
+            channel,
+            answers
+          );
+        }
+
         // Verify user is the intended recipient
         if (
           message.recipientId &&
@@ -365,19 +1514,62 @@ export function registerMessageRoutes(app: App) {
           return reply.status(403).send({ error: 'Not authorized to accept this message' });
         }
 
+        // Answered, revoked and countered messages are settled; each consent is given once
+        if (message.status !== 'pending') {
+          return reply.status(409).send({ error: `Cannot accept ${message.status} message` });
+        }
+
+        // Accepting by id must not get around the limits of the link the message was shared with
+        if (!(await checkLinkOpen(app, request, reply, message))) return;
+
+        if (await isBlockedBetween(app, message.senderId, session.user.id)) {
+          return reply.status(403).send({ error: 'Cannot accept messages from this user' });
+        }
+
+        const form = readFormAnswers(reply, message, answers);
+        if (!form) return;
+
         // Update message status and mark link as used if accessed via link
         const [updated] = await app.db
           .update(schema.messages)
           .set({
             status: 'accepted',
+            recipientId: message.recipientId || session.user.id,
+            formAnswers: form.answers,
             linkUsed: true,
             updatedAt: new Date(),
           })
-          .where(eq(schema.messages.id, id))
+          // Only the first answer counts, so concurrent accepts cannot issue two receipts
+          .where(and(eq(schema.messages.id, id), eq(schema.messages.status, 'pending')))
           .returning();
 
+        if (!updated) {
+          return reply.status(409).send({ error: 'Message has already been answered' });
+        }
+
+        // Record signed proof of consent
+        const channel = await resolveConsentChannel(app, message, false);
+        await issueConsentReceipt(app, updated, channel);
+
+        await recordMessageEvent(app, request, {
+          messageId: id,
+          type: 'accepted',
+          actorId: session.user.id,
+          metadata: { channel },
+        });
+
+        if (!message.linkUsed) {
+          await recordMessageEvent(app, request, {
+            messageId: id,
+            type: 'link_used',
+            actorId: session.user.id,
+          });
+        }
+
+        publishMessageStatus(app, updated, { status: 'accepted', actor_id: session.user.id });
+
         app.logger.info(
-          { messageId: id, userId: session.user.id },
+          { messageId: id, userId: session.user.id, channel },
           'Message accepted'
         );
 
@@ -394,6 +1586,7 @@ export function registerMessageRoutes(app: App) {
 
   /**
    * POST /api/messages/:id/reject - Reject a message
+   * Only pending messages can be rejected; accepted ones are revoked instead
    */
   app.fastify.post(
     '/api/messages/:id/reject',
@@ -417,6 +1610,16 @@ export function registerMessageRoutes(app: App) {
           return reply.status(404).send({ error: 'Message not found' });
         }
 
+        if (message.isGroup) {
+          // Group members were notified directly, like a single known recipient
+          const channel = await resolveConsentChannel(
+            app,
+            { ...message, recipientId: session.user.id },
+            false
+          );
+          return respondAsGroupRecipient(app, request, reply, message, session.user, 'reject', channel);
+        }
+
         // Verify user is the intended recipient
         if (
           message.recipientId &&
@@ -425,6 +1628,11 @@ export function registerMessageRoutes(app: App) {
           return reply.status(403).send({ error: 'Not authorized to reject this message' });
         }
 
+        // Consent already given is withdrawn through revoke, which records it
+        if (message.status !== 'pending') {
+          return reply.status(409).send({ error: `Cannot reject ${message.status} message` });
+        }
+
         // Update message status
         const [updated] = await app.db
           .update(schema.messages)
@@ -432,9 +1640,22 @@ export function registerMessageRoutes(app: App) {
             status: 'rejected',
             updatedAt: new Date(),
           })
-          .where(eq(schema.messages.id, id))
+          // Answered between the read and the update
+          .where(and(eq(schema.messages.id, id), eq(schema.messages.status, 'pending')))
           .returning();
 
+        if (!updated) {
+          return reply.status(409).send({ error: 'Message has already been answered' });
+        }
+
+        await recordMessageEvent(app, request, {
+          messageId: id,
+          type: 'rejected',
+          actorId: session.user.id,
+        });
+
+        publishMessageStatus(app, updated, { status: 'rejected', actor_id: session.user.id });
+
         app.logger.info(
           { messageId: id, userId: session.user.id },
           'Message rejected'
@@ -452,10 +1673,219 @@ export function registerMessageRoutes(app: App) {
   );
 
   /**
-   * POST /api/messages/:token/respond - Accept or reject a message via link token
+   * POST /api/messages/:id/counter - Answer a pending message with a counter-proposal
+   * Body: { content } or { templateId, variables }, plus an optional form
+   * An encrypted proposal sends { content, encrypted: true, keys } sealed to the original sender's devices
+   * Creates a new pending message back to the sender in the same negotiation thread
+   */
+  app.fastify.post(
+    '/api/messages/:id/counter',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const { content, templateId, variables, form, encrypted, keys } = (request.body || {}) as {
+        content?: string;
+        templateId?: string;
+        variables?: TemplateVariables;
+        form?: ConsentForm;
+        encrypted?: boolean;
+        keys?: KeyEnvelopeInput[];
+      };
+
+      app.logger.info(
+        { messageId: id, userId: session.user.id, templateId },
+        'Countering message'
+      );
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        return createCounterProposal(app, request, reply, message, session.user, {
+          content,
+          templateId,
+          variables,
+          form,
+          encrypted,
+          keys,
+        });
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: id, userId: session.user.id },
+          'Failed to counter message'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/messages/:id/revoke - Withdraw consent for an accepted message
+   * Only the recipient can revoke, and only after accepting
+   * Body: { reason?: string }
+   */
+  app.fastify.post(
+    '/api/messages/:id/revoke',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const { reason } = (request.body as { reason?: string }) || {};
+
+      app.logger.info(
+        { messageId: id, userId: session.user.id, hasReason: !!reason },
+        'Revoking message consent'
+      );
+
+      if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+        return reply.status(400).send({
+          error: 'Reason must be a string of at most 500 characters',
+        });
+      }
+
+      try {
+        const message = await app.db.query.messages.findFirst({
+          where: eq(schema.messages.id, id),
+        });
+
+        if (!message) {
+          return reply.status(404).send({ error: 'Message not found' });
+        }
+
+        if (message.isGroup) {
+          const recipient = await findGroupRecipient(app, id, session.user.id);
+
+          if (!recipient) {
+            return reply.status(403).send({ error: 'Not authorized to revoke this message' });
+          }
+
+          if (recipient.status !== 'accepted') {
+            return reply.status(409).send({
+              error: `Cannot revoke ${recipient.status} message`,
+            });
+          }
+
+          const [revoked] = await app.db
+            .update(schema.messageRecipients)
+            .set({
+              status: 'revoked',
+              revokedAt: new Date(),
+              revocationReason: reason?.trim() || null,
+              updatedAt: new Date(),
+            })
+            .where(eq(schema.messageRecipients.id, recipient.id))
+            .returning();
+
+          await recordMessageEvent(app, request, {
+            messageId: id,
+            type: 'revoked',
+            actorId: session.user.id,
+            metadata: { hasReason: !!revoked.revocationReason, group: true },
+          });
+
+          const { summary } = await refreshGroupStatus(app, message);
+
+          publishMessageStatus(app, message, {
+            status: summary.state,
+            actor_id: session.user.id,
+            recipient_status: 'revoked',
+            is_group: true,
+          });
+
+          dispatchNotification(app, message.senderId, {
+            title: 'Consent withdrawn',
+            body: `${session.user.name || 'A user'} withdrew their consent`,
+            data: { messageId: id, type: 'message_revoked' },
+          });
+
+          app.logger.info(
+            { messageId: id, userId: session.user.id, groupState: summary.state },
+            'Group message consent revoked'
+          );
+
+          return {
+            id,
+            status: summary.state,
+            recipient: {
+              user_id: revoked.recipientId,
+              status: revoked.status,
+              revoked_at: revoked.revokedAt,
+            },
+            summary,
+          };
+        }
+
+        // Verify user is the recipient who gave consent
+        if (message.recipientId !== session.user.id) {
+          return reply.status(403).send({ error: 'Not authorized to revoke this message' });
+        }
+
+        if (message.status !== 'accepted') {
+          return reply.status(409).send({
+            error: `Cannot revoke ${message.status} message`,
+          });
+        }
+
+        const [updated] = await app.db
+          .update(schema.messages)
+          .set({
+            status: 'revoked',
+            revokedAt: new Date(),
+            revocationReason: reason?.trim() || null,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.messages.id, id))
+          .returning();
+
+        await recordMessageEvent(app, request, {
+          messageId: id,
+          type: 'revoked',
+          actorId: session.user.id,
+          metadata: { hasReason: !!updated.revocationReason },
+        });
+
+        publishMessageStatus(app, updated, { status: 'revoked', actor_id: session.user.id });
+
+        // Let the sender know consent was withdrawn
+        dispatchNotification(app, message.senderId, {
+          title: 'Consent withdrawn',
+          body: `${session.user.name || 'A user'} withdrew their consent`,
+          data: { messageId: id, type: 'message_revoked' },
+        });
+
+        app.logger.info(
+          { messageId: id, userId: session.user.id },
+          'Message consent revoked'
+        );
+
+        return updated;
+      } catch (error) {
+        app.logger.error(
+          { err: error, messageId: id, userId: session.user.id },
+          'Failed to revoke message consent'
+        );
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/messages/:token/respond - Accept, reject or counter a message via link token
    * This endpoint is for the consent flow where users respond via shared link
-   * Sets recipientId to authenticated user if not already set
+   * Sets recipientId to authenticated user if not already set; otherwise only that recipient can answer
+   * Only pending messages can be answered
    * Marks linkUsed as true
+   * Body: { action, answers? } - answers are validated against the message's form when accepting
+   * Countering takes the proposal as { content } or { templateId, variables }, optionally with a form
+   * (see /api/messages/:id/counter)
    */
   app.fastify.post(
     '/api/messages/:token/respond',
@@ -464,16 +1894,34 @@ export function registerMessageRoutes(app: App) {
       if (!session) return;
 
       const { token } = request.params as { token: string };
-      const { action } = request.body as { action: 'accept' | 'reject' };
+      const {
+        action,
+        answers,
+        content,
+        templateId,
+        variables,
+        form: proposalForm,
+        encrypted,
+        keys,
+      } = request.body as {
+        action: 'accept' | 'reject' | 'counter';
+        answers?: FormAnswers;
+        content?: string;
+        templateId?: string;
+        variables?: TemplateVariables;
+        form?: ConsentForm;
+        encrypted?: boolean;
+        keys?: KeyEnvelopeInput[];
+      };
 
       app.logger.info(
-        { linkToken: token, userId: session.user.id, action },
+        { linkToken: token, userId: session.user.id, action, hasAnswers: !!answers },
         'Responding to message via link token'
       );
 
-      if (!action || !['accept', 'reject'].includes(action)) {
+      if (!action || !['accept', 'reject', 'counter'].includes(action)) {
         return reply.status(400).send({
-          error: 'Invalid action. Must be "accept" or "reject"',
+          error: 'Invalid action. Must be "accept", "reject" or "counter"',
         });
       }
 
@@ -487,18 +1935,51 @@ export function registerMessageRoutes(app: App) {
           return reply.status(404).send({ error: 'Link not found' });
         }
 
-        // Check if link has expired
-        if (message.linkExpiresAt && new Date() > message.linkExpiresAt) {
-          app.logger.warn({ messageId: message.id }, 'Link expired');
-          return reply.status(410).send({ error: 'Link has expired' });
+        if (!(await checkLinkOpen(app, request, reply, message))) return;
+
+        if (message.status === 'revoked' || message.status === 'countered') {
+          return reply.status(409).send({ error: `Cannot respond to ${message.status} message` });
+        }
+
+        if (action === 'counter') {
+          return createCounterProposal(app, request, reply, message, session.user, {
+            content,
+            templateId,
+            variables,
+            form: proposalForm,
+            encrypted,
+            keys,
+          });
+        }
+
+        // Group links are shared by all recipients; only listed recipients can answer
+        if (message.isGroup) {
+          return respondAsGroupRecipient(
+            app,
+            request,
+            reply,
+            message,
+            session.user,
+            action,
+            'link',
+            answers
+          );
+        }
+
+        // Holding the link is not enough once the message is addressed to someone else
+        if (message.recipientId && message.recipientId !== session.user.id) {
+          return reply.status(403).send({ error: `Not authorized to ${action} this message` });
         }
 
-        // Check if single-use link has been used
-        if (message.singleUse && message.linkUsed) {
-          app.logger.warn({ messageId: message.id }, 'Single-use link already used');
-          return reply.status(410).send({ error: 'Link has already been used' });
+        // Rejecting stays possible, but consent cannot be given across a block
+        if (action === 'accept' && (await isBlockedBetween(app, message.senderId, session.user.id))) {
+          return reply.status(403).send({ error: 'Cannot accept messages from this user' });
         }
 
+        // A rejection carries no answers
+        const form = action === 'accept' ? readFormAnswers(reply, message, answers) : { answers: null };
+        if (!form) return;
+
         // Update message with response
         const newStatus = action === 'accept' ? 'accepted' : 'rejected';
         const [updated] = await app.db
@@ -506,12 +1987,40 @@ export function registerMessageRoutes(app: App) {
           .set({
             status: newStatus,
             recipientId: message.recipientId || session.user.id, // Set recipient if not already set
+            formAnswers: form.answers,
             linkUsed: true,
             updatedAt: new Date(),
           })
-          .where(eq(schema.messages.linkToken, token))
+          // Only the first answer counts, so concurrent accepts cannot issue two receipts
+          .where(and(eq(schema.messages.linkToken, token), eq(schema.messages.status, 'pending')))
           .returning();
 
+        if (!updated) {
+          return reply.status(409).send({ error: 'Message has already been answered' });
+        }
+
+        // Record signed proof of consent
+        if (newStatus === 'accepted') {
+          await issueConsentReceipt(app, updated, 'link');
+        }
+
+        await recordMessageEvent(app, request, {
+          messageId: updated.id,
+          type: newStatus,
+          actorId: session.user.id,
+          metadata: { channel: 'link' },
+        });
+
+        if (!message.linkUsed) {
+          await recordMessageEvent(app, request, {
+            messageId: updated.id,
+            type: 'link_used',
+            actorId: session.user.id,
+          });
+        }
+
+        publishMessageStatus(app, updated, { status: newStatus, actor_id: session.user.id });
+
         app.logger.info(
           {
             messageId: updated.id,
@@ -526,6 +2035,7 @@ export function registerMessageRoutes(app: App) {
           id: updated.id,
           status: updated.status,
           recipientId: updated.recipientId,
+          formAnswers: updated.formAnswers,
           message: `Message successfully marked as ${newStatus}`,
         };
       } catch (error) {
@@ -0,0 +1,45 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as schema from '../db/schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { registerConnectionRoutes } from './connections.js';
+import { registerModerationRoutes } from './moderation.js';
+
+describe('POST /api/users/:id/block', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp(
+      [registerConnectionRoutes, registerModerationRoutes],
+      ['alice', 'bob', 'carol']
+    );
+    await testApp.db.insert(schema.deviceConnections).values([
+      { requesterUserId: 'bob', targetUserId: 'alice', status: 'accepted' },
+      { requesterUserId: 'alice', targetUserId: 'carol', status: 'accepted' },
+    ]);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('disconnects the blocked user so they cannot read the blocker\'s graph', async () => {
+    const graphBefore = await testApp.request('bob', { method: 'GET', url: '/api/users/alice/connections' });
+    assert.equal(graphBefore.statusCode, 200);
+
+    const block = await testApp.request('alice', { method: 'POST', url: '/api/users/bob/block' });
+    assert.equal(block.statusCode, 200);
+
+    const graphAfter = await testApp.request('bob', { method: 'GET', url: '/api/users/alice/connections' });
+    assert.equal(graphAfter.statusCode, 403);
+
+    const active = await testApp.request('bob', { method: 'GET', url: '/api/connections/active' });
+    assert.equal(active.json().count, 0);
+
+    const aliceActive = await testApp.request('alice', { method: 'GET', url: '/api/connections/active' });
+    assert.deepEqual(
+      aliceActive.json().connections.map((entry: { user_id: string }) => entry.user_id),
+      ['carol']
+    );
+  });
+});
@@ -0,0 +1,282 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import { betweenUsers } from '../utils/connection-graph.js';
+
+type ReportCategory = (typeof schema.userReports.$inferInsert)['category'];
+
+const REPORT_CATEGORIES: ReportCategory[] = [
+  'spam',
+  'harassment',
+  'inappropriate_content',
+  'impersonation',
+  'other',
+];
+
+/**
+ * Records a block and removes pending requests and accepted connections between the two users
+ * Without the accepted rows gone, the blocked user would stay connected and could read the blocker's graph
+ */
+async function blockUser(app: App, blockerId: string, blockedId: string): Promise<void> {
+  await app.db.transaction(async (tx) => {
+    await tx
+      .insert(schema.userBlocks)
+      .values({ blockerId, blockedId })
+      .onConflictDoNothing();
+
+    await tx
+      .delete(schema.deviceConnections)
+      .where(
+        and(
+          betweenUsers(blockerId, blockedId),
+          inArray(schema.deviceConnections.status, ['pending', 'accepted'])
+        )
+      );
+  });
+}
+
+/**
+ * Moderation Routes
+ * Lets users block other users and report abuse
+ */
+export function registerModerationRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  /**
+   * GET /api/users/blocked - List users blocked by the current user
+   */
+  app.fastify.get(
+    '/api/users/blocked',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching blocked users');
+
+      try {
+        const blocked = await app.db
+          .select({
+            userId: schema.userBlocks.blockedId,
+            username: authSchema.user.name,
+            blockedAt: schema.userBlocks.createdAt,
+          })
+          .from(schema.userBlocks)
+          .innerJoin(authSchema.user, eq(authSchema.user.id, schema.userBlocks.blockedId))
+          .where(eq(schema.userBlocks.blockerId, userId))
+          .orderBy(desc(schema.userBlocks.createdAt));
+
+        return {
+          users: blocked.map((entry) => ({
+            user_id: entry.userId,
+            username: entry.username,
+            blocked_at: entry.blockedAt,
+          })),
+          count: blocked.length,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch blocked users');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/users/:id/block - Block a user
+   * Also removes pending requests and accepted connections between the two users
+   */
+  app.fastify.post(
+    '/api/users/:id/block',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id: blockedId } = request.params as { id: string };
+
+      app.logger.info({ userId, blockedId }, 'Blocking user');
+
+      if (blockedId === userId) {
+        return reply.status(400).send({
+          error: 'Cannot block yourself',
+        });
+      }
+
+      try {
+        const target = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, blockedId),
+        });
+
+        if (!target) {
+          return reply.status(404).send({
+            error: 'User not found',
+          });
+        }
+
+        await blockUser(app, userId, blockedId);
+
+        app.logger.info({ userId, blockedId }, 'User blocked');
+
+        return {
+          success: true,
+          blocked_user_id: blockedId,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, blockedId }, 'Failed to block user');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/users/:id/block - Unblock a user
+   */
+  app.fastify.delete(
+    '/api/users/:id/block',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id: blockedId } = request.params as { id: string };
+
+      app.logger.info({ userId, blockedId }, 'Unblocking user');
+
+      try {
+        const [deleted] = await app.db
+          .delete(schema.userBlocks)
+          .where(
+            and(
+              eq(schema.userBlocks.blockerId, userId),
+              eq(schema.userBlocks.blockedId, blockedId)
+            )
+          )
+          .returning();
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'User is not blocked',
+          });
+        }
+
+        app.logger.info({ userId, blockedId }, 'User unblocked');
+
+        return {
+          success: true,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, blockedId }, 'Failed to unblock user');
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/users/:id/report - Report a user for abuse
+   * Body: { category, details?, messageId?, block? }
+   * Setting block: true also blocks the reported user
+   */
+  app.fastify.post(
+    '/api/users/:id/report',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      const { id: reportedUserId } = request.params as { id: string };
+      const { category, details, messageId, block } = (request.body || {}) as {
+        category?: ReportCategory;
+        details?: string;
+        messageId?: string;
+        block?: boolean;
+      };
+
+      app.logger.info({ userId, reportedUserId, category }, 'Reporting user');
+
+      if (reportedUserId === userId) {
+        return reply.status(400).send({
+          error: 'Cannot report yourself',
+        });
+      }
+
+      if (!category || !REPORT_CATEGORIES.includes(category)) {
+        return reply.status(400).send({
+          error: `category must be one of: ${REPORT_CATEGORIES.join(', ')}`,
+        });
+      }
+
+      if (details !== undefined && (typeof details !== 'string' || details.length > 1000)) {
+        return reply.status(400).send({
+          error: 'details must be at most 1000 characters',
+        });
+      }
+
+      try {
+        const target = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.id, reportedUserId),
+        });
+
+        if (!target) {
+          return reply.status(404).send({
+            error: 'User not found',
+          });
+        }
+
+        // Only messages exchanged between the two users can be attached
+        if (messageId) {
+          const message = await app.db.query.messages.findFirst({
+            where: eq(schema.messages.id, messageId),
+          });
+
+          const involvesBoth =
+            message &&
+            [message.senderId, message.recipientId].includes(userId) &&
+            [message.senderId, message.recipientId].includes(reportedUserId);
+
+          if (!involvesBoth) {
+            return reply.status(400).send({
+              error: 'Message does not belong to a conversation with this user',
+            });
+          }
+        }
+
+        const [report] = await app.db
+          .insert(schema.userReports)
+          .values({
+            reporterId: userId,
+            reportedUserId,
+            category,
+            details: details?.trim() || null,
+            messageId: messageId || null,
+          })
+          .returning();
+
+        if (block) {
+          await blockUser(app, userId, reportedUserId);
+        }
+
+        app.logger.warn(
+          { reportId: report.id, reporterId: userId, reportedUserId, category },
+          'User reported'
+        );
+
+        return reply.status(201).send({
+          success: true,
+          report: {
+            id: report.id,
+            category: report.category,
+            status: report.status,
+            created_at: report.createdAt,
+          },
+          blocked: !!block,
+        });
+      } catch (error) {
+        app.logger.error({ err: error, userId, reportedUserId }, 'Failed to report user');
+        throw error;
+      }
+    }
+  );
+}
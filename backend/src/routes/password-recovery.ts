@@ -4,6 +4,8 @@ import { eq, and, isNull, lt } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 import * as schema from '../db/schema.js';
 import * as authSchema from '../db/auth-schema.js';
+import { sendMail, passwordResetEmail } from '../mail/index.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
 
 /**
  * Password Recovery Routes
@@ -30,6 +32,12 @@ export function registerPasswordRecoveryRoutes(app: App) {
         });
       }
 
+      // Limited per address as well as per IP so reset emails cannot be used to flood an inbox
+      const allowed = await enforceRateLimit(app, request, reply, 'forgot-password', {
+        target: email.trim(),
+      });
+      if (!allowed) return;
+
       try {
         // Find user by email
         const user = await app.db.query.user.findFirst({
@@ -71,12 +79,23 @@ export function registerPasswordRecoveryRoutes(app: App) {
           'Password reset token created'
         );
 
-        // TODO: Send email with reset link
-        // In production, integrate with email service (SendGrid, Mailgun, etc.)
-        // Email should contain: resetUrl and expiration time
+        const delivery = await sendMail(
+          user.email,
+          passwordResetEmail({ name: user.name, resetUrl, expiresAt })
+        );
 
-        // For now, log the URL for development
-        app.logger.debug({ resetUrl }, 'Password reset URL (DEV ONLY)');
+        if (delivery.accepted) {
+          app.logger.info(
+            { userId: user.id, resetTokenId: resetToken.id, transport: delivery.transport },
+            'Password reset email sent'
+          );
+        } else {
+          // Still answer with the generic message so email existence is not revealed
+          app.logger.error(
+            { userId: user.id, resetTokenId: resetToken.id, error: delivery.error },
+            'Failed to send password reset email'
+          );
+        }
 
         return {
           success: true,
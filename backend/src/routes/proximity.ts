@@ -3,6 +3,9 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 import * as schema from '../db/schema.js';
+import { recordMessageEvent } from '../utils/message-events.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import { publish } from '../utils/realtime.js';
 
 export function registerProximityRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -154,6 +157,22 @@ export function registerProximityRoutes(app: App) {
           });
         }
 
+        if (await isBlockedBetween(app, proximitySession.initiatorId, session.user.id)) {
+          return reply.status(403).send({
+            error: 'Cannot connect to this session',
+          });
+        }
+
+        // The initiator is waiting on the other device for someone to join
+        publish(app, [proximitySession.initiatorId], {
+          type: 'proximity_connect',
+          data: {
+            session_id: proximitySession.id,
+            recipient_id: session.user.id,
+            recipient_name: session.user.name || null,
+          },
+        });
+
         app.logger.info(
           { sessionId: proximitySession.id, recipientId: session.user.id },
           'Recipient connected to proximity session'
@@ -247,6 +266,13 @@ export function registerProximityRoutes(app: App) {
           .where(eq(schema.proximitySessions.id, proximitySession.id))
           .returning();
 
+        await recordMessageEvent(app, request, {
+          messageId: message.id,
+          type: 'created',
+          actorId: session.user.id,
+          metadata: { channel: 'proximity', sessionId: updated.id },
+        });
+
         app.logger.info(
           { sessionId: updated.id, messageId: message.id },
           'Message sent via proximity session'
@@ -0,0 +1,92 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { fakePushProvider, setPushProviders } from '../push/index.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { registerPushTokenRoutes } from './push-tokens.js';
+
+describe('POST /api/notifications/send', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerPushTokenRoutes], ['alice', 'bob', 'mallory']);
+    setPushProviders([fakePushProvider]);
+    fakePushProvider.reset();
+
+    await testApp.db.insert(schema.deviceConnections).values({
+      requesterUserId: 'alice',
+      targetUserId: 'bob',
+      status: 'accepted',
+    });
+    // The fake provider reports tokens starting with "invalid" as unregistered
+    await testApp.db.insert(schema.pushTokens).values([
+      { userId: 'bob', token: 'bob-phone', platform: 'ios' },
+      { userId: 'bob', token: 'invalid-bob-old-tablet', platform: 'android' },
+    ]);
+  });
+
+  afterEach(async () => {
+    setPushProviders(null);
+    await testApp.close();
+  });
+
+  const send = (senderId: string, recipientId: string) =>
+    testApp.request(senderId, {
+      method: 'POST',
+      url: '/api/notifications/send',
+      payload: { recipientId, title: 'Hi', body: 'Lunch at 12?' },
+    });
+
+  const tokensOf = async (userId: string) =>
+    (
+      await testApp.db.select().from(schema.pushTokens).where(eq(schema.pushTokens.userId, userId))
+    ).map((pushToken) => pushToken.token);
+
+  it('delivers to a connection and prunes tokens the provider reports as invalid', async () => {
+    const response = await send('alice', 'bob');
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().delivered, 1);
+
+    assert.deepEqual(
+      fakePushProvider.sent.map(({ token }) => token.token),
+      ['bob-phone']
+    );
+    assert.deepEqual(await tokensOf('bob'), ['bob-phone']);
+  });
+
+  it('refuses recipients who are not connections', async () => {
+    const response = await send('mallory', 'bob');
+    assert.equal(response.statusCode, 403);
+
+    assert.equal(fakePushProvider.sent.length, 0);
+    assert.equal((await tokensOf('bob')).length, 2);
+  });
+
+  it('refuses connections who blocked the sender', async () => {
+    await testApp.db.insert(schema.userBlocks).values({ blockerId: 'bob', blockedId: 'alice' });
+
+    assert.equal((await send('alice', 'bob')).statusCode, 403);
+    assert.equal(fakePushProvider.sent.length, 0);
+  });
+
+  it('sends nothing to users who turned push notifications off', async () => {
+    await testApp.db
+      .insert(schema.userSharingPreferences)
+      .values({ userId: 'bob', pushNotificationsEnabled: false });
+
+    const response = await send('alice', 'bob');
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.json().delivered, 0);
+    assert.equal(fakePushProvider.sent.length, 0);
+  });
+
+  it('rate limits notifications to the same recipient', async () => {
+    const statuses = [];
+    for (let attempt = 0; attempt < 6; attempt++) {
+      statuses.push((await send('alice', 'bob')).statusCode);
+    }
+
+    assert.deepEqual(statuses, [200, 200, 200, 200, 200, 429]);
+  });
+});
@@ -2,6 +2,10 @@ import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq, and } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import { notifyUser } from '../utils/notifications.js';
+import { isBlockedBetween } from '../utils/blocks.js';
+import { areConnected } from '../utils/connection-graph.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
 
 export function registerPushTokenRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -219,14 +223,15 @@ export function registerPushTokenRoutes(app: App) {
 
   /**
    * POST /api/notifications/send - Send a push notification to a user
-   * Internal endpoint for triggering notifications when messages are received
-   * In a production system, this would integrate with APNs (Apple) and FCM (Google)
+   * Delivers through Expo, APNs or FCM depending on each registered token
+   * Tokens reported as invalid by the provider are removed automatically
+   * Only reaches accepted connections the sender has not blocked, and is rate limited per sender and recipient
    */
   app.fastify.post(
     '/api/notifications/send',
     async (request: FastifyRequest, reply: FastifyReply) => {
-      // This endpoint would typically be called by internal services
-      // For now, we'll require authentication but in production could use API keys
+      // Notifications for messages and connection requests are sent automatically;
+      // this endpoint remains for ad-hoc notifications from authenticated clients
       const session = await requireAuth(request, reply);
       if (!session) return;
 
@@ -254,55 +259,53 @@ export function registerPushTokenRoutes(app: App) {
       }
 
       try {
-        // Fetch all push tokens for the recipient
-        const pushTokens = await app.db
-          .select()
-          .from(schema.pushTokens)
-          .where(eq(schema.pushTokens.userId, recipientId));
+        // Anyone signed in could otherwise push arbitrary text to any user
+        if (
+          recipientId !== session.user.id &&
+          (!(await areConnected(app, session.user.id, recipientId)) ||
+            (await isBlockedBetween(app, session.user.id, recipientId)))
+        ) {
+          return reply.status(403).send({
+            error: 'Notifications can only be sent to your connections',
+          });
+        }
 
-        if (pushTokens.length === 0) {
-          app.logger.info(
-            { recipientId },
-            'No push tokens found for recipient'
-          );
+        const allowed = await enforceRateLimit(app, request, reply, 'notification-send', {
+          userId: session.user.id,
+          target: recipientId,
+        });
+        if (!allowed) return;
+
+        const results = await notifyUser(app, recipientId, {
+          title,
+          body,
+          ...(messageId && { data: { messageId } }),
+        });
+
+        if (results.length === 0) {
           return {
             success: true,
             delivered: 0,
             message:
               'No push tokens registered for recipient',
+            results,
           };
         }
 
-        // In production, you would integrate with:
-        // - APNs (Apple Push Notification service) for iOS tokens
-        // - FCM (Firebase Cloud Messaging) for Android tokens
-        // For now, we'll just log what would be sent
-
-        const sentCount = pushTokens.length;
-
-        pushTokens.forEach((pushToken) => {
-          app.logger.info(
-            {
-              recipientId,
-              pushTokenId: pushToken.id,
-              platform: pushToken.platform,
-              messageId,
-            },
-            `Would send ${pushToken.platform} push notification`
-          );
-        });
+        const delivered = results.filter((result) => result.status === 'delivered');
 
         app.logger.info(
-          { recipientId, count: sentCount, messageId },
+          { recipientId, count: delivered.length, messageId },
           'Push notifications sent to recipient'
         );
 
         return {
-          success: true,
-          delivered: sentCount,
+          success: delivered.length > 0,
+          delivered: delivered.length,
           platforms: [
-            ...new Set(pushTokens.map((t) => t.platform)),
+            ...new Set(delivered.map((result) => result.platform)),
           ],
+          results,
         };
       } catch (error) {
         app.logger.error(
@@ -0,0 +1,155 @@
+import type { App } from '../index.js';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import websocket from '@fastify/websocket';
+import { subscribe, countSubscribers } from '../utils/realtime.js';
+import {
+  consumeRealtimeTicket,
+  createRealtimeTicket,
+  findSessionId,
+  isSessionActive,
+  type RealtimeSession,
+} from '../utils/realtime-auth.js';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export function registerRealtimeRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // Sessions of upgrade requests that passed authentication, read once the socket is open
+  const authenticatedSessions = new WeakMap<FastifyRequest, RealtimeSession>();
+
+  /**
+   * POST /api/realtime/ticket - Trade the bearer token for a single-use realtime ticket
+   * For browsers, which cannot set headers on WebSocket requests; the ticket expires after 30 seconds
+   */
+  app.fastify.post(
+    '/api/realtime/ticket',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      try {
+        const sessionId = await findSessionId(app, request.headers.authorization);
+        if (!sessionId) {
+          return reply.status(401).send({ error: 'A bearer token is required' });
+        }
+
+        const { ticket, expiresAt } = await createRealtimeTicket(app, { userId, sessionId });
+
+        app.logger.info({ userId }, 'Realtime ticket issued');
+
+        return { ticket, expires_at: expiresAt };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to issue realtime ticket');
+        throw error;
+      }
+    }
+  );
+
+  app.fastify.register(websocket);
+
+  // Websocket routes must be declared after the plugin has loaded
+  app.fastify.register(async (instance) => {
+    /**
+     * GET /api/realtime - WebSocket stream of live events for the current user
+     * Authenticates with the bearer token in the Authorization header, or with a ticket from
+     * POST /api/realtime/ticket in ?ticket= for browsers; tokens never go in the URL
+     * The socket is closed once its session is revoked or expires
+     * Server frames: { type, data } (see utils/realtime.ts); a { type: 'ping' } frame is answered with { type: 'pong' }
+     */
+    instance.get(
+      '/api/realtime',
+      {
+        websocket: true,
+        preValidation: async (request: FastifyRequest, reply: FastifyReply) => {
+          const { ticket } = request.query as { ticket?: string };
+          if (ticket) {
+            const session = await consumeRealtimeTicket(app, ticket);
+            if (!session) {
+              return reply.status(401).send({ error: 'Invalid or expired ticket' });
+            }
+            authenticatedSessions.set(request, session);
+            return;
+          }
+
+          const session = await requireAuth(request, reply);
+          if (!session) return;
+
+          const sessionId = await findSessionId(app, request.headers.authorization);
+          if (!sessionId) {
+            return reply.status(401).send({ error: 'A bearer token is required' });
+          }
+
+          authenticatedSessions.set(request, { userId: session.user.id, sessionId });
+        },
+      },
+      (socket, request) => {
+        const session = authenticatedSessions.get(request);
+        if (!session) {
+          socket.close(1008, 'Authentication required');
+          return;
+        }
+        const { userId } = session;
+
+        const unsubscribe = subscribe(userId, (event) => {
+          if (socket.readyState === socket.OPEN) {
+            socket.send(JSON.stringify(event));
+          }
+        });
+
+        // Drops sockets whose peer vanished without closing, e.g. a phone losing signal,
+        // and those whose session was revoked or expired since they opened
+        let alive = true;
+        socket.on('pong', () => {
+          alive = true;
+        });
+        const heartbeat = setInterval(() => {
+          if (!alive) {
+            socket.terminate();
+            return;
+          }
+          alive = false;
+          socket.ping();
+
+          isSessionActive(app, session)
+            .then((active) => {
+              if (!active && socket.readyState === socket.OPEN) {
+                app.logger.info({ userId }, 'Closing realtime connection of an ended session');
+                socket.close(1008, 'Session expired');
+              }
+            })
+            .catch((error) => {
+              app.logger.error({ err: error, userId }, 'Failed to check realtime session');
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+
+        socket.on('message', (raw) => {
+          try {
+            const frame = JSON.parse(raw.toString()) as { type?: string };
+            if (frame.type === 'ping') {
+              socket.send(JSON.stringify({ type: 'pong' }));
+            }
+          } catch {
+            // Clients have nothing else to say; malformed frames are ignored
+          }
+        });
+
+        socket.on('close', () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          app.logger.info(
+            { userId, openSockets: countSubscribers(userId) },
+            'Realtime connection closed'
+          );
+        });
+
+        app.logger.info(
+          { userId, openSockets: countSubscribers(userId) },
+          'Realtime connection opened'
+        );
+      }
+    );
+  });
+}
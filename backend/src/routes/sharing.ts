@@ -3,6 +3,8 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { eq } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import { shortenLink, obfuscateUrl, generateShareableMessage } from '../utils/link-utils.js';
+import { getOrCreateShortLink, resolveShortLink } from '../utils/short-links.js';
+import { enforceRateLimit } from '../rate-limit/index.js';
 
 /**
  * Sharing Routes
@@ -56,7 +58,8 @@ export function registerSharingRoutes(app: App) {
         });
 
         const fullUrl = `https://acceptconnect.app/message/${message.linkToken}`;
-        const shortened = shortenLink(message.linkToken);
+        const shortLink = await getOrCreateShortLink(app, message);
+        const shortened = shortenLink(message.linkToken, shortLink.code);
         const displayUrl = preferences?.obfuscateLinks
           ? obfuscateUrl(fullUrl)
           : fullUrl;
@@ -108,6 +111,8 @@ export function registerSharingRoutes(app: App) {
   /**
    * GET /api/share/:shortCode - Resolve short code to full message link
    * Allows sharing short codes that expand to full links
+   * Returns the URL to open rather than the bare link token
+   * Does NOT require authentication; lookups are rate limited per IP against code guessing
    */
   app.fastify.get(
     '/api/share/:shortCode',
@@ -116,28 +121,32 @@ export function registerSharingRoutes(app: App) {
 
       app.logger.info({ shortCode }, 'Resolving short code');
 
+      const allowed = await enforceRateLimit(app, request, reply, 'short-link-lookup');
+      if (!allowed) return;
+
       try {
-        // Short code format: XXXXXX-YYYY (first 12 chars - checksum)
-        const [prefix, checksum] = shortCode.split('-');
+        const resolved = await resolveShortLink(app, shortCode);
 
-        if (!prefix || !checksum || prefix.length < 8) {
-          return reply.status(400).send({
-            error: 'Invalid short code format',
-          });
+        if (!resolved) {
+          app.logger.warn({ shortCode }, 'Short code not found');
+          return reply.status(404).send({ error: 'Short link not found' });
         }
 
-        // Note: In a production system, you would store a mapping of short codes to tokens
-        // For now, this is a placeholder that shows the pattern
-        // TODO: Implement short code -> token mapping in database
+        if (resolved.expired) {
+          app.logger.warn({ shortCode }, 'Short link expired');
+          return reply.status(410).send({ error: 'Link has expired' });
+        }
 
         app.logger.info(
-          { shortCode },
-          'Short code resolved (mapping needed)'
+          { shortCode, messageId: resolved.message.id, clickCount: resolved.shortLink.clickCount },
+          'Short code resolved'
         );
 
         return {
-          error: 'Short code resolution not yet implemented',
-          message: 'Use full message links directly',
+          shortCode: resolved.shortLink.code,
+          url: `https://acceptconnect.app/message/${resolved.message.linkToken}`,
+          expiresAt: resolved.shortLink.expiresAt,
+          clickCount: resolved.shortLink.clickCount,
         };
       } catch (error) {
         app.logger.error(
@@ -149,6 +158,46 @@ export function registerSharingRoutes(app: App) {
     }
   );
 
+  /**
+   * GET /m/:code - Redirect a short share URL to the full message link
+   * Target of the displayUrl returned when creating messages
+   * Does NOT require authentication; shares the per-IP lookup limit of /api/share/:shortCode
+   */
+  app.fastify.get(
+    '/m/:code',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { code } = request.params as { code: string };
+
+      app.logger.info({ shortCode: code }, 'Short link redirect requested');
+
+      const allowed = await enforceRateLimit(app, request, reply, 'short-link-lookup');
+      if (!allowed) return;
+
+      try {
+        const resolved = await resolveShortLink(app, code);
+
+        if (!resolved) {
+          return reply.status(404).send({ error: 'Short link not found' });
+        }
+
+        if (resolved.expired) {
+          return reply.status(410).send({ error: 'Link has expired' });
+        }
+
+        return reply.redirect(
+          `https://acceptconnect.app/message/${resolved.message.linkToken}`,
+          302
+        );
+      } catch (error) {
+        app.logger.error(
+          { err: error, shortCode: code },
+          'Failed to redirect short link'
+        );
+        throw error;
+      }
+    }
+  );
+
   /**
    * POST /api/messages/:id/copy-link - Generate copyable link text
    * Returns formatted link text ready to copy to clipboard
@@ -196,7 +245,8 @@ export function registerSharingRoutes(app: App) {
 
         switch (format) {
           case 'short': {
-            const shortened = shortenLink(message.linkToken);
+            const shortLink = await getOrCreateShortLink(app, message);
+            const shortened = shortenLink(message.linkToken, shortLink.code);
             copyableLink = shortened.displayUrl;
             break;
           }
@@ -1,13 +1,40 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { randomBytes } from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import * as authSchema from '../db/auth-schema.js';
+import {
+  OidcError,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  getDiscoveryDocument,
+  verifyIdToken,
+} from '../utils/oidc.js';
+import {
+  SPID_ACCEPTED_ACR,
+  SPID_PROVIDER_ID,
+  consumeSpidLinkTicket,
+  consumeSpidLoginState,
+  createSessionForUser,
+  createSpidLinkTicket,
+  createUserFromSpidIdentity,
+  findSpidAccount,
+  getSpidConfig,
+  identityFromClaims,
+  linkSpidAccount,
+  saveSpidLoginState,
+} from '../utils/spid.js';
 
 /**
  * SPID Authentication Routes
  * Implements OpenID Connect flow for SPID (Italian Digital Identity System)
  *
  * SPID is an Italian government-backed digital identity system that uses OpenID Connect.
- * This implementation provides the custom OAuth flow needed to integrate SPID authentication.
+ * This implementation provides the custom OAuth flow needed to integrate SPID authentication:
+ * discovery, state/nonce with PKCE, code exchange and ID token validation at level SpidL2.
+ *
+ * A verified identity that is already linked signs the user in. Otherwise the callback
+ * returns a short-lived link token to redeem at POST /api/auth/spid/link.
  *
  * Environment variables required:
  * - SPID_CLIENT_ID: Application client ID registered with SPID provider
@@ -16,6 +43,8 @@ import { randomBytes } from 'crypto';
  * - SPID_REDIRECT_URI: Redirect URI after authentication (e.g., https://acceptconnect.app/api/auth/spid/callback)
  */
 export function registerSpidAuthRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
   /**
    * POST /api/auth/spid/initiate - Initiate SPID authentication flow
    * Returns authorization URL where user should be redirected
@@ -25,49 +54,50 @@ export function registerSpidAuthRoutes(app: App) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       app.logger.info({}, 'Initiating SPID authentication flow');
 
-      try {
-        const clientId = process.env.SPID_CLIENT_ID;
-        const redirectUri = process.env.SPID_REDIRECT_URI;
-        const metadataUrl = process.env.SPID_METADATA_URL;
+      const config = getSpidConfig();
+      if (!config) {
+        app.logger.error({}, 'SPID environment variables not configured');
+        return reply.status(500).send({
+          error: 'SPID authentication not configured',
+        });
+      }
 
-        if (!clientId || !redirectUri || !metadataUrl) {
-          app.logger.error(
-            {},
-            'SPID environment variables not configured'
-          );
-          return reply.status(500).send({
-            error: 'SPID authentication not configured',
+      try {
+        let discovery;
+        try {
+          discovery = await getDiscoveryDocument(config.metadataUrl);
+        } catch (error) {
+          app.logger.error({ err: error }, 'Failed to fetch SPID discovery document');
+          return reply.status(502).send({
+            error: 'SPID provider unavailable',
           });
         }
 
-        // Generate state and nonce for security
+        // Generate state, nonce and PKCE verifier for security
         const state = randomBytes(32).toString('hex');
         const nonce = randomBytes(32).toString('hex');
+        const { codeVerifier, codeChallenge } = createPkcePair();
 
-        // Store state and nonce in session/cache for verification
-        // In production, use a distributed cache like Redis
-        const stateKey = `spid:state:${state}`;
-        const nonceKey = `spid:nonce:${state}`;
+        const expiresAt = await saveSpidLoginState(app, state, { nonce, codeVerifier });
 
-        // TODO: Store in session/cache with expiration (5 minutes)
         app.logger.info(
           { state: state.substring(0, 8) },
-          'Generated SPID state and nonce'
+          'Stored SPID state and nonce'
         );
 
         // Build SPID authorization URL
         // SPID uses OpenID Connect with specific requirements
-        const authUrl = new URL(
-          metadataUrl.replace('/.well-known/openid-configuration', '/authorize')
-        );
-        authUrl.searchParams.append('client_id', clientId);
+        const authUrl = new URL(discovery.authorization_endpoint);
+        authUrl.searchParams.append('client_id', config.clientId);
         authUrl.searchParams.append('response_type', 'code');
         authUrl.searchParams.append('scope', 'openid profile email');
-        authUrl.searchParams.append('redirect_uri', redirectUri);
+        authUrl.searchParams.append('redirect_uri', config.redirectUri);
         authUrl.searchParams.append('state', state);
         authUrl.searchParams.append('nonce', nonce);
+        authUrl.searchParams.append('code_challenge', codeChallenge);
+        authUrl.searchParams.append('code_challenge_method', 'S256');
         // SPID-specific parameters
-        authUrl.searchParams.append('acr_values', 'https://www.spid.gov.it/SpidL2');
+        authUrl.searchParams.append('acr_values', SPID_ACCEPTED_ACR[0]);
 
         app.logger.info(
           { authUrl: authUrl.toString().substring(0, 100) },
@@ -77,7 +107,7 @@ export function registerSpidAuthRoutes(app: App) {
         return {
           authUrl: authUrl.toString(),
           state,
-          nonce,
+          expiresAt,
         };
       } catch (error) {
         app.logger.error(
@@ -92,7 +122,7 @@ export function registerSpidAuthRoutes(app: App) {
   /**
    * GET /api/auth/spid/callback - SPID authorization callback
    * Handles the callback from SPID after user authentication
-   * This endpoint receives the authorization code
+   * Signs in a linked identity, otherwise returns a link token for POST /api/auth/spid/link
    */
   app.fastify.get(
     '/api/auth/spid/callback',
@@ -127,88 +157,98 @@ export function registerSpidAuthRoutes(app: App) {
         });
       }
 
-      try {
-        const clientId = process.env.SPID_CLIENT_ID;
-        const clientSecret = process.env.SPID_CLIENT_SECRET;
-        const redirectUri = process.env.SPID_REDIRECT_URI;
-        const metadataUrl = process.env.SPID_METADATA_URL;
+      const config = getSpidConfig();
+      if (!config) {
+        app.logger.error({}, 'SPID environment variables not configured');
+        return reply.status(500).send({
+          error: 'SPID authentication not configured',
+        });
+      }
 
-        if (!clientId || !clientSecret || !redirectUri || !metadataUrl) {
-          app.logger.error(
-            {},
-            'SPID environment variables not configured'
+      try {
+        const pending = await consumeSpidLoginState(app, state);
+        if (!pending) {
+          app.logger.warn(
+            { state: state.substring(0, 8) },
+            'SPID callback with unknown or expired state'
           );
-          return reply.status(500).send({
-            error: 'SPID authentication not configured',
+          return reply.status(400).send({
+            error: 'Invalid or expired state',
           });
         }
 
-        // TODO: Verify state parameter against stored value
-        // const stateKey = `spid:state:${state}`;
-        // Retrieve and verify stored state
-
-        // Exchange authorization code for tokens
-        const tokenEndpoint = metadataUrl.replace(
-          '/.well-known/openid-configuration',
-          '/token'
-        );
+        let claims;
+        try {
+          const discovery = await getDiscoveryDocument(config.metadataUrl);
 
-        const tokenResponse = await fetch(tokenEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: new URLSearchParams({
-            grant_type: 'authorization_code',
+          // Exchange authorization code for tokens
+          const tokens = await exchangeAuthorizationCode(discovery, {
             code,
-            client_id: clientId,
-            client_secret: clientSecret,
-            redirect_uri: redirectUri,
-          }).toString(),
-        });
+            codeVerifier: pending.codeVerifier,
+            clientId: config.clientId,
+            clientSecret: config.clientSecret,
+            redirectUri: config.redirectUri,
+          });
 
-        if (!tokenResponse.ok) {
-          const errorData = await tokenResponse.json();
-          app.logger.error(
-            { status: tokenResponse.status, error: errorData },
-            'SPID token exchange failed'
-          );
-          return reply.status(400).send({
-            error: 'Failed to exchange authorization code',
+          claims = await verifyIdToken(tokens.id_token, discovery, {
+            clientId: config.clientId,
+            nonce: pending.nonce,
+            acceptedAcr: SPID_ACCEPTED_ACR,
           });
+        } catch (error) {
+          if (error instanceof OidcError) {
+            app.logger.warn(
+              { err: error, state: state.substring(0, 8) },
+              'SPID token validation failed'
+            );
+            return reply.status(401).send({
+              error: 'SPID authentication could not be verified',
+              details: error.message,
+            });
+          }
+          throw error;
         }
 
-        const tokens = (await tokenResponse.json()) as {
-          access_token: string;
-          id_token: string;
-          token_type: string;
-          expires_in: number;
-        };
+        const identity = identityFromClaims(claims);
+        const account = await findSpidAccount(app, identity.subject);
 
-        app.logger.info(
-          { hasAccessToken: !!tokens.access_token, hasIdToken: !!tokens.id_token },
-          'SPID tokens received'
-        );
+        if (account) {
+          const user = await app.db.query.user.findFirst({
+            where: eq(authSchema.user.id, account.userId),
+          });
+          const session = await createSessionForUser(app, request, account.userId);
 
-        // TODO: Decode and verify JWT ID token
-        // Verify signature using SPID's public key from metadata
-        // Extract user information from ID token claims
-        // - sub (subject/user ID)
-        // - email
-        // - name / family_name / given_name
+          app.logger.info({ userId: account.userId }, 'SPID sign-in successful');
+
+          return {
+            success: true,
+            linked: true,
+            user: {
+              id: user.id,
+              email: user.email,
+              name: user.name,
+              image: user.image,
+            },
+            session,
+          };
+        }
 
-        // TODO: Create or update user in database with SPID identity
-        // Link SPID account to existing user or create new user
+        const ticket = await createSpidLinkTicket(app, identity);
 
-        // TODO: Create session and return authentication response
-        // Set secure session cookie with user information
+        app.logger.info(
+          { state: state.substring(0, 8) },
+          'SPID identity verified but not linked, issued link token'
+        );
 
         return {
           success: true,
-          message: 'SPID authentication successful',
-          tokens: {
-            accessToken: tokens.access_token,
-            expiresIn: tokens.expires_in,
+          linked: false,
+          linkToken: ticket.linkToken,
+          expiresAt: ticket.expiresAt,
+          identity: {
+            email: identity.email,
+            givenName: identity.givenName,
+            familyName: identity.familyName,
           },
         };
       } catch (error) {
@@ -222,46 +262,118 @@ export function registerSpidAuthRoutes(app: App) {
   );
 
   /**
-   * POST /api/auth/spid/link - Link SPID account to existing user
-   * Allows authenticated users to link SPID identity to their account
+   * POST /api/auth/spid/link - Link a verified SPID identity to an account
+   * Body: { linkToken: string } as returned by the callback
+   * Authenticated: links the identity to the current user
+   * Unauthenticated: creates a new account from the identity and signs it in
    */
   app.fastify.post(
     '/api/auth/spid/link',
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const requireAuth = app.requireAuth();
-      const session = await requireAuth(request, reply);
-      if (!session) return;
+      // Only treat the request as account linking when credentials were sent
+      let session = null;
+      if (request.headers.authorization) {
+        session = await requireAuth(request, reply);
+        if (!session) return;
+      }
 
-      const { spidSubject } = request.body as { spidSubject: string };
+      const { linkToken } = (request.body || {}) as { linkToken?: string };
+      const userId = session?.user.id;
 
       app.logger.info(
-        { userId: session.user.id, spidSubject },
-        'Linking SPID account to user'
+        { userId, hasLinkToken: !!linkToken },
+        'Linking SPID identity'
       );
 
-      if (!spidSubject) {
+      if (!linkToken) {
         return reply.status(400).send({
-          error: 'SPID subject is required',
+          error: 'Link token is required',
         });
       }
 
       try {
-        // TODO: Store SPID subject in user account
-        // Create mapping between SPID identity and user account
-        // This allows future logins via SPID to identify the same user
+        const identity = await consumeSpidLinkTicket(app, linkToken);
+        if (!identity) {
+          return reply.status(400).send({
+            error: 'Invalid or expired link token',
+          });
+        }
 
-        app.logger.info(
-          { userId: session.user.id, spidSubject },
-          'SPID account linked successfully'
-        );
+        const existing = await findSpidAccount(app, identity.subject);
+        if (existing) {
+          if (existing.userId === userId) {
+            return {
+              success: true,
+              message: 'SPID account already linked',
+            };
+          }
+
+          app.logger.warn({ userId }, 'SPID identity already linked to another user');
+          return reply.status(409).send({
+            error: 'This SPID identity is already linked to another account',
+          });
+        }
+
+        if (userId) {
+          const current = await app.db.query.account.findFirst({
+            where: and(
+              eq(authSchema.account.userId, userId),
+              eq(authSchema.account.providerId, SPID_PROVIDER_ID)
+            ),
+          });
+
+          if (current) {
+            return reply.status(409).send({
+              error: 'A different SPID identity is already linked to this account',
+            });
+          }
+
+          await linkSpidAccount(app, userId, identity);
+
+          app.logger.info({ userId }, 'SPID account linked successfully');
+
+          return {
+            success: true,
+            message: 'SPID account linked successfully',
+          };
+        }
+
+        if (!identity.email) {
+          return reply.status(400).send({
+            error: 'SPID identity has no email address. Sign in and link SPID to your account instead',
+          });
+        }
+
+        const emailTaken = await app.db.query.user.findFirst({
+          where: eq(authSchema.user.email, identity.email),
+        });
+
+        if (emailTaken) {
+          app.logger.warn({}, 'SPID sign-up blocked by existing account email');
+          return reply.status(409).send({
+            error: 'An account with this email already exists. Sign in and link SPID to your account instead',
+          });
+        }
+
+        const user = await createUserFromSpidIdentity(app, identity);
+        const newSession = await createSessionForUser(app, request, user.id);
+
+        app.logger.info({ userId: user.id }, 'Account created from SPID identity');
 
         return {
           success: true,
-          message: 'SPID account linked successfully',
+          created: true,
+          user: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            image: user.image,
+          },
+          session: newSession,
         };
       } catch (error) {
         app.logger.error(
-          { err: error, userId: session.user.id, spidSubject },
+          { err: error, userId },
           'Failed to link SPID account'
         );
         throw error;
@@ -0,0 +1,69 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as schema from '../db/schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { registerUserRoutes } from './users.js';
+
+describe('DELETE /api/users/me', () => {
+  let testApp: TestApp;
+
+  beforeEach(async () => {
+    testApp = await createTestApp([registerUserRoutes], ['alice', 'bob', 'carol']);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const deleteAccount = (userId: string) =>
+    testApp.request(userId, { method: 'DELETE', url: '/api/users/me', payload: { confirm: true } });
+
+  it('deletes the user\'s conversations and their messages', async () => {
+    const [withBob, withCarol, others] = await testApp.db
+      .insert(schema.conversations)
+      .values([
+        { userAId: 'alice', userBId: 'bob' },
+        { userAId: 'carol', userBId: 'alice' },
+        { userAId: 'bob', userBId: 'carol' },
+      ])
+      .returning();
+    await testApp.db.insert(schema.conversationMessages).values([
+      { conversationId: withBob.id, senderId: 'bob', body: 'Hi Alice' },
+      { conversationId: withCarol.id, senderId: 'alice', body: 'Hi Carol' },
+      { conversationId: others.id, senderId: 'carol', body: 'Hi Bob' },
+    ]);
+
+    assert.equal((await deleteAccount('alice')).statusCode, 200);
+
+    const conversations = await testApp.db.select().from(schema.conversations);
+    assert.deepEqual(conversations.map((conversation) => conversation.id), [others.id]);
+    const messages = await testApp.db.select().from(schema.conversationMessages);
+    assert.deepEqual(messages.map((message) => message.body), ['Hi Bob']);
+  });
+
+  it('deletes the user\'s device keys and the envelopes sealed to them', async () => {
+    const [aliceKey, bobKey] = await testApp.db
+      .insert(schema.deviceKeys)
+      .values([
+        { userId: 'alice', deviceId: 'alice-phone', publicKey: 'a'.repeat(44) },
+        { userId: 'bob', deviceId: 'bob-phone', publicKey: 'b'.repeat(44) },
+      ])
+      .returning();
+    const [message] = await testApp.db
+      .insert(schema.messages)
+      .values({ senderId: 'bob', recipientId: 'alice', content: 'ciphertext', encrypted: true })
+      .returning();
+    const envelope = { messageId: message.id, ephemeralPublicKey: 'e', nonce: 'n', sealedKey: 's' };
+    await testApp.db.insert(schema.messageKeys).values([
+      { ...envelope, deviceKeyId: aliceKey.id },
+      { ...envelope, deviceKeyId: bobKey.id },
+    ]);
+
+    assert.equal((await deleteAccount('alice')).statusCode, 200);
+
+    const deviceKeys = await testApp.db.select().from(schema.deviceKeys);
+    assert.deepEqual(deviceKeys.map((key) => key.id), [bobKey.id]);
+    const messageKeys = await testApp.db.select().from(schema.messageKeys);
+    assert.deepEqual(messageKeys.map((key) => key.deviceKeyId), [bobKey.id]);
+  });
+});
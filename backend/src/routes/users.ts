@@ -1,14 +1,18 @@
 import type { App } from '../index.js';
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, count } from 'drizzle-orm';
+import { eq, and, or, count } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
+import { getStorage } from '../storage/index.js';
+import { formatAttachment } from '../utils/attachments.js';
+import { formatDeviceKey } from '../utils/message-encryption.js';
+import { formatConsentReceipt } from '../utils/consent-receipts.js';
 
 export function registerUserRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
   /**
    * GET /api/users/me/data - Export all personal data for the current user (GDPR)
-   * Returns all user data including messages, sessions, and push tokens
+   * Returns all user data including messages, sessions, push tokens, and consent receipts
    */
   app.fastify.get<{}>(
     '/api/users/me/data',
@@ -22,7 +26,17 @@ export function registerUserRoutes(app: App) {
 
       try {
         // Fetch all user data
-        const [sentMessages, receivedMessages, proximitySessions, pushTokens] =
+        const [
+          sentMessages,
+          receivedMessages,
+          groupMessages,
+          proximitySessions,
+          pushTokens,
+          attachments,
+          conversationMessages,
+          deviceKeys,
+          consentReceipts,
+        ] =
           await Promise.all([
             // Messages sent by user
             app.db
@@ -34,6 +48,12 @@ export function registerUserRoutes(app: App) {
               .select()
               .from(schema.messages)
               .where(eq(schema.messages.recipientId, userId)),
+            // Group messages the user is one of the recipients of, with their own answer
+            app.db
+              .select({ recipient: schema.messageRecipients, message: schema.messages })
+              .from(schema.messageRecipients)
+              .innerJoin(schema.messages, eq(schema.messageRecipients.messageId, schema.messages.id))
+              .where(eq(schema.messageRecipients.recipientId, userId)),
             // Proximity sessions initiated by user
             app.db
               .select()
@@ -44,6 +64,31 @@ export function registerUserRoutes(app: App) {
               .select()
               .from(schema.pushTokens)
               .where(eq(schema.pushTokens.userId, userId)),
+            // Files uploaded by user
+            app.db
+              .select()
+              .from(schema.messageAttachments)
+              .where(eq(schema.messageAttachments.uploaderId, userId)),
+            // Chat messages written by user
+            app.db
+              .select()
+              .from(schema.conversationMessages)
+              .where(eq(schema.conversationMessages.senderId, userId)),
+            // Public keys of the user's devices, including revoked ones
+            app.db
+              .select()
+              .from(schema.deviceKeys)
+              .where(eq(schema.deviceKeys.userId, userId)),
+            // Signed receipts of consent the user gave or received
+            app.db
+              .select()
+              .from(schema.consentReceipts)
+              .where(
+                or(
+                  eq(schema.consentReceipts.senderId, userId),
+                  eq(schema.consentReceipts.recipientId, userId)
+                )
+              ),
           ]);
 
         const exportData = {
@@ -63,7 +108,10 @@ export function registerUserRoutes(app: App) {
               id: msg.id,
               recipientId: msg.recipientId,
               content: msg.content,
+              encrypted: msg.encrypted,
               status: msg.status,
+              revokedAt: msg.revokedAt,
+              revocationReason: msg.revocationReason,
               createdAt: msg.createdAt,
               updatedAt: msg.updatedAt,
             })),
@@ -71,10 +119,26 @@ export function registerUserRoutes(app: App) {
               id: msg.id,
               senderId: msg.senderId,
               content: msg.content,
+              encrypted: msg.encrypted,
               status: msg.status,
+              revokedAt: msg.revokedAt,
+              revocationReason: msg.revocationReason,
               createdAt: msg.createdAt,
               updatedAt: msg.updatedAt,
             })),
+            groupMessages: groupMessages.map(({ recipient, message }) => ({
+              id: message.id,
+              senderId: message.senderId,
+              content: message.content,
+              encrypted: message.encrypted,
+              status: recipient.status,
+              respondedAt: recipient.respondedAt,
+              revokedAt: recipient.revokedAt,
+              revocationReason: recipient.revocationReason,
+              formAnswers: recipient.formAnswers,
+              createdAt: message.createdAt,
+              updatedAt: recipient.updatedAt,
+            })),
           },
           proximitySessions: {
             count: proximitySessions.length,
@@ -97,6 +161,32 @@ export function registerUserRoutes(app: App) {
               updatedAt: t.updatedAt,
             })),
           },
+          attachments: {
+            count: attachments.length,
+            totalBytes: attachments.reduce((total, attachment) => total + attachment.size, 0),
+            // Each file can be downloaded from its url
+            files: attachments.map(formatAttachment),
+          },
+          conversations: {
+            sentMessages: conversationMessages.length,
+            messages: conversationMessages.map((message) => ({
+              id: message.id,
+              conversationId: message.conversationId,
+              body: message.body,
+              replyToId: message.replyToId,
+              createdAt: message.createdAt,
+            })),
+          },
+          // Private keys never leave the devices, so encrypted content can only be read there
+          deviceKeys: {
+            count: deviceKeys.length,
+            keys: deviceKeys.map(formatDeviceKey),
+          },
+          consentReceipts: {
+            given: consentReceipts.filter((receipt) => receipt.recipientId === userId).length,
+            received: consentReceipts.filter((receipt) => receipt.senderId === userId).length,
+            receipts: consentReceipts.map(formatConsentReceipt),
+          },
           exportedAt: new Date().toISOString(),
         };
 
@@ -105,8 +195,13 @@ export function registerUserRoutes(app: App) {
             userId,
             sentMessages: sentMessages.length,
             receivedMessages: receivedMessages.length,
+            groupMessages: groupMessages.length,
             proximitySessions: proximitySessions.length,
             pushTokens: pushTokens.length,
+            attachments: attachments.length,
+            conversationMessages: conversationMessages.length,
+            deviceKeys: deviceKeys.length,
+            consentReceipts: consentReceipts.length,
           },
           'User personal data exported'
         );
@@ -135,6 +230,9 @@ export function registerUserRoutes(app: App) {
    * - All messages (sent and received)
    * - All proximity sessions
    * - All push tokens
+   * - All uploaded attachments, including the stored files
+   * - All conversations and their messages
+   * - All device keys and the message key envelopes sealed to them
    * - User account itself
    */
   app.fastify.delete(
@@ -157,7 +255,7 @@ export function registerUserRoutes(app: App) {
       try {
         // Delete all user data in transaction
         // Database constraints with onDelete: 'cascade' will handle related records
-        const deletedUser = await app.db.transaction(async (tx) => {
+        const deletedAttachments = await app.db.transaction(async (tx) => {
           // Get user data before deletion for audit log
           const userMessages = await tx
             .select()
@@ -192,6 +290,7 @@ export function registerUserRoutes(app: App) {
             .set({
               senderId: 'deleted-user',
               content: '[This message sender has deleted their account]',
+              encrypted: false,
             })
             .where(eq(schema.messages.senderId, userId));
 
@@ -206,13 +305,57 @@ export function registerUserRoutes(app: App) {
             'Anonymized messages before user deletion'
           );
 
+          // Conversations are private to their two participants, so both sides' copies go;
+          // their messages follow through the conversation_id cascade
+          const deletedConversations = await tx
+            .delete(schema.conversations)
+            .where(
+              or(
+                eq(schema.conversations.userAId, userId),
+                eq(schema.conversations.userBId, userId)
+              )
+            )
+            .returning({ id: schema.conversations.id });
+
+          app.logger.info(
+            { userId, conversations: deletedConversations.length },
+            'Deleted conversations before user deletion'
+          );
+
+          // The envelopes sealed to these keys follow through the device_key_id cascade
+          const deletedDeviceKeys = await tx
+            .delete(schema.deviceKeys)
+            .where(eq(schema.deviceKeys.userId, userId))
+            .returning({ id: schema.deviceKeys.id });
+
+          app.logger.info(
+            { userId, deviceKeys: deletedDeviceKeys.length },
+            'Deleted device keys before user deletion'
+          );
+
           // Note: In a real system, you would also delete the user from Better Auth
           // This would be done through the auth system's user deletion endpoint
           // For now, we're just noting the cascading deletions
+
+          // Uploaded files go with the content they illustrated
+          return tx
+            .delete(schema.messageAttachments)
+            .where(eq(schema.messageAttachments.uploaderId, userId))
+            .returning({ storageKey: schema.messageAttachments.storageKey });
         });
 
+        // Files are removed after the commit; a failure only leaves an unreferenced file behind
+        const storage = getStorage();
+        for (const { storageKey } of deletedAttachments) {
+          try {
+            await storage.delete(storageKey);
+          } catch (error) {
+            app.logger.error({ err: error, userId, storageKey }, 'Failed to delete attachment file');
+          }
+        }
+
         app.logger.info(
-          { userId },
+          { userId, attachments: deletedAttachments.length },
           'User account and associated data deletion initiated'
         );
 
@@ -310,6 +453,26 @@ export function registerUserRoutes(app: App) {
             )
           );
 
+        const [sentRevoked] = await app.db
+          .select({ value: count() })
+          .from(schema.messages)
+          .where(
+            and(
+              eq(schema.messages.senderId, userId),
+              eq(schema.messages.status, 'revoked')
+            )
+          );
+
+        const [sentCountered] = await app.db
+          .select({ value: count() })
+          .from(schema.messages)
+          .where(
+            and(
+              eq(schema.messages.senderId, userId),
+              eq(schema.messages.status, 'countered')
+            )
+          );
+
         const [receivedPending] = await app.db
           .select({ value: count() })
           .from(schema.messages)
@@ -340,6 +503,26 @@ export function registerUserRoutes(app: App) {
             )
           );
 
+        const [receivedRevoked] = await app.db
+          .select({ value: count() })
+          .from(schema.messages)
+          .where(
+            and(
+              eq(schema.messages.recipientId, userId),
+              eq(schema.messages.status, 'revoked')
+            )
+          );
+
+        const [receivedCountered] = await app.db
+          .select({ value: count() })
+          .from(schema.messages)
+          .where(
+            and(
+              eq(schema.messages.recipientId, userId),
+              eq(schema.messages.status, 'countered')
+            )
+          );
+
         const [proximitySessions] = await app.db
           .select({ value: count() })
           .from(schema.proximitySessions)
@@ -356,13 +539,17 @@ export function registerUserRoutes(app: App) {
               pending: sentPending?.value || 0,
               accepted: sentAccepted?.value || 0,
               rejected: sentRejected?.value || 0,
-              total: (sentPending?.value || 0) + (sentAccepted?.value || 0) + (sentRejected?.value || 0),
+              revoked: sentRevoked?.value || 0,
+              countered: sentCountered?.value || 0,
+              total: (sentPending?.value || 0) + (sentAccepted?.value || 0) + (sentRejected?.value || 0) + (sentRevoked?.value || 0) + (sentCountered?.value || 0),
             },
             received: {
               pending: receivedPending?.value || 0,
               accepted: receivedAccepted?.value || 0,
               rejected: receivedRejected?.value || 0,
-              total: (receivedPending?.value || 0) + (receivedAccepted?.value || 0) + (receivedRejected?.value || 0),
+              revoked: receivedRevoked?.value || 0,
+              countered: receivedCountered?.value || 0,
+              total: (receivedPending?.value || 0) + (receivedAccepted?.value || 0) + (receivedRejected?.value || 0) + (receivedRevoked?.value || 0) + (receivedCountered?.value || 0),
             },
           },
           proximitySessions: proximitySessions?.value || 0,
@@ -0,0 +1,39 @@
+import type { StorageDriver } from './types.js';
+import { createLocalDiskStorage } from './local-disk.js';
+import { createMemoryStorage, type MemoryStorageDriver } from './memory-storage.js';
+
+export type { StorageDriver } from './types.js';
+
+/**
+ * Storage
+ * Blob storage for uploaded files, behind a swappable driver
+ *
+ * Environment variables:
+ * - STORAGE_DRIVER: "local" or "memory" (default: local)
+ */
+
+let driver: StorageDriver | null = null;
+
+export const memoryStorage: MemoryStorageDriver = createMemoryStorage();
+
+export function getStorage(): StorageDriver {
+  if (!driver) {
+    switch (process.env.STORAGE_DRIVER) {
+      case 'memory':
+        driver = memoryStorage;
+        break;
+      case 'local':
+      default:
+        driver = createLocalDiskStorage();
+        break;
+    }
+  }
+  return driver;
+}
+
+/**
+ * Replaces the active driver, e.g. to inject the memory driver in tests
+ */
+export function setStorage(override: StorageDriver | null): void {
+  driver = override;
+}
@@ -0,0 +1,48 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import type { StorageDriver } from './types.js';
+
+/**
+ * Local Disk Storage
+ * Keeps each object as a file below a root directory
+ *
+ * Environment variables:
+ * - STORAGE_LOCAL_DIR: Root directory (default ./uploads)
+ */
+export function createLocalDiskStorage(): StorageDriver {
+  const root = resolve(process.env.STORAGE_LOCAL_DIR || './uploads');
+
+  // Keys are generated server-side, but never let one point outside the root
+  const pathFor = (key: string) => {
+    const path = resolve(join(root, key));
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(pathFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
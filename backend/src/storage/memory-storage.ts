@@ -0,0 +1,36 @@
+import type { StorageDriver } from './types.js';
+
+/**
+ * Memory Storage
+ * Keeps objects in memory so tests can run without touching the disk
+ */
+
+export interface MemoryStorageDriver extends StorageDriver {
+  readonly objects: Map<string, Buffer>;
+  reset(): void;
+}
+
+export function createMemoryStorage(): MemoryStorageDriver {
+  const objects = new Map<string, Buffer>();
+
+  return {
+    name: 'memory',
+    objects,
+
+    async put(key, data) {
+      objects.set(key, Buffer.from(data));
+    },
+
+    async get(key) {
+      return objects.get(key) ?? null;
+    },
+
+    async delete(key) {
+      objects.delete(key);
+    },
+
+    reset() {
+      objects.clear();
+    },
+  };
+}
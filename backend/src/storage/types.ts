@@ -0,0 +1,17 @@
+/**
+ * Storage Types
+ * Shared contract between attachment handling and storage drivers
+ */
+
+/**
+ * A blob store addressed by opaque keys
+ * Drivers throw on failures; a missing object is not a failure
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  /** Returns null when no object is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Deleting a missing object is a no-op */
+  delete(key: string): Promise<void>;
+}
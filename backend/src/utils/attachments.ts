@@ -0,0 +1,155 @@
+import type { App } from '../index.js';
+import { asc, eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import * as schema from '../db/schema.js';
+import { findGroupRecipient } from './group-messages.js';
+
+/**
+ * Attachment Utilities
+ * File type checks, access rules and formatting for message attachments
+ *
+ * Environment variables:
+ * - ATTACHMENT_MAX_BYTES: Largest accepted upload (default 10 MB)
+ */
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const MAX_FILE_NAME_LENGTH = 120;
+
+/**
+ * Accepted types, each with the leading bytes every such file starts with
+ * The declared Content-Type must match what the bytes say
+ */
+const ATTACHMENT_TYPES: Record<string, { extension: string; matches: (data: Buffer) => boolean }> = {
+  'image/jpeg': {
+    extension: 'jpg',
+    matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  },
+  'image/png': {
+    extension: 'png',
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  'image/webp': {
+    extension: 'webp',
+    matches: (data) =>
+      data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  'image/heic': {
+    extension: 'heic',
+    matches: (data) =>
+      data.subarray(4, 8).toString('latin1') === 'ftyp' &&
+      ['heic', 'heix', 'mif1', 'msf1'].includes(data.subarray(8, 12).toString('latin1')),
+  },
+  'application/pdf': {
+    extension: 'pdf',
+    matches: (data) => data.subarray(0, 5).toString('latin1') === '%PDF-',
+  },
+};
+
+export const ATTACHMENT_CONTENT_TYPES = Object.keys(ATTACHMENT_TYPES);
+
+export function getMaxAttachmentBytes(): number {
+  const value = parseInt(process.env.ATTACHMENT_MAX_BYTES || '', 10);
+  return value > 0 ? value : DEFAULT_MAX_BYTES;
+}
+
+/**
+ * Checks uploaded bytes against the declared type
+ * Returns an error message, or null when the file is acceptable
+ */
+export function validateAttachment(contentType: string, data: Buffer): string | null {
+  const type = ATTACHMENT_TYPES[contentType];
+
+  if (!type) {
+    return `Unsupported file type. Allowed: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`;
+  }
+  if (data.length === 0) {
+    return 'File is empty';
+  }
+  if (data.length > getMaxAttachmentBytes()) {
+    return `File must be at most ${getMaxAttachmentBytes()} bytes`;
+  }
+  if (!type.matches(data)) {
+    return `File content does not match ${contentType}`;
+  }
+  return null;
+}
+
+/**
+ * Makes a client-supplied file name safe to store and send back in headers
+ * Falls back to a generic name with the type's extension
+ */
+export function sanitizeFileName(name: string | undefined, contentType: string): string {
+  const extension = ATTACHMENT_TYPES[contentType]?.extension ?? 'bin';
+  const cleaned = (name || '')
+    .replace(/^.*[\\/]/, '')
+    .replace(/[^\w.\- ]+/g, '_')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+
+  if (!cleaned || cleaned.startsWith('.')) {
+    return `attachment.${extension}`;
+  }
+  return cleaned.toLowerCase().endsWith(`.${extension}`) ? cleaned : `${cleaned}.${extension}`;
+}
+
+export function buildStorageKey(messageId: string, attachmentId: string): string {
+  return `attachments/${messageId}/${attachmentId}`;
+}
+
+export function hashAttachment(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Decides whether a user may see a message's attachments
+ * Allowed: the sender, the recipient, group recipients, and - while a link message has no
+ * recipient yet - whoever presents its valid link token
+ */
+export async function canAccessAttachments(
+  app: App,
+  message: typeof schema.messages.$inferSelect,
+  userId: string,
+  linkToken?: string
+): Promise<boolean> {
+  if (message.senderId === userId || message.recipientId === userId) {
+    return true;
+  }
+
+  if (message.isGroup) {
+    return !!(await findGroupRecipient(app, message.id, userId));
+  }
+
+  return (
+    !message.recipientId &&
+    !!linkToken &&
+    linkToken === message.linkToken &&
+    !(message.linkExpiresAt && new Date() > message.linkExpiresAt) &&
+    !(message.singleUse && message.linkUsed)
+  );
+}
+
+export async function listAttachments(app: App, messageId: string) {
+  return app.db
+    .select()
+    .from(schema.messageAttachments)
+    .where(eq(schema.messageAttachments.messageId, messageId))
+    .orderBy(asc(schema.messageAttachments.createdAt));
+}
+
+/**
+ * Formats attachment metadata for API responses
+ */
+export function formatAttachment(attachment: typeof schema.messageAttachments.$inferSelect) {
+  return {
+    id: attachment.id,
+    messageId: attachment.messageId,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    sha256: attachment.sha256,
+    url: `/api/attachments/${attachment.id}`,
+    createdAt: attachment.createdAt,
+  };
+}
@@ -0,0 +1,33 @@
+import type { App } from '../index.js';
+import { and, eq, or, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Block Utilities
+ * Blocks are symmetric in effect: either side blocking stops all contact
+ */
+
+/**
+ * Checks whether either user has blocked the other
+ */
+export async function isBlockedBetween(app: App, userA: string, userB: string): Promise<boolean> {
+  const block = await app.db.query.userBlocks.findFirst({
+    where: or(
+      and(eq(schema.userBlocks.blockerId, userA), eq(schema.userBlocks.blockedId, userB)),
+      and(eq(schema.userBlocks.blockerId, userB), eq(schema.userBlocks.blockedId, userA))
+    ),
+  });
+
+  return !!block;
+}
+
+/**
+ * SQL condition excluding rows whose user column is blocked by, or has blocked, the given user
+ */
+export function notBlockedWith(userId: string, userColumn: AnyColumn): SQL {
+  return sql`not exists (
+    select 1 from ${schema.userBlocks}
+    where (${schema.userBlocks.blockerId} = ${userId} and ${schema.userBlocks.blockedId} = ${userColumn})
+       or (${schema.userBlocks.blockerId} = ${userColumn} and ${schema.userBlocks.blockedId} = ${userId})
+  )`;
+}
@@ -0,0 +1,117 @@
+import type { App } from '../index.js';
+import { and, eq, min, or, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+import { openRequestFilter } from './connection-policy.js';
+
+/**
+ * Connection Graph Utilities
+ * Treats directional device_connections rows as undirected edges between two users
+ */
+
+export interface ConnectedUser {
+  userId: string;
+  username: string;
+  /** Earliest connection id between the pair, used as the handle for the edge */
+  connectionId: string;
+  connectedAt: Date;
+}
+
+/**
+ * Matches connection rows between two users in either direction
+ */
+export function betweenUsers(a: string, b: string): SQL {
+  return or(
+    and(
+      eq(schema.deviceConnections.requesterUserId, a),
+      eq(schema.deviceConnections.targetUserId, b)
+    ),
+    and(
+      eq(schema.deviceConnections.requesterUserId, b),
+      eq(schema.deviceConnections.targetUserId, a)
+    )
+  )!;
+}
+
+/**
+ * Accepts an open request from otherUserId to userId, if one exists
+ * Used when userId asks for or accepts a connection the other side already requested
+ */
+export async function acceptCrossingRequest(
+  app: App,
+  userId: string,
+  otherUserId: string
+): Promise<typeof schema.deviceConnections.$inferSelect | undefined> {
+  const [accepted] = await app.db
+    .update(schema.deviceConnections)
+    .set({ status: 'accepted', expiresAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(schema.deviceConnections.requesterUserId, otherUserId),
+        eq(schema.deviceConnections.targetUserId, userId),
+        openRequestFilter()
+      )
+    )
+    .returning();
+
+  return accepted;
+}
+
+/**
+ * Checks whether two users have an accepted connection in either direction
+ */
+export async function areConnected(app: App, a: string, b: string): Promise<boolean> {
+  const connection = await app.db.query.deviceConnections.findFirst({
+    where: and(betweenUsers(a, b), eq(schema.deviceConnections.status, 'accepted')),
+  });
+  return !!connection;
+}
+
+/**
+ * Lists a user's accepted connections regardless of direction, one entry per connected user
+ */
+export async function getConnectedUsers(app: App, userId: string): Promise<ConnectedUser[]> {
+  const otherUserId = sql<string>`case when ${schema.deviceConnections.requesterUserId} = ${userId} then ${schema.deviceConnections.targetUserId} else ${schema.deviceConnections.requesterUserId} end`;
+
+  // Postgres has no min() for uuids, so the earliest row's id is picked explicitly
+  const firstConnectionId = sql<string>`(array_agg(${schema.deviceConnections.id} order by ${schema.deviceConnections.createdAt}))[1]`;
+
+  const edges = app.db
+    .select({
+      otherUserId: otherUserId.as('other_user_id'),
+      connectionId: firstConnectionId.as('connection_id'),
+      connectedAt: min(schema.deviceConnections.createdAt).as('connected_at'),
+    })
+    .from(schema.deviceConnections)
+    .where(
+      and(
+        or(
+          eq(schema.deviceConnections.requesterUserId, userId),
+          eq(schema.deviceConnections.targetUserId, userId)
+        ),
+        eq(schema.deviceConnections.status, 'accepted')
+      )
+    )
+    // By position: the user id is bound as a separate parameter in each clause
+    .groupBy(sql`1`)
+    .as('edges');
+
+  const rows = await app.db
+    .select({
+      userId: edges.otherUserId,
+      username: authSchema.user.name,
+      connectionId: edges.connectionId,
+      connectedAt: edges.connectedAt,
+    })
+    .from(edges)
+    .innerJoin(authSchema.user, eq(authSchema.user.id, edges.otherUserId))
+    .orderBy(edges.connectedAt);
+
+  return rows.map((row) => ({
+    userId: row.userId,
+    username: row.username,
+    connectionId: row.connectionId,
+    // Aggregates read through a subquery come back as strings
+    connectedAt: new Date(row.connectedAt),
+  }));
+}
@@ -0,0 +1,160 @@
+import type { App } from '../index.js';
+import { and, eq, gt, isNull, or, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Connection Request Policy
+ * How long requests stay open, and when a rejected requester may ask the same user again
+ *
+ * Environment variables:
+ * - CONNECTION_REQUEST_TTL_HOURS: How long a request stays pending before it expires (default 72)
+ * - CONNECTION_REREQUEST_COOLDOWN_HOURS: Wait after a rejection before asking again (default 72)
+ * - CONNECTION_MAX_REJECTIONS: Rejections after which no further requests are allowed (default 3)
+ */
+
+const DEFAULT_REQUEST_TTL_HOURS = 72;
+const DEFAULT_COOLDOWN_HOURS = 72;
+const DEFAULT_MAX_REJECTIONS = 3;
+
+export type RerequestDenialReason = 'cooldown' | 'limit_reached' | 'not_allowed';
+
+export interface RerequestDecision {
+  allowed: boolean;
+  reason?: RerequestDenialReason;
+  /** When a new request becomes possible; null when it never will */
+  retryAt?: Date | null;
+  /** Re-requests left before the limit is reached */
+  remaining: number;
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+export function getRerequestPolicy(): { cooldownMs: number; maxRejections: number } {
+  return {
+    cooldownMs:
+      readPositiveInt('CONNECTION_REREQUEST_COOLDOWN_HOURS', DEFAULT_COOLDOWN_HOURS) * 60 * 60 * 1000,
+    maxRejections: readPositiveInt('CONNECTION_MAX_REJECTIONS', DEFAULT_MAX_REJECTIONS),
+  };
+}
+
+/**
+ * When a request created now stops being answerable
+ */
+export function getRequestExpiry(from: Date = new Date()): Date {
+  const hours = readPositiveInt('CONNECTION_REQUEST_TTL_HOURS', DEFAULT_REQUEST_TTL_HOURS);
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Matches pending requests that have not expired yet, even if the sweeper has not run
+ * Rows without expires_at never lapse
+ */
+export function openRequestFilter(now: Date = new Date()): SQL {
+  return and(
+    eq(schema.deviceConnections.status, 'pending'),
+    or(isNull(schema.deviceConnections.expiresAt), gt(schema.deviceConnections.expiresAt, now))
+  )!;
+}
+
+/**
+ * In-memory counterpart of openRequestFilter
+ */
+export function isOpenRequest(
+  connection: typeof schema.deviceConnections.$inferSelect,
+  now: Date = new Date()
+): boolean {
+  return connection.status === 'pending' && (!connection.expiresAt || connection.expiresAt > now);
+}
+
+/**
+ * Checks the requester's rejection history with the target
+ */
+export async function checkRerequest(
+  app: App,
+  requesterUserId: string,
+  targetUserId: string,
+  now: Date = new Date()
+): Promise<RerequestDecision> {
+  const { cooldownMs, maxRejections } = getRerequestPolicy();
+
+  const history = await app.db.query.connectionRejections.findFirst({
+    where: and(
+      eq(schema.connectionRejections.requesterUserId, requesterUserId),
+      eq(schema.connectionRejections.targetUserId, targetUserId)
+    ),
+  });
+
+  if (!history) {
+    return { allowed: true, remaining: maxRejections };
+  }
+
+  const remaining = Math.max(maxRejections - history.rejectionCount, 0);
+
+  if (history.neverAllow) {
+    return { allowed: false, reason: 'not_allowed', retryAt: null, remaining: 0 };
+  }
+
+  if (remaining === 0) {
+    return { allowed: false, reason: 'limit_reached', retryAt: null, remaining };
+  }
+
+  const retryAt = new Date(history.lastRejectedAt.getTime() + cooldownMs);
+  if (retryAt > now) {
+    return { allowed: false, reason: 'cooldown', retryAt, remaining };
+  }
+
+  return { allowed: true, remaining };
+}
+
+/**
+ * Explains a denial in the error returned to the requester
+ */
+export function describeRerequestDenial(decision: RerequestDecision): string {
+  switch (decision.reason) {
+    case 'cooldown':
+      return `This user declined your request. You can ask again after ${decision.retryAt?.toISOString()}`;
+    case 'limit_reached':
+      return 'This user declined your requests too many times. No further requests are possible';
+    case 'not_allowed':
+    default:
+      return 'This user does not accept further requests from you';
+  }
+}
+
+/**
+ * Records a rejection; neverAllow stops all future requests from the requester
+ */
+export async function recordRejection(
+  app: App,
+  requesterUserId: string,
+  targetUserId: string,
+  neverAllow: boolean
+): Promise<void> {
+  const now = new Date();
+
+  await app.db
+    .insert(schema.connectionRejections)
+    .values({
+      requesterUserId,
+      targetUserId,
+      rejectionCount: 1,
+      lastRejectedAt: now,
+      neverAllow,
+    })
+    .onConflictDoUpdate({
+      target: [
+        schema.connectionRejections.requesterUserId,
+        schema.connectionRejections.targetUserId,
+      ],
+      set: {
+        rejectionCount: sql`${schema.connectionRejections.rejectionCount} + 1`,
+        lastRejectedAt: now,
+        // Once set, only the target clearing the history lifts it
+        neverAllow: sql`${schema.connectionRejections.neverAllow} or ${neverAllow}`,
+        updatedAt: now,
+      },
+    });
+}
@@ -0,0 +1,270 @@
+/**
+ * Consent Form Utilities
+ * Structured questions attached to a message and validation of the recipient's answers
+ *
+ * Field types and their answers:
+ * - checkbox: pick options; answer is an array of option ids
+ * - acknowledgement: a statement to confirm; answer is true
+ * - slot: pick one date/time slot; answer is a slot id
+ * - text: free-text answer; answer is a string
+ */
+
+export type FormFieldType = 'checkbox' | 'acknowledgement' | 'slot' | 'text';
+
+export interface FormOption {
+  id: string;
+  label: string;
+}
+
+export interface FormSlot {
+  id: string;
+  /** ISO 8601 timestamps */
+  start: string;
+  end: string;
+}
+
+export interface FormField {
+  id: string;
+  type: FormFieldType;
+  label: string;
+  required?: boolean;
+  /** checkbox */
+  options?: FormOption[];
+  minSelected?: number;
+  maxSelected?: number;
+  /** slot */
+  slots?: FormSlot[];
+  /** text */
+  maxLength?: number;
+}
+
+export interface ConsentForm {
+  version: 1;
+  fields: FormField[];
+}
+
+export type FormAnswer = boolean | string | string[];
+export type FormAnswers = Record<string, FormAnswer>;
+
+export const FORM_FIELD_TYPES: FormFieldType[] = ['checkbox', 'acknowledgement', 'slot', 'text'];
+
+export const MAX_FORM_FIELDS = 20;
+export const MAX_FIELD_CHOICES = 20;
+export const MAX_FIELD_LABEL_LENGTH = 200;
+export const DEFAULT_TEXT_MAX_LENGTH = 500;
+export const MAX_TEXT_MAX_LENGTH = 2000;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+/**
+ * Raised when a form definition or the answers to it are invalid
+ */
+export class FormError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormError';
+  }
+}
+
+function isLabel(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.trim().length > 0 &&
+    value.trim().length <= MAX_FIELD_LABEL_LENGTH
+  );
+}
+
+function assertUniqueIds(ids: string[], what: string): void {
+  const invalid = ids.find((id) => typeof id !== 'string' || !ID_PATTERN.test(id));
+  if (invalid !== undefined) {
+    throw new FormError(`${what} ids must be 1-40 letters, digits, "-" or "_"`);
+  }
+  if (new Set(ids).size !== ids.length) {
+    throw new FormError(`${what} ids must be unique`);
+  }
+}
+
+function parseTimestamp(value: unknown): number {
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+function normalizeField(raw: FormField): FormField {
+  if (!FORM_FIELD_TYPES.includes(raw.type)) {
+    throw new FormError(`Field ${raw.id}: type must be one of: ${FORM_FIELD_TYPES.join(', ')}`);
+  }
+
+  if (!isLabel(raw.label)) {
+    throw new FormError(`Field ${raw.id}: label is required and must be at most ${MAX_FIELD_LABEL_LENGTH} characters`);
+  }
+
+  const field: FormField = {
+    id: raw.id,
+    type: raw.type,
+    label: raw.label.trim(),
+    // Acknowledgements exist to be confirmed
+    required: raw.type === 'acknowledgement' ? true : raw.required === true,
+  };
+
+  switch (raw.type) {
+    case 'checkbox': {
+      const options = Array.isArray(raw.options) ? raw.options : [];
+      if (options.length === 0 || options.length > MAX_FIELD_CHOICES) {
+        throw new FormError(`Field ${raw.id}: options must list between 1 and ${MAX_FIELD_CHOICES} choices`);
+      }
+      assertUniqueIds(options.map((option) => option?.id), `Field ${raw.id}: option`);
+      if (!options.every((option) => isLabel(option.label))) {
+        throw new FormError(`Field ${raw.id}: every option needs a label`);
+      }
+
+      const minSelected = raw.minSelected ?? (field.required ? 1 : 0);
+      const maxSelected = raw.maxSelected ?? options.length;
+      if (
+        !Number.isInteger(minSelected) ||
+        !Number.isInteger(maxSelected) ||
+        minSelected < 0 ||
+        maxSelected < Math.max(minSelected, 1) ||
+        maxSelected > options.length
+      ) {
+        throw new FormError(`Field ${raw.id}: minSelected and maxSelected must fit the number of options`);
+      }
+
+      field.options = options.map((option) => ({ id: option.id, label: option.label.trim() }));
+      field.minSelected = minSelected;
+      field.maxSelected = maxSelected;
+      break;
+    }
+    case 'slot': {
+      const slots = Array.isArray(raw.slots) ? raw.slots : [];
+      if (slots.length === 0 || slots.length > MAX_FIELD_CHOICES) {
+        throw new FormError(`Field ${raw.id}: slots must list between 1 and ${MAX_FIELD_CHOICES} choices`);
+      }
+      assertUniqueIds(slots.map((slot) => slot?.id), `Field ${raw.id}: slot`);
+
+      field.slots = slots.map((slot) => {
+        const start = parseTimestamp(slot.start);
+        const end = parseTimestamp(slot.end);
+        if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+          throw new FormError(`Field ${raw.id}: slot ${slot.id} needs an ISO start before its end`);
+        }
+        return { id: slot.id, start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+      });
+      break;
+    }
+    case 'text': {
+      const maxLength = raw.maxLength ?? DEFAULT_TEXT_MAX_LENGTH;
+      if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_TEXT_MAX_LENGTH) {
+        throw new FormError(`Field ${raw.id}: maxLength must be between 1 and ${MAX_TEXT_MAX_LENGTH}`);
+      }
+      field.maxLength = maxLength;
+      break;
+    }
+  }
+
+  return field;
+}
+
+/**
+ * Validates a form definition sent by the sender and returns it in stored form
+ * Unknown properties are dropped
+ */
+export function normalizeConsentForm(raw: unknown): ConsentForm {
+  const fields = (raw as { fields?: unknown })?.fields;
+
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_FORM_FIELDS) {
+    throw new FormError(`form.fields must list between 1 and ${MAX_FORM_FIELDS} fields`);
+  }
+
+  assertUniqueIds(fields.map((field) => field?.id), 'Field');
+
+  return {
+    version: 1,
+    fields: fields.map((field) => normalizeField(field as FormField)),
+  };
+}
+
+function normalizeAnswer(field: FormField, answer: unknown): FormAnswer | undefined {
+  switch (field.type) {
+    case 'acknowledgement':
+      if (answer !== true) {
+        throw new FormError(`${field.label}: must be acknowledged`);
+      }
+      return true;
+
+    case 'checkbox': {
+      const selected = answer ?? [];
+      if (!Array.isArray(selected) || !selected.every((id) => typeof id === 'string')) {
+        throw new FormError(`${field.label}: answer must be a list of option ids`);
+      }
+      const unique = [...new Set(selected as string[])];
+      const known = field.options.map((option) => option.id);
+      if (unique.some((id) => !known.includes(id))) {
+        throw new FormError(`${field.label}: unknown option`);
+      }
+      if (unique.length < field.minSelected || unique.length > field.maxSelected) {
+        throw new FormError(
+          `${field.label}: select between ${field.minSelected} and ${field.maxSelected} options`
+        );
+      }
+      // Kept in option order so equal selections hash the same
+      return unique.length > 0 ? known.filter((id) => unique.includes(id)) : undefined;
+    }
+
+    case 'slot':
+      if (answer === undefined || answer === null || answer === '') {
+        if (field.required) {
+          throw new FormError(`${field.label}: choose a slot`);
+        }
+        return undefined;
+      }
+      if (!field.slots.some((slot) => slot.id === answer)) {
+        throw new FormError(`${field.label}: unknown slot`);
+      }
+      return answer as string;
+
+    case 'text': {
+      if (answer !== undefined && answer !== null && typeof answer !== 'string') {
+        throw new FormError(`${field.label}: answer must be text`);
+      }
+      const text = ((answer as string) ?? '').trim();
+      if (text.length === 0) {
+        if (field.required) {
+          throw new FormError(`${field.label}: an answer is required`);
+        }
+        return undefined;
+      }
+      if (text.length > field.maxLength) {
+        throw new FormError(`${field.label}: must be at most ${field.maxLength} characters`);
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Validates the recipient's answers against the form
+ * Returns the normalized answers, leaving out empty optional ones
+ */
+export function validateFormAnswers(form: ConsentForm, raw: unknown): FormAnswers {
+  if (raw !== undefined && raw !== null && (typeof raw !== 'object' || Array.isArray(raw))) {
+    throw new FormError('answers must be an object keyed by field id');
+  }
+
+  const answers = (raw || {}) as Record<string, unknown>;
+  const unknown = Object.keys(answers).filter(
+    (id) => !form.fields.some((field) => field.id === id)
+  );
+
+  if (unknown.length > 0) {
+    throw new FormError(`Unknown fields: ${unknown.join(', ')}`);
+  }
+
+  const normalized: FormAnswers = {};
+  for (const field of form.fields) {
+    const answer = normalizeAnswer(field, answers[field.id]);
+    if (answer !== undefined) {
+      normalized[field.id] = answer;
+    }
+  }
+
+  return normalized;
+}
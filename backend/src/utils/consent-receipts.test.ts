@@ -0,0 +1,65 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import {
+  getReceiptPublicKey,
+  serializeReceiptPayload,
+  signReceiptPayload,
+  verifyReceiptSignature,
+  type ConsentReceiptPayload,
+} from './consent-receipts.js';
+
+const payload: ConsentReceiptPayload = {
+  version: 1,
+  messageId: '6b1f4a52-2f1e-4a3c-9a57-0d7f1c2b9e10',
+  contentHash: 'a'.repeat(64),
+  senderId: 'alice',
+  recipientId: 'bob',
+  channel: 'link',
+  acceptedAt: '2026-10-19T12:00:00.000Z',
+};
+
+const pem = (key: KeyObject) =>
+  key.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+// The signing keys are loaded once per process, so every test below shares this setup
+describe('receipt signing keys', () => {
+  const savedEnv = { ...process.env };
+  const retired = generateKeyPairSync('ed25519');
+  const current = generateKeyPairSync('ed25519');
+
+  after(() => {
+    process.env = savedEnv;
+  });
+
+  it('refuses to sign in production without a configured key', () => {
+    delete process.env.RECEIPT_SIGNING_PRIVATE_KEY;
+    process.env.NODE_ENV = 'production';
+
+    assert.throws(() => signReceiptPayload(payload), /RECEIPT_SIGNING_PRIVATE_KEY must be set/);
+  });
+
+  it('verifies receipts signed by the current and by retired keys', () => {
+    process.env.RECEIPT_SIGNING_PRIVATE_KEY = pem(current.privateKey);
+    process.env.RECEIPT_RETIRED_PUBLIC_KEYS = retired.publicKey
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+
+    const { keyId, retiredKeys } = getReceiptPublicKey();
+    assert.equal(retiredKeys.length, 1);
+    const retiredKeyId = retiredKeys[0].keyId;
+    assert.notEqual(retiredKeyId, keyId);
+
+    const fresh = signReceiptPayload(payload);
+    assert.equal(fresh.keyId, keyId);
+    assert.ok(verifyReceiptSignature(payload, fresh.signature, fresh.keyId));
+
+    const old = sign(null, Buffer.from(serializeReceiptPayload(payload)), retired.privateKey).toString(
+      'base64url'
+    );
+    assert.ok(verifyReceiptSignature(payload, old, retiredKeyId));
+    assert.equal(verifyReceiptSignature(payload, old, keyId), false);
+    assert.equal(verifyReceiptSignature(payload, old, 'unknown-key'), false);
+    assert.equal(verifyReceiptSignature({ ...payload, recipientId: 'carol' }, old, retiredKeyId), false);
+  });
+});
@@ -0,0 +1,383 @@
+import type { App } from '../index.js';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { ConsentForm, FormAnswers } from './consent-forms.js';
+
+/**
+ * Consent Receipt Utilities
+ * Signs and verifies tamper-evident receipts for accepted messages
+ *
+ * Receipts are signed with an Ed25519 key. Configure the key with:
+ * - RECEIPT_SIGNING_PRIVATE_KEY: PEM-encoded Ed25519 private key (required in production)
+ * - RECEIPT_RETIRED_PUBLIC_KEYS: PEM-encoded public keys of earlier signing keys, one after
+ *   the other, so receipts signed before a key rotation stay verifiable
+ *
+ * Outside production a missing private key is replaced by an ephemeral one generated at
+ * startup, which means receipts issued before a restart can no longer be verified.
+ */
+
+export type ConsentChannel = 'link' | 'proximity' | 'push';
+
+/**
+ * Signed content of a consent receipt
+ * Field order is fixed so the serialized payload is stable
+ */
+export interface ConsentReceiptPayload {
+  version: 1;
+  messageId: string;
+  contentHash: string;
+  senderId: string;
+  recipientId: string;
+  channel: ConsentChannel;
+  acceptedAt: string;
+  /** Only present for messages with a structured form */
+  formHash?: string;
+  answersHash?: string;
+}
+
+interface SigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  ephemeral: boolean;
+}
+
+let signingKey: SigningKey | null = null;
+let retiredKeys: Map<string, KeyObject> | null = null;
+
+/**
+ * Derives the id receipts carry to name the key that signed them
+ */
+function getKeyId(publicKey: KeyObject): string {
+  return createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Loads the server signing key, generating an ephemeral one if not configured
+ * Throws in production without a configured key: receipts signed by a key lost on restart prove nothing
+ */
+function getSigningKey(): SigningKey {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  const configuredKey = process.env.RECEIPT_SIGNING_PRIVATE_KEY;
+
+  let privateKey: KeyObject;
+  let ephemeral = false;
+
+  if (configuredKey) {
+    privateKey = createPrivateKey(configuredKey.replace(/\\n/g, '\n'));
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('RECEIPT_SIGNING_PRIVATE_KEY must be set in production');
+  } else {
+    privateKey = generateKeyPairSync('ed25519').privateKey;
+    ephemeral = true;
+  }
+
+  const publicKey = createPublicKey(privateKey);
+
+  signingKey = { keyId: getKeyId(publicKey), privateKey, publicKey, ephemeral };
+  return signingKey;
+}
+
+/**
+ * Loads the public keys of earlier signing keys, by key id
+ */
+function getRetiredKeys(): Map<string, KeyObject> {
+  if (retiredKeys) {
+    return retiredKeys;
+  }
+
+  const pems =
+    process.env.RECEIPT_RETIRED_PUBLIC_KEYS?.replace(/\\n/g, '\n').match(
+      /-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g
+    ) ?? [];
+
+  retiredKeys = new Map(
+    pems.map((pem) => {
+      const publicKey = createPublicKey(pem);
+      return [getKeyId(publicKey), publicKey] as const;
+    })
+  );
+  return retiredKeys;
+}
+
+/**
+ * Returns the public half of the signing key for offline verification
+ * retiredKeys lists the earlier keys that older receipts may name
+ */
+export function getReceiptPublicKey(): {
+  keyId: string;
+  algorithm: 'Ed25519';
+  publicKey: string;
+  ephemeral: boolean;
+  retiredKeys: Array<{ keyId: string; publicKey: string }>;
+} {
+  const key = getSigningKey();
+  return {
+    keyId: key.keyId,
+    algorithm: 'Ed25519',
+    publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    ephemeral: key.ephemeral,
+    retiredKeys: [...getRetiredKeys()].map(([keyId, publicKey]) => ({
+      keyId,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    })),
+  };
+}
+
+/**
+ * Computes the SHA-256 hash of message content
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Serializes a receipt payload into the exact string that gets signed
+ */
+export function serializeReceiptPayload(payload: ConsentReceiptPayload): string {
+  return JSON.stringify({
+    version: payload.version,
+    messageId: payload.messageId,
+    contentHash: payload.contentHash,
+    senderId: payload.senderId,
+    recipientId: payload.recipientId,
+    channel: payload.channel,
+    acceptedAt: payload.acceptedAt,
+    // Undefined values are left out, so receipts without a form serialize as before
+    formHash: payload.formHash,
+    answersHash: payload.answersHash,
+  });
+}
+
+/**
+ * Serializes JSON with object keys sorted at every level
+ * jsonb columns do not keep key order, so hashes of stored forms and answers must not depend on it
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hashes a form definition or answers independently of key order
+ * Checkbox selections are stored in option order, so arrays need no sorting
+ */
+function hashFormData(data: ConsentForm | FormAnswers): string {
+  return hashContent(canonicalJson(data));
+}
+
+/**
+ * Signs a receipt payload with the server key
+ * Returns a base64url signature and the id of the key used
+ */
+export function signReceiptPayload(payload: ConsentReceiptPayload): {
+  signature: string;
+  keyId: string;
+} {
+  const key = getSigningKey();
+  const signature = sign(
+    null,
+    Buffer.from(serializeReceiptPayload(payload), 'utf8'),
+    key.privateKey
+  );
+
+  return {
+    signature: signature.toString('base64url'),
+    keyId: key.keyId,
+  };
+}
+
+/**
+ * Verifies a receipt signature against the server key it names, current or retired
+ */
+export function verifyReceiptSignature(
+  payload: ConsentReceiptPayload,
+  signature: string,
+  keyId: string
+): boolean {
+  const currentKey = getSigningKey();
+  const publicKey = keyId === currentKey.keyId ? currentKey.publicKey : getRetiredKeys().get(keyId);
+
+  if (!publicKey) {
+    return false;
+  }
+
+  try {
+    return verify(
+      null,
+      Buffer.from(serializeReceiptPayload(payload), 'utf8'),
+      publicKey,
+      Buffer.from(signature, 'base64url')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Determines the channel through which a message reached its recipient
+ * Proximity sessions take precedence, then direct (push) delivery, then links
+ */
+export async function resolveConsentChannel(
+  app: App,
+  message: typeof schema.messages.$inferSelect,
+  respondedViaLink: boolean
+): Promise<ConsentChannel> {
+  if (respondedViaLink) {
+    return 'link';
+  }
+
+  const proximitySession = await app.db.query.proximitySessions.findFirst({
+    where: eq(schema.proximitySessions.messageId, message.id),
+  });
+
+  if (proximitySession) {
+    return 'proximity';
+  }
+
+  return message.recipientId ? 'push' : 'link';
+}
+
+/**
+ * Issues a signed receipt for an accepted message
+ * Receipts are immutable: if one already exists for the message and recipient it is returned as-is
+ * Group messages pass the message with recipientId and formAnswers set to the accepting recipient's
+ */
+export async function issueConsentReceipt(
+  app: App,
+  message: typeof schema.messages.$inferSelect,
+  channel: ConsentChannel
+): Promise<typeof schema.consentReceipts.$inferSelect> {
+  const forRecipient = and(
+    eq(schema.consentReceipts.messageId, message.id),
+    eq(schema.consentReceipts.recipientId, message.recipientId)
+  );
+
+  const existing = await app.db.query.consentReceipts.findFirst({
+    where: forRecipient,
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const payload: ConsentReceiptPayload = {
+    version: 1,
+    messageId: message.id,
+    contentHash: hashContent(message.content),
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    channel,
+    acceptedAt: message.updatedAt.toISOString(),
+    ...(message.form && {
+      formHash: hashFormData(message.form),
+      answersHash: hashFormData(message.formAnswers ?? {}),
+    }),
+  };
+
+  const { signature, keyId } = signReceiptPayload(payload);
+
+  const [receipt] = await app.db
+    .insert(schema.consentReceipts)
+    .values({
+      messageId: message.id,
+      senderId: payload.senderId,
+      recipientId: payload.recipientId,
+      contentHash: payload.contentHash,
+      channel,
+      acceptedAt: message.updatedAt,
+      payload: serializeReceiptPayload(payload),
+      signature,
+      keyId,
+    })
+    .onConflictDoNothing({
+      target: [schema.consentReceipts.messageId, schema.consentReceipts.recipientId],
+    })
+    .returning();
+
+  if (!receipt) {
+    // A concurrent request issued the receipt first
+    return app.db.query.consentReceipts.findFirst({
+      where: forRecipient,
+    });
+  }
+
+  app.logger.info(
+    { receiptId: receipt.id, messageId: message.id, channel, keyId },
+    'Consent receipt issued'
+  );
+
+  return receipt;
+}
+
+/**
+ * Formats a stored receipt for API responses
+ */
+export function formatConsentReceipt(receipt: typeof schema.consentReceipts.$inferSelect) {
+  return {
+    id: receipt.id,
+    payload: JSON.parse(receipt.payload) as ConsentReceiptPayload,
+    signature: receipt.signature,
+    keyId: receipt.keyId,
+    algorithm: 'Ed25519' as const,
+    issuedAt: receipt.createdAt,
+  };
+}
+
+/**
+ * Looks up whether the consent behind a receipt was withdrawn after it was issued
+ * Group messages track withdrawals per recipient
+ */
+export async function findConsentRevocation(
+  app: App,
+  messageId: string,
+  recipientId: string
+): Promise<{ revokedAt: Date | null; reason: string | null } | null> {
+  const message = await app.db.query.messages.findFirst({
+    where: eq(schema.messages.id, messageId),
+  });
+
+  if (!message) {
+    return null;
+  }
+
+  if (message.isGroup) {
+    const recipient = await app.db.query.messageRecipients.findFirst({
+      where: and(
+        eq(schema.messageRecipients.messageId, messageId),
+        eq(schema.messageRecipients.recipientId, recipientId)
+      ),
+    });
+
+    return recipient?.status === 'revoked'
+      ? { revokedAt: recipient.revokedAt, reason: recipient.revocationReason }
+      : null;
+  }
+
+  return message.status === 'revoked' && message.recipientId === recipientId
+    ? { revokedAt: message.revokedAt, reason: message.revocationReason }
+    : null;
+}
@@ -0,0 +1,136 @@
+import type { App } from '../index.js';
+import { and, eq, or, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Conversation Utilities
+ * Pair ordering, read state and formatting for conversations between connected users
+ */
+
+export const MAX_CONVERSATION_MESSAGE_LENGTH = 2000;
+export const MAX_CONVERSATION_PAGE_SIZE = 100;
+
+export type Conversation = typeof schema.conversations.$inferSelect;
+export type ConversationMessage = typeof schema.conversationMessages.$inferSelect;
+
+/**
+ * Orders a pair of user ids the way conversations store them
+ */
+export function orderPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+export function isParticipant(conversation: Conversation, userId: string): boolean {
+  return conversation.userAId === userId || conversation.userBId === userId;
+}
+
+export function otherParticipant(conversation: Conversation, userId: string): string {
+  return conversation.userAId === userId ? conversation.userBId : conversation.userAId;
+}
+
+export function lastReadAt(conversation: Conversation, userId: string): Date | null {
+  return conversation.userAId === userId ? conversation.userALastReadAt : conversation.userBLastReadAt;
+}
+
+/**
+ * Update that moves a participant's read marker to now
+ * Uses the database clock so every message stored before the call counts as read
+ */
+export function readMarkerUpdate(conversation: Conversation, userId: string) {
+  return conversation.userAId === userId
+    ? { userALastReadAt: sql`now()` }
+    : { userBLastReadAt: sql`now()` };
+}
+
+/**
+ * Matches conversations the user takes part in
+ */
+export function participantFilter(userId: string): SQL {
+  return or(
+    eq(schema.conversations.userAId, userId),
+    eq(schema.conversations.userBId, userId)
+  )!;
+}
+
+/**
+ * Returns the conversation between two users, creating it on first use
+ */
+export async function getOrCreateConversation(
+  app: App,
+  a: string,
+  b: string
+): Promise<{ conversation: Conversation; created: boolean }> {
+  const [userAId, userBId] = orderPair(a, b);
+
+  const [created] = await app.db
+    .insert(schema.conversations)
+    .values({ userAId, userBId })
+    .onConflictDoNothing()
+    .returning();
+
+  if (created) {
+    return { conversation: created, created: true };
+  }
+
+  const existing = await app.db.query.conversations.findFirst({
+    where: and(
+      eq(schema.conversations.userAId, userAId),
+      eq(schema.conversations.userBId, userBId)
+    ),
+  });
+
+  return { conversation: existing!, created: false };
+}
+
+/**
+ * Number of messages from the other participant newer than the user's read marker
+ * Correlated with the conversations row of the surrounding query
+ */
+export function unreadCountSql(userId: string): SQL<number> {
+  const messages = schema.conversationMessages;
+  const conversations = schema.conversations;
+
+  return sql<number>`(
+    select count(*) from ${messages}
+    where ${messages.conversationId} = ${conversations.id}
+      and ${messages.senderId} <> ${userId}
+      and ${messages.createdAt} > coalesce(
+        case when ${conversations.userAId} = ${userId}
+          then ${conversations.userALastReadAt}
+          else ${conversations.userBLastReadAt} end,
+        '-infinity'::timestamp
+      )
+  )`.mapWith(Number);
+}
+
+export async function countUnread(app: App, conversationId: string, userId: string): Promise<number> {
+  const [row] = await app.db
+    .select({ unread: unreadCountSql(userId) })
+    .from(schema.conversations)
+    .where(eq(schema.conversations.id, conversationId));
+
+  return row?.unread ?? 0;
+}
+
+/**
+ * Formats a conversation message for API responses
+ * is_read tells whether the other participant has read it; only set on the viewer's own messages
+ */
+export function formatConversationMessage(
+  message: ConversationMessage,
+  viewerId: string,
+  otherLastReadAt: Date | null
+) {
+  const own = message.senderId === viewerId;
+
+  return {
+    id: message.id,
+    conversation_id: message.conversationId,
+    sender_id: message.senderId,
+    body: message.body,
+    reply_to_id: message.replyToId,
+    is_own: own,
+    ...(own && { is_read: !!otherLastReadAt && otherLastReadAt >= message.createdAt }),
+    created_at: message.createdAt,
+  };
+}
@@ -49,6 +49,54 @@ export function calculateHaversineDistance(
   return distance;
 }
 
+/**
+ * Latitude/longitude bounds enclosing a circle
+ * When the circle crosses the antimeridian, minLongitude > maxLongitude
+ */
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/**
+ * Computes the bounding box around a center coordinate for a radius in meters
+ * Used as a cheap, index-friendly prefilter before the exact Haversine check
+ */
+export function getBoundingBox(center: Coordinate, radiusMeters: number): BoundingBox {
+  const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const minLatitude = center.latitude - latDelta;
+  const maxLatitude = center.latitude + latDelta;
+
+  // Near the poles every longitude can be within range
+  if (minLatitude <= -90 || maxLatitude >= 90) {
+    return {
+      minLatitude: Math.max(minLatitude, -90),
+      maxLatitude: Math.min(maxLatitude, 90),
+      minLongitude: -180,
+      maxLongitude: 180,
+    };
+  }
+
+  const lonDelta =
+    (radiusMeters / (EARTH_RADIUS_METERS * Math.cos(degreesToRadians(center.latitude)))) *
+    (180 / Math.PI);
+
+  if (lonDelta >= 180) {
+    return { minLatitude, maxLatitude, minLongitude: -180, maxLongitude: 180 };
+  }
+
+  let minLongitude = center.longitude - lonDelta;
+  let maxLongitude = center.longitude + lonDelta;
+
+  // Wrap around the antimeridian
+  if (minLongitude < -180) minLongitude += 360;
+  if (maxLongitude > 180) maxLongitude -= 360;
+
+  return { minLatitude, maxLatitude, minLongitude, maxLongitude };
+}
+
 /**
  * Formats a distance in meters to a human-readable string
  */
@@ -0,0 +1,147 @@
+import type { App } from '../index.js';
+import { and, asc, eq } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import * as authSchema from '../db/auth-schema.js';
+
+/**
+ * Group Message Utilities
+ * Per-recipient responses and the aggregate state of group consent messages
+ */
+
+export const MIN_GROUP_RECIPIENTS = 2;
+export const MAX_GROUP_RECIPIENTS = 20;
+
+export type GroupRecipient = typeof schema.messageRecipients.$inferSelect;
+
+export interface GroupSummary {
+  total: number;
+  accepted: number;
+  rejected: number;
+  revoked: number;
+  pending: number;
+  /** Acceptances needed: the quorum, or every recipient */
+  required: number;
+  all_accepted: boolean;
+  quorum_reached: boolean;
+  any_rejected: boolean;
+  /** accepted once the quorum is reached, rejected once it can no longer be reached */
+  state: 'pending' | 'accepted' | 'rejected';
+}
+
+/**
+ * Computes the aggregate state of a group message from its recipients' responses
+ * Withdrawn consent counts against the quorum like a rejection
+ */
+export function summarizeGroup(
+  recipients: Array<Pick<GroupRecipient, 'status'>>,
+  quorum: number | null
+): GroupSummary {
+  const count = (status: GroupRecipient['status']) =>
+    recipients.filter((recipient) => recipient.status === status).length;
+
+  const total = recipients.length;
+  const accepted = count('accepted');
+  const rejected = count('rejected');
+  const revoked = count('revoked');
+  const required = Math.min(quorum ?? total, total);
+  const quorumReached = total > 0 && accepted >= required;
+  const stillPossible = total - rejected - revoked >= required;
+
+  return {
+    total,
+    accepted,
+    rejected,
+    revoked,
+    pending: count('pending'),
+    required,
+    all_accepted: total > 0 && accepted === total,
+    quorum_reached: quorumReached,
+    any_rejected: rejected > 0,
+    state: quorumReached ? 'accepted' : stillPossible ? 'pending' : 'rejected',
+  };
+}
+
+/**
+ * Lists a group message's recipients with their usernames
+ */
+export async function getGroupRecipients(app: App, messageId: string) {
+  return app.db
+    .select({
+      recipient: schema.messageRecipients,
+      username: authSchema.user.name,
+    })
+    .from(schema.messageRecipients)
+    .innerJoin(authSchema.user, eq(authSchema.user.id, schema.messageRecipients.recipientId))
+    .where(eq(schema.messageRecipients.messageId, messageId))
+    .orderBy(asc(schema.messageRecipients.createdAt));
+}
+
+export async function findGroupRecipient(
+  app: App,
+  messageId: string,
+  userId: string
+): Promise<GroupRecipient | undefined> {
+  return app.db.query.messageRecipients.findFirst({
+    where: and(
+      eq(schema.messageRecipients.messageId, messageId),
+      eq(schema.messageRecipients.recipientId, userId)
+    ),
+  });
+}
+
+/**
+ * Builds the group section of message responses
+ * Form answers are included for the sender, and for a recipient viewing their own entry
+ */
+export async function describeGroup(
+  app: App,
+  message: typeof schema.messages.$inferSelect,
+  viewerId?: string
+) {
+  const rows = await getGroupRecipients(app, message.id);
+
+  return {
+    quorum: message.quorum,
+    recipients: rows.map(({ recipient, username }) => ({
+      user_id: recipient.recipientId,
+      username: username || 'Unknown',
+      status: recipient.status,
+      responded_at: recipient.respondedAt,
+      ...(viewerId &&
+        (viewerId === message.senderId || viewerId === recipient.recipientId) && {
+          form_answers: recipient.formAnswers,
+        }),
+    })),
+    summary: summarizeGroup(
+      rows.map(({ recipient }) => recipient),
+      message.quorum
+    ),
+  };
+}
+
+/**
+ * Recomputes the aggregate state and stores it as the message status
+ * Returns the summary and whether the status changed
+ */
+export async function refreshGroupStatus(
+  app: App,
+  message: typeof schema.messages.$inferSelect
+): Promise<{ summary: GroupSummary; changed: boolean }> {
+  const recipients = await app.db
+    .select({ status: schema.messageRecipients.status })
+    .from(schema.messageRecipients)
+    .where(eq(schema.messageRecipients.messageId, message.id));
+
+  const summary = summarizeGroup(recipients, message.quorum);
+
+  if (summary.state === message.status) {
+    return { summary, changed: false };
+  }
+
+  await app.db
+    .update(schema.messages)
+    .set({ status: summary.state, updatedAt: new Date() })
+    .where(eq(schema.messages.id, message.id));
+
+  return { summary, changed: true };
+}
@@ -0,0 +1,103 @@
+import { constants, createPrivateKey, sign, verify, type KeyObject } from 'crypto';
+
+/**
+ * JWT Utilities
+ * Minimal compact-JWS signing and verification
+ */
+
+export type JwtAlgorithm = 'ES256' | 'RS256';
+
+// Algorithms accepted when verifying tokens issued by third parties
+export type JwtVerifyAlgorithm = JwtAlgorithm | 'PS256';
+
+export interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string };
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Encodes a JSON value as base64url
+ */
+export function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+/**
+ * Parses a PEM private key, accepting keys whose newlines were escaped in env vars
+ */
+export function parsePrivateKey(pem: string): KeyObject {
+  return createPrivateKey(pem.replace(/\\n/g, '\n'));
+}
+
+/**
+ * Signs a JWT with the given algorithm
+ * ES256 signatures use the raw (r || s) encoding required by JWS
+ */
+export function signJwt(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  key: KeyObject,
+  algorithm: JwtAlgorithm
+): string {
+  const signingInput = `${base64UrlJson({ ...header, alg: algorithm, typ: 'JWT' })}.${base64UrlJson(payload)}`;
+
+  const signature =
+    algorithm === 'ES256'
+      ? sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' })
+      : sign('sha256', Buffer.from(signingInput), key);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Splits and decodes a compact JWT without verifying it
+ * Throws when the token is not three base64url JSON segments
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')),
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+      signature: Buffer.from(encodedSignature, 'base64url'),
+    };
+  } catch {
+    throw new Error('Malformed JWT');
+  }
+}
+
+/**
+ * Verifies the signature of a decoded JWT with a public key
+ */
+export function verifyJwtSignature(
+  decoded: DecodedJwt,
+  key: KeyObject,
+  algorithm: JwtVerifyAlgorithm
+): boolean {
+  const data = Buffer.from(decoded.signingInput);
+
+  switch (algorithm) {
+    case 'ES256':
+      return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, decoded.signature);
+    case 'PS256':
+      return verify(
+        'sha256',
+        data,
+        { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 },
+        decoded.signature
+      );
+    case 'RS256':
+      return verify('sha256', data, key, decoded.signature);
+    default:
+      return false;
+  }
+}
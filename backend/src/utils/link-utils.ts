@@ -6,27 +6,24 @@ import { randomBytes } from 'crypto';
  */
 
 /**
- * Generates a short unique identifier from a full token
- * Uses first 12 characters and adds a checksum suffix
+ * Builds the full and short URLs for a message link
+ * The short code must be a persisted code (see utils/short-links.ts)
  */
-export function shortenLink(fullToken: string, baseUrl = 'https://acceptconnect.app'): {
+export function shortenLink(
+  fullToken: string,
+  shortCode: string,
+  baseUrl = 'https://acceptconnect.app'
+): {
   fullUrl: string;
   shortId: string;
   displayUrl: string;
 } {
-  // Take first 12 characters of token
-  const shortId = fullToken.substring(0, 12);
-
-  // Add 4 character checksum from remaining token
-  const checksum = fullToken.substring(fullToken.length - 4);
-
-  const fullId = `${shortId}-${checksum}`;
   const fullUrl = `${baseUrl}/message/${fullToken}`;
-  const displayUrl = `${baseUrl}/m/${fullId}`;
+  const displayUrl = `${baseUrl}/m/${shortCode}`;
 
   return {
     fullUrl,
-    shortId: fullId,
+    shortId: shortCode,
     displayUrl,
   };
 }
@@ -54,14 +51,17 @@ export function obfuscateUrl(fullUrl: string): string {
   return `${urlParts[0]}/message/${masked}`;
 }
 
+// Crockford base32: uppercase only, without the easily confused I, L, O and U
+const SHORT_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SHORT_CODE_LENGTH = 13;
+
 /**
  * Generates a secure short code for link sharing
- * Returns a 6-8 character alphanumeric code
+ * 13 base32 characters carry 65 random bits, so codes cannot be found by guessing
  */
 export function generateShortCode(): string {
-  // Generate 6-8 character short code using base36
-  const randomNum = randomBytes(4).readUInt32BE(0);
-  return randomNum.toString(36).toUpperCase().padStart(6, '0').substring(0, 8);
+  // 256 is a multiple of 32, so masking each byte keeps every character equally likely
+  return Array.from(randomBytes(SHORT_CODE_LENGTH), (byte) => SHORT_CODE_ALPHABET[byte & 31]).join('');
 }
 
 /**
@@ -74,7 +74,7 @@ export function generateShareableMessage(
     senderName?: string;
     message?: string;
     obfuscate?: boolean;
-    shorten?: boolean;
+    shortUrl?: string;
   }
 ): {
   whatsapp: string;
@@ -83,7 +83,7 @@ export function generateShareableMessage(
   sms: string;
   generic: string;
 } {
-  const { fullUrl, senderName = 'A user', message: customMessage, obfuscate = true, shorten = false } = options;
+  const { fullUrl, senderName = 'A user', message: customMessage, obfuscate = true, shortUrl } = options;
 
   let displayUrl = fullUrl;
 
@@ -91,9 +91,8 @@ export function generateShareableMessage(
     displayUrl = obfuscateUrl(fullUrl);
   }
 
-  if (shorten) {
-    const shortened = shortenLink(fullUrl.split('/message/')[1] || '', 'https://acceptconnect.app');
-    displayUrl = shortened.displayUrl;
+  if (shortUrl) {
+    displayUrl = shortUrl;
   }
 
   const defaultMessage = customMessage || 'I would like to share my consent with you';
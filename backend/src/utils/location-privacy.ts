@@ -0,0 +1,183 @@
+import type { App } from '../index.js';
+import { eq, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import {
+  calculateHaversineDistance,
+  formatDistance,
+  parseCoordinate,
+  type Coordinate,
+} from './distance.js';
+
+/**
+ * Location Privacy Utilities
+ * Distance bucketing, coordinate fuzzing and privacy zone checks
+ */
+
+export type DistanceDisplay = 'exact' | 'bucketed';
+
+export interface LocationPrivacy {
+  distanceDisplay: DistanceDisplay;
+  fuzzMeters: number;
+  zones: Array<typeof schema.locationPrivacyZones.$inferSelect>;
+}
+
+// Upper bounds, in meters, of the buckets shown for bucketed distances
+const DISTANCE_BUCKETS = [100, 500, 1000, 5000, 10000];
+// Exact distances are still rounded so repeated queries cannot pinpoint a user
+const EXACT_DISTANCE_PRECISION_METERS = 10;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Stored positions snap to a grid by default: the viewer's own position is self-reported,
+// so exact coordinates plus distance buckets would still allow trilateration
+export const DEFAULT_LOCATION_FUZZ_METERS = 250;
+export const MAX_LOCATION_FUZZ_METERS = 5000;
+export const MIN_PRIVACY_ZONE_RADIUS_METERS = 50;
+export const MAX_PRIVACY_ZONE_RADIUS_METERS = 5000;
+export const MAX_PRIVACY_ZONES = 10;
+
+/**
+ * Formats a bucket bound, e.g. 500m or 5km
+ */
+function bucketLabel(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000}km` : `${meters}m`;
+}
+
+/**
+ * Converts a distance into what other users may see
+ * Bucketed distances report the bucket's upper bound, e.g. 240m becomes 500 / "<500m"
+ */
+export function presentDistance(
+  meters: number,
+  display: DistanceDisplay
+): { distance_meters: number | null; distance_label: string } {
+  if (display === 'exact') {
+    const rounded =
+      Math.round(meters / EXACT_DISTANCE_PRECISION_METERS) * EXACT_DISTANCE_PRECISION_METERS;
+    return { distance_meters: rounded, distance_label: formatDistance(rounded) };
+  }
+
+  const bucket = DISTANCE_BUCKETS.find((bound) => meters <= bound);
+  if (bucket === undefined) {
+    const largest = DISTANCE_BUCKETS[DISTANCE_BUCKETS.length - 1];
+    return { distance_meters: null, distance_label: `>${bucketLabel(largest)}` };
+  }
+
+  return {
+    distance_meters: bucket,
+    distance_label: `<${bucketLabel(bucket)}`,
+  };
+}
+
+/**
+ * SQL sort key for nearby results: the index of the distance bucket
+ * Sorting by the distance itself would reveal the order within a bucket, so results are only
+ * ordered by bucket and the caller breaks ties with something unrelated to distance
+ */
+export function distanceBucketSql(distance: SQL<number>): SQL<number> {
+  const cases = DISTANCE_BUCKETS.map((bound, index) => sql`when ${distance} <= ${bound} then ${index}`);
+  return sql<number>`case ${sql.join(cases, sql` `)} else ${DISTANCE_BUCKETS.length} end`;
+}
+
+/**
+ * Stricter of two display settings; bucketing wins whenever either side asks for it
+ */
+export function strictestDisplay(a: DistanceDisplay, b: DistanceDisplay): DistanceDisplay {
+  return a === 'exact' && b === 'exact' ? 'exact' : 'bucketed';
+}
+
+/**
+ * Snaps a coordinate to the center of a grid cell of the given size
+ * Unlike random jitter, the result is stable, so averaging many updates reveals nothing
+ */
+export function fuzzCoordinate(coord: Coordinate, cellMeters: number): Coordinate {
+  if (cellMeters <= 0) {
+    return coord;
+  }
+
+  const latStep = cellMeters / METERS_PER_DEGREE_LATITUDE;
+  const latitude = Math.min(
+    Math.max((Math.floor(coord.latitude / latStep) + 0.5) * latStep, -90),
+    90
+  );
+
+  const cosLatitude = Math.max(Math.cos(latitude * (Math.PI / 180)), 0.01);
+  const lonStep = cellMeters / (METERS_PER_DEGREE_LATITUDE * cosLatitude);
+  const longitude = Math.min(
+    Math.max((Math.floor(coord.longitude / lonStep) + 0.5) * lonStep, -180),
+    180
+  );
+
+  return {
+    latitude: Number(latitude.toFixed(8)),
+    longitude: Number(longitude.toFixed(8)),
+  };
+}
+
+/**
+ * Checks whether a coordinate lies inside any of the given privacy zones
+ * A margin widens every zone, for coordinates only known to within that distance
+ */
+export function isInsidePrivacyZone(
+  coord: Coordinate,
+  zones: LocationPrivacy['zones'],
+  marginMeters = 0
+): boolean {
+  return zones.some(
+    (zone) =>
+      calculateHaversineDistance(coord, parseCoordinate(zone.latitude, zone.longitude)) <=
+      zone.radiusMeters + marginMeters
+  );
+}
+
+/**
+ * Loads a user's location privacy settings and zones
+ * Users without sharing preferences get the defaults: bucketed distances, a 250m grid
+ */
+export async function getLocationPrivacy(app: App, userId: string): Promise<LocationPrivacy> {
+  const [preferences, zones] = await Promise.all([
+    app.db.query.userSharingPreferences.findFirst({
+      where: eq(schema.userSharingPreferences.userId, userId),
+    }),
+    app.db
+      .select()
+      .from(schema.locationPrivacyZones)
+      .where(eq(schema.locationPrivacyZones.userId, userId)),
+  ]);
+
+  return {
+    distanceDisplay: preferences?.distanceDisplay ?? 'bucketed',
+    fuzzMeters: preferences?.locationFuzzMeters ?? DEFAULT_LOCATION_FUZZ_METERS,
+    zones,
+  };
+}
+
+/**
+ * Recomputes whether the user's stored location falls in one of their privacy zones
+ * Called when zones change; location updates compute this from the exact position instead
+ *
+ * Only the fuzzed position is stored and the exact one may lie anywhere in its grid cell,
+ * so zones are widened by the cell size: the user is hidden whenever they might be inside
+ */
+export async function refreshLocationVisibility(app: App, userId: string): Promise<void> {
+  const location = await app.db.query.userLocations.findFirst({
+    where: eq(schema.userLocations.userId, userId),
+  });
+
+  if (!location) {
+    return;
+  }
+
+  const { zones } = await getLocationPrivacy(app, userId);
+  const hidden = isInsidePrivacyZone(
+    parseCoordinate(location.latitude, location.longitude),
+    zones,
+    location.fuzzMeters
+  );
+
+  if (hidden !== location.hidden) {
+    await app.db
+      .update(schema.userLocations)
+      .set({ hidden })
+      .where(eq(schema.userLocations.userId, userId));
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Location TTL Utilities
+ * Decides how long a reported location stays visible to other users
+ *
+ * Environment variables:
+ * - LOCATION_TTL_MINUTES: Visibility when the client does not send visible_until (default 30)
+ * - LOCATION_MAX_TTL_MINUTES: Upper bound for a client-supplied visible_until (default 1440)
+ */
+
+const DEFAULT_TTL_MINUTES = 30;
+const DEFAULT_MAX_TTL_MINUTES = 24 * 60;
+
+function minutesFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getLocationTtlConfig(): { defaultTtlMs: number; maxTtlMs: number } {
+  const defaultTtlMinutes = minutesFromEnv('LOCATION_TTL_MINUTES', DEFAULT_TTL_MINUTES);
+  const maxTtlMinutes = Math.max(
+    minutesFromEnv('LOCATION_MAX_TTL_MINUTES', DEFAULT_MAX_TTL_MINUTES),
+    defaultTtlMinutes
+  );
+
+  return {
+    defaultTtlMs: defaultTtlMinutes * 60 * 1000,
+    maxTtlMs: maxTtlMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Resolves when a location update stops being visible
+ * Requested times beyond the maximum TTL are capped; returns null for unparsable or past times
+ */
+export function resolveVisibleUntil(requested?: string, now: Date = new Date()): Date | null {
+  const { defaultTtlMs, maxTtlMs } = getLocationTtlConfig();
+
+  if (requested === undefined) {
+    return new Date(now.getTime() + defaultTtlMs);
+  }
+
+  const visibleUntil = new Date(requested);
+  if (isNaN(visibleUntil.getTime()) || visibleUntil <= now) {
+    return null;
+  }
+
+  return new Date(Math.min(visibleUntil.getTime(), now.getTime() + maxTtlMs));
+}
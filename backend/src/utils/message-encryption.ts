@@ -0,0 +1,215 @@
+import type { App } from '../index.js';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Message Encryption Utilities
+ * Validation and storage for end-to-end encrypted message content
+ *
+ * Clients encrypt the text with a random content key (XSalsa20-Poly1305) and store
+ * base64(nonce || ciphertext) as the message content. The content key reaches readers either
+ * sealed to their device keys (X25519 box, one envelope per device) or, for link messages, in
+ * the URL fragment, which browsers never send to the server. The server only checks shapes;
+ * it has no way to read or verify the text.
+ */
+
+export const ENCRYPTION_ALGORITHM = 'x25519-xsalsa20-poly1305';
+export const PUBLIC_KEY_BYTES = 32;
+export const NONCE_BYTES = 24;
+export const MAC_BYTES = 16;
+export const CONTENT_KEY_BYTES = 32;
+export const MAX_CIPHERTEXT_BYTES = 16 * 1024;
+export const MAX_DEVICE_KEYS_PER_USER = 10;
+export const MAX_KEY_ENVELOPES = 200;
+
+/** Shown in notifications, share texts and emails in place of encrypted content */
+export const ENCRYPTED_PREVIEW = 'Encrypted message';
+
+export type DeviceKey = typeof schema.deviceKeys.$inferSelect;
+
+export interface KeyEnvelopeInput {
+  deviceKeyId: string;
+  ephemeralPublicKey: string;
+  nonce: string;
+  sealedKey: string;
+}
+
+/**
+ * Raised when encrypted content or its key envelopes are malformed or misaddressed
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Byte length of a base64 string, or null when it is not canonical base64
+ */
+export function base64ByteLength(value: unknown): number | null {
+  if (typeof value !== 'string' || value.length === 0 || value.length % 4 !== 0) {
+    return null;
+  }
+  if (!BASE64_PATTERN.test(value)) {
+    return null;
+  }
+  return (value.length / 4) * 3 - (value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0);
+}
+
+export function isValidPublicKey(value: unknown): value is string {
+  return base64ByteLength(value) === PUBLIC_KEY_BYTES;
+}
+
+/**
+ * Checks that encrypted content is base64(nonce || ciphertext) within the size limit
+ */
+export function assertValidCiphertext(content: unknown): asserts content is string {
+  const length = base64ByteLength(content);
+
+  if (length === null || length < NONCE_BYTES + MAC_BYTES) {
+    throw new EncryptionError('Encrypted content must be base64 of the nonce followed by the ciphertext');
+  }
+
+  if (length > MAX_CIPHERTEXT_BYTES) {
+    throw new EncryptionError(`Encrypted content must be at most ${MAX_CIPHERTEXT_BYTES} bytes`);
+  }
+}
+
+/**
+ * Validates key envelopes against the registry
+ * Every envelope must target an active key of one of the allowed users, and each required user
+ * needs at least one; the sender may add envelopes for their own devices to read the message later
+ */
+export async function validateKeyEnvelopes(
+  app: App,
+  input: unknown,
+  allowedUserIds: string[],
+  requiredUserIds: string[]
+): Promise<KeyEnvelopeInput[]> {
+  const envelopes = input ?? [];
+
+  if (!Array.isArray(envelopes) || envelopes.length > MAX_KEY_ENVELOPES) {
+    throw new EncryptionError(`keys must be a list of at most ${MAX_KEY_ENVELOPES} key envelopes`);
+  }
+
+  for (const envelope of envelopes) {
+    if (
+      !envelope ||
+      typeof envelope.deviceKeyId !== 'string' ||
+      !UUID_PATTERN.test(envelope.deviceKeyId) ||
+      !isValidPublicKey(envelope.ephemeralPublicKey) ||
+      base64ByteLength(envelope.nonce) !== NONCE_BYTES ||
+      base64ByteLength(envelope.sealedKey) !== CONTENT_KEY_BYTES + MAC_BYTES
+    ) {
+      throw new EncryptionError(
+        'Each key envelope needs deviceKeyId, ephemeralPublicKey, nonce and sealedKey in base64'
+      );
+    }
+  }
+
+  const deviceKeyIds = envelopes.map((envelope: KeyEnvelopeInput) => envelope.deviceKeyId);
+
+  if (new Set(deviceKeyIds).size !== deviceKeyIds.length) {
+    throw new EncryptionError('Each device key can only receive one envelope');
+  }
+
+  const keys =
+    deviceKeyIds.length > 0
+      ? await app.db
+          .select()
+          .from(schema.deviceKeys)
+          .where(and(inArray(schema.deviceKeys.id, deviceKeyIds), isNull(schema.deviceKeys.revokedAt)))
+      : [];
+
+  if (keys.length !== deviceKeyIds.length || keys.some((key) => !allowedUserIds.includes(key.userId))) {
+    throw new EncryptionError('Key envelopes must be addressed to active device keys of the participants');
+  }
+
+  const missing = requiredUserIds.filter((userId) => !keys.some((key) => key.userId === userId));
+  if (missing.length > 0) {
+    throw new EncryptionError('Every recipient needs a key envelope for at least one of their devices');
+  }
+
+  return envelopes as KeyEnvelopeInput[];
+}
+
+/**
+ * Stores the envelopes of a new message
+ * Accepts a transaction so the message and its keys are written together
+ */
+export async function storeKeyEnvelopes(
+  db: Pick<App['db'], 'insert'>,
+  messageId: string,
+  envelopes: KeyEnvelopeInput[]
+): Promise<void> {
+  if (envelopes.length === 0) return;
+
+  await db.insert(schema.messageKeys).values(
+    envelopes.map((envelope) => ({
+      messageId,
+      deviceKeyId: envelope.deviceKeyId,
+      ephemeralPublicKey: envelope.ephemeralPublicKey,
+      nonce: envelope.nonce,
+      sealedKey: envelope.sealedKey,
+    }))
+  );
+}
+
+/**
+ * Returns the user ids that have at least one active device key
+ */
+export async function usersWithDeviceKeys(app: App, userIds: string[]): Promise<string[]> {
+  if (userIds.length === 0) return [];
+
+  const rows = await app.db
+    .selectDistinct({ userId: schema.deviceKeys.userId })
+    .from(schema.deviceKeys)
+    .where(and(inArray(schema.deviceKeys.userId, userIds), isNull(schema.deviceKeys.revokedAt)));
+
+  return rows.map((row) => row.userId);
+}
+
+/**
+ * Envelopes of a message addressed to the user's devices
+ */
+export async function listKeyEnvelopes(app: App, messageId: string, userId: string) {
+  return app.db
+    .select({
+      id: schema.messageKeys.id,
+      deviceKeyId: schema.messageKeys.deviceKeyId,
+      deviceId: schema.deviceKeys.deviceId,
+      ephemeralPublicKey: schema.messageKeys.ephemeralPublicKey,
+      nonce: schema.messageKeys.nonce,
+      sealedKey: schema.messageKeys.sealedKey,
+    })
+    .from(schema.messageKeys)
+    .innerJoin(schema.deviceKeys, eq(schema.messageKeys.deviceKeyId, schema.deviceKeys.id))
+    .where(and(eq(schema.messageKeys.messageId, messageId), eq(schema.deviceKeys.userId, userId)));
+}
+
+/**
+ * Text safe to show outside the app: the content itself, or a placeholder when encrypted
+ */
+export function contentPreview(message: { content: string; encrypted: boolean }): string {
+  return message.encrypted ? ENCRYPTED_PREVIEW : message.content;
+}
+
+/**
+ * Formats a device key for API responses
+ */
+export function formatDeviceKey(key: DeviceKey) {
+  return {
+    id: key.id,
+    user_id: key.userId,
+    device_id: key.deviceId,
+    public_key: key.publicKey,
+    algorithm: ENCRYPTION_ALGORITHM,
+    revoked_at: key.revokedAt,
+    created_at: key.createdAt,
+    updated_at: key.updatedAt,
+  };
+}
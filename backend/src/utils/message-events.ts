@@ -0,0 +1,42 @@
+import type { App } from '../index.js';
+import type { FastifyRequest } from 'fastify';
+import * as schema from '../db/schema.js';
+
+/**
+ * Message Event Utilities
+ * Records the append-only audit trail for message state transitions
+ */
+
+export type MessageEventType =
+  (typeof schema.messageEvents.$inferInsert)['eventType'];
+
+/**
+ * Appends an event to a message's history
+ * Failures are logged but never interrupt the request that triggered them
+ */
+export async function recordMessageEvent(
+  app: App,
+  request: FastifyRequest,
+  event: {
+    messageId: string;
+    type: MessageEventType;
+    actorId?: string | null;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<void> {
+  try {
+    await app.db.insert(schema.messageEvents).values({
+      messageId: event.messageId,
+      eventType: event.type,
+      actorId: event.actorId ?? null,
+      ipAddress: request.ip || null,
+      userAgent: request.headers['user-agent'] || null,
+      metadata: event.metadata ?? null,
+    });
+  } catch (error) {
+    app.logger.error(
+      { err: error, messageId: event.messageId, eventType: event.type },
+      'Failed to record message event'
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import type { App } from '../index.js';
+import { and, eq, isNull, or } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Message Template Utilities
+ * Placeholder parsing, rendering and visibility of consent message templates
+ */
+
+export const TEMPLATE_VARIABLES = ['recipient_name', 'date', 'place'] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateVariables = Partial<Record<TemplateVariable, string>>;
+export type TemplateCategory = (typeof schema.messageTemplates.$inferInsert)['category'];
+
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = ['social', 'food', 'sports', 'work', 'other'];
+
+export const MAX_TEMPLATE_TITLE_LENGTH = 80;
+export const MAX_TEMPLATE_BODY_LENGTH = 500;
+export const MAX_TEMPLATE_VARIABLE_LENGTH = 100;
+export const MAX_TEMPLATES_PER_USER = 50;
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Raised when a template cannot be rendered with the given values
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Lists the placeholders used in a template body, in order of first appearance
+ */
+export function extractVariables(body: string): string[] {
+  const names = [...body.matchAll(PLACEHOLDER)].map((match) => match[1]);
+  return [...new Set(names)];
+}
+
+export function findUnknownVariables(body: string): string[] {
+  return extractVariables(body).filter(
+    (name) => !TEMPLATE_VARIABLES.includes(name as TemplateVariable)
+  );
+}
+
+/**
+ * Fills a template's placeholders
+ * Every placeholder needs a non-empty value; values the body does not use are ignored
+ */
+export function renderTemplate(body: string, values: TemplateVariables = {}): string {
+  const missing = extractVariables(body).filter(
+    (name) => !values[name as TemplateVariable]?.trim()
+  );
+
+  if (missing.length > 0) {
+    throw new TemplateError(`Missing values for: ${missing.join(', ')}`);
+  }
+
+  const tooLong = Object.entries(values).find(
+    ([, value]) => typeof value === 'string' && value.trim().length > MAX_TEMPLATE_VARIABLE_LENGTH
+  );
+
+  if (tooLong) {
+    throw new TemplateError(
+      `${tooLong[0]} must be at most ${MAX_TEMPLATE_VARIABLE_LENGTH} characters`
+    );
+  }
+
+  return body.replace(PLACEHOLDER, (_, name: string) =>
+    values[name as TemplateVariable]!.trim()
+  );
+}
+
+/**
+ * Finds a template the user may use: a system template or one of their own
+ */
+export async function findVisibleTemplate(
+  app: App,
+  userId: string,
+  templateId: string
+): Promise<typeof schema.messageTemplates.$inferSelect | undefined> {
+  return app.db.query.messageTemplates.findFirst({
+    where: and(
+      eq(schema.messageTemplates.id, templateId),
+      or(isNull(schema.messageTemplates.ownerId), eq(schema.messageTemplates.ownerId, userId))
+    ),
+  });
+}
+
+/**
+ * Formats a template for API responses
+ */
+export function formatTemplate(template: typeof schema.messageTemplates.$inferSelect) {
+  return {
+    id: template.id,
+    title: template.title,
+    body: template.body,
+    category: template.category,
+    variables: extractVariables(template.body),
+    is_system: template.ownerId === null,
+    created_at: template.createdAt,
+    updated_at: template.updatedAt,
+  };
+}
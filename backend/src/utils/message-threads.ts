@@ -0,0 +1,84 @@
+import type { App } from '../index.js';
+import { asc, eq, or } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+
+/**
+ * Message Thread Utilities
+ * Negotiation threads formed when a recipient answers with a counter-proposal
+ *
+ * Countering marks a message as countered and sends a new pending message back
+ * to its sender; every message in the exchange shares the thread id of the
+ * message that opened it.
+ */
+
+export const MAX_THREAD_LENGTH = 20;
+
+type Message = typeof schema.messages.$inferSelect;
+
+export interface ThreadSummary {
+  id: string;
+  length: number;
+  latest_message_id: string;
+  /** Whose turn it is to answer, while negotiating */
+  awaiting_user_id: string | null;
+  /** agreed once a proposal is accepted, declined once one is rejected */
+  state: 'negotiating' | 'agreed' | 'declined' | 'withdrawn';
+}
+
+/**
+ * Computes the state of a thread from its messages, oldest first
+ * The latest proposal decides: earlier ones were all countered
+ */
+export function summarizeThread(threadId: string, messages: Message[]): ThreadSummary {
+  const latest = messages[messages.length - 1];
+
+  const states: Record<Message['status'], ThreadSummary['state']> = {
+    pending: 'negotiating',
+    countered: 'negotiating',
+    accepted: 'agreed',
+    rejected: 'declined',
+    revoked: 'withdrawn',
+  };
+
+  return {
+    id: threadId,
+    length: messages.length,
+    latest_message_id: latest.id,
+    awaiting_user_id: latest.status === 'pending' ? latest.recipientId : null,
+    state: states[latest.status],
+  };
+}
+
+/**
+ * Lists the messages of a thread, oldest first
+ * A message that was never countered forms a thread of its own
+ */
+export async function getThreadMessages(app: App, threadId: string): Promise<Message[]> {
+  return app.db
+    .select()
+    .from(schema.messages)
+    .where(or(eq(schema.messages.threadId, threadId), eq(schema.messages.id, threadId)))
+    .orderBy(asc(schema.messages.createdAt));
+}
+
+/**
+ * Builds the thread section of message responses
+ */
+export async function describeThread(app: App, message: Message) {
+  const threadId = message.threadId ?? message.id;
+  const messages = await getThreadMessages(app, threadId);
+
+  return {
+    messages: messages.map((entry) => ({
+      id: entry.id,
+      sender_id: entry.senderId,
+      recipient_id: entry.recipientId,
+      content: entry.content,
+      encrypted: entry.encrypted,
+      status: entry.status,
+      in_reply_to_id: entry.inReplyToId,
+      created_at: entry.createdAt,
+    })),
+    summary: summarizeThread(threadId, messages),
+  };
+}
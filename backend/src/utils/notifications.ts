@@ -0,0 +1,101 @@
+import type { App } from '../index.js';
+import { eq, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { deliverPush, type PushNotification, type PushDeliveryResult } from '../push/index.js';
+
+/**
+ * Notification Utilities
+ * Sends push notifications to all devices registered by a user
+ */
+
+export type NotificationPayload = PushNotification;
+
+/**
+ * Notifies a user on every registered device
+ * Honors the user's push preference and prunes tokens the provider reports as invalid
+ * Never throws: delivery problems are logged and reported in the results
+ */
+export async function notifyUser(
+  app: App,
+  userId: string,
+  notification: NotificationPayload
+): Promise<PushDeliveryResult[]> {
+  try {
+    const preferences = await app.db.query.userSharingPreferences.findFirst({
+      where: eq(schema.userSharingPreferences.userId, userId),
+    });
+
+    if (preferences && !preferences.pushNotificationsEnabled) {
+      app.logger.info({ userId }, 'Push notifications disabled by user');
+      return [];
+    }
+
+    const pushTokens = await app.db
+      .select()
+      .from(schema.pushTokens)
+      .where(eq(schema.pushTokens.userId, userId));
+
+    if (pushTokens.length === 0) {
+      app.logger.info({ userId }, 'No push tokens found for user');
+      return [];
+    }
+
+    const results = await deliverPush(pushTokens, notification);
+
+    const invalidTokenIds = results
+      .filter((result) => result.status === 'invalid_token')
+      .map((result) => result.pushTokenId);
+
+    if (invalidTokenIds.length > 0) {
+      await app.db
+        .delete(schema.pushTokens)
+        .where(inArray(schema.pushTokens.id, invalidTokenIds));
+
+      app.logger.info(
+        { userId, prunedCount: invalidTokenIds.length },
+        'Pruned invalid push tokens'
+      );
+    }
+
+    results
+      .filter((result) => result.status === 'failed')
+      .forEach((result) => {
+        app.logger.warn(
+          { userId, pushTokenId: result.pushTokenId, provider: result.provider, error: result.error },
+          'Push notification delivery failed'
+        );
+      });
+
+    app.logger.info(
+      {
+        userId,
+        title: notification.title,
+        delivered: results.filter((result) => result.status === 'delivered').length,
+        total: results.length,
+      },
+      'Push notifications dispatched'
+    );
+
+    return results;
+  } catch (error) {
+    app.logger.error(
+      { err: error, userId },
+      'Failed to send push notification'
+    );
+    return [];
+  }
+}
+
+/**
+ * Notifies a user without waiting for delivery, as publish does for realtime events
+ * Request handlers use this so a slow push provider does not hold up their response
+ */
+export function dispatchNotification(
+  app: App,
+  userId: string,
+  notification: NotificationPayload
+): void {
+  notifyUser(app, userId, notification).catch((error) => {
+    app.logger.error({ err: error, userId }, 'Failed to send push notification');
+  });
+}
@@ -0,0 +1,220 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, generateKeyPairSync, type KeyObject } from 'crypto';
+import { base64UrlJson, signJwt } from './jwt.js';
+import {
+  OidcError,
+  clearOidcCache,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  getDiscoveryDocument,
+  verifyIdToken,
+  type OidcDiscoveryDocument,
+} from './oidc.js';
+
+const METADATA_URL = 'https://idp.example.com/.well-known/openid-configuration';
+const CLIENT_ID = 'https://acceptconnect.app';
+const NONCE = 'nonce-123';
+
+const discovery: OidcDiscoveryDocument = {
+  issuer: 'https://idp.example.com',
+  authorization_endpoint: 'https://idp.example.com/authorize',
+  token_endpoint: 'https://idp.example.com/token',
+  jwks_uri: 'https://idp.example.com/jwks',
+};
+
+const createSigningKey = (kid: string) => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' } };
+};
+
+const providerKey = createSigningKey('key-1');
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Serves the discovery document and the given keys, recording every request
+ */
+function mockProvider(jwks: () => unknown[] = () => [providerKey.jwk]) {
+  return mock.method(globalThis, 'fetch', async (url: string) => {
+    if (url === METADATA_URL) return jsonResponse(200, discovery);
+    if (url === discovery.jwks_uri) return jsonResponse(200, { keys: jwks() });
+    return jsonResponse(404, {});
+  });
+}
+
+const signIdToken = (
+  claims: Record<string, unknown> = {},
+  { key = providerKey.privateKey, kid = providerKey.kid }: { key?: KeyObject; kid?: string } = {}
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { kid },
+    {
+      iss: discovery.issuer,
+      sub: 'TINIT-RSSMRA80A01H501U',
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + 300,
+      nonce: NONCE,
+      acr: 'https://www.spid.gov.it/SpidL2',
+      ...claims,
+    },
+    key,
+    'RS256'
+  );
+};
+
+const verify = (idToken: string, options: { acceptedAcr?: string[] } = {}) =>
+  verifyIdToken(idToken, discovery, { clientId: CLIENT_ID, nonce: NONCE, ...options });
+
+describe('createPkcePair', () => {
+  it('derives the challenge from the verifier with S256', () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+
+    assert.match(codeVerifier, /^[A-Za-z0-9_-]{43}$/);
+    assert.equal(codeChallenge, createHash('sha256').update(codeVerifier).digest('base64url'));
+  });
+
+  it('uses a fresh verifier every time', () => {
+    assert.notEqual(createPkcePair().codeVerifier, createPkcePair().codeVerifier);
+  });
+});
+
+describe('getDiscoveryDocument', () => {
+  beforeEach(() => clearOidcCache());
+  afterEach(() => mock.restoreAll());
+
+  it('caches the document', async () => {
+    const fetchMock = mockProvider();
+
+    assert.deepEqual(await getDiscoveryDocument(METADATA_URL), discovery);
+    assert.deepEqual(await getDiscoveryDocument(METADATA_URL), discovery);
+    assert.equal(fetchMock.mock.callCount(), 1);
+  });
+
+  it('rejects documents without the required endpoints', async () => {
+    mock.method(globalThis, 'fetch', async () => jsonResponse(200, { ...discovery, jwks_uri: undefined }));
+
+    await assert.rejects(getDiscoveryDocument(METADATA_URL), /missing jwks_uri/);
+  });
+});
+
+describe('exchangeAuthorizationCode', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('sends the PKCE verifier with the code', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () =>
+      jsonResponse(200, { access_token: 'at', id_token: 'it', token_type: 'Bearer', expires_in: 60 })
+    );
+
+    const tokens = await exchangeAuthorizationCode(discovery, {
+      code: 'code-1',
+      codeVerifier: 'verifier-1',
+      clientId: CLIENT_ID,
+      clientSecret: 'secret',
+      redirectUri: 'https://acceptconnect.app/api/auth/spid/callback',
+    });
+
+    assert.equal(tokens.id_token, 'it');
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, discovery.token_endpoint);
+    const form = new URLSearchParams(init.body as string);
+    assert.equal(form.get('grant_type'), 'authorization_code');
+    assert.equal(form.get('code'), 'code-1');
+    assert.equal(form.get('code_verifier'), 'verifier-1');
+  });
+
+  it('reports the provider error when the exchange fails', async () => {
+    mock.method(globalThis, 'fetch', async () =>
+      jsonResponse(400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    );
+
+    await assert.rejects(
+      exchangeAuthorizationCode(discovery, {
+        code: 'code-1',
+        codeVerifier: 'wrong',
+        clientId: CLIENT_ID,
+        clientSecret: 'secret',
+        redirectUri: 'https://acceptconnect.app/api/auth/spid/callback',
+      }),
+      (error: Error) => error instanceof OidcError && /PKCE verification failed/.test(error.message)
+    );
+  });
+});
+
+describe('verifyIdToken', () => {
+  beforeEach(() => clearOidcCache());
+  afterEach(() => mock.restoreAll());
+
+  it('returns the claims of a valid token', async () => {
+    mockProvider();
+
+    const claims = await verify(signIdToken(), { acceptedAcr: ['https://www.spid.gov.it/SpidL2'] });
+
+    assert.equal(claims.sub, 'TINIT-RSSMRA80A01H501U');
+  });
+
+  it('rejects tokens that do not belong to this login', async () => {
+    mockProvider();
+    const now = Math.floor(Date.now() / 1000);
+
+    const cases: Array<[Record<string, unknown>, RegExp]> = [
+      [{ nonce: 'replayed-nonce' }, /nonce does not match/],
+      [{ iss: 'https://evil.example.com' }, /issuer does not match/],
+      [{ aud: 'another-client' }, /audience does not match/],
+      [{ aud: [CLIENT_ID, 'another-client'] }, /authorized party does not match/],
+      [{ exp: now - 120 }, /has expired/],
+      [{ iat: now + 600 }, /issued in the future/],
+      [{ sub: '' }, /has no subject/],
+    ];
+
+    for (const [claims, expected] of cases) {
+      await assert.rejects(verify(signIdToken(claims)), expected);
+    }
+  });
+
+  it('rejects an insufficient authentication level', async () => {
+    mockProvider();
+
+    await assert.rejects(
+      verify(signIdToken({ acr: 'https://www.spid.gov.it/SpidL1' }), {
+        acceptedAcr: ['https://www.spid.gov.it/SpidL2'],
+      }),
+      /SpidL1 is not sufficient/
+    );
+  });
+
+  it('rejects tokens signed with another key', async () => {
+    mockProvider();
+    const forger = createSigningKey(providerKey.kid);
+
+    await assert.rejects(verify(signIdToken({}, { key: forger.privateKey })), /signature is invalid/);
+  });
+
+  it('rejects tampered and unsigned tokens', async () => {
+    mockProvider();
+    const [header, , signature] = signIdToken().split('.');
+    const tampered = `${header}.${base64UrlJson({ sub: 'someone-else' })}.${signature}`;
+    const unsigned = `${base64UrlJson({ alg: 'none', kid: providerKey.kid })}.${base64UrlJson({ sub: 'x' })}.`;
+
+    await assert.rejects(verify(tampered), /signature is invalid/);
+    await assert.rejects(verify(unsigned), /Unsupported ID token algorithm none/);
+    await assert.rejects(verify('not-a-jwt'), /malformed/);
+  });
+
+  it('picks up rotated provider keys', async () => {
+    const rotatedKey = createSigningKey('key-2');
+    let keys = [providerKey.jwk];
+    const fetchMock = mockProvider(() => keys);
+
+    await verify(signIdToken());
+    keys = [providerKey.jwk, rotatedKey.jwk];
+    const claims = await verify(signIdToken({}, { key: rotatedKey.privateKey, kid: rotatedKey.kid }));
+
+    assert.equal(claims.sub, 'TINIT-RSSMRA80A01H501U');
+    assert.equal(fetchMock.mock.callCount(), 2);
+    await assert.rejects(verify(signIdToken({}, { kid: 'unknown' })), /No signing key found for kid unknown/);
+  });
+});
@@ -0,0 +1,234 @@
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from 'crypto';
+import { decodeJwt, verifyJwtSignature, type JwtVerifyAlgorithm } from './jwt.js';
+
+/**
+ * OpenID Connect Client Utilities
+ * Discovery, PKCE, authorization code exchange and ID token validation
+ */
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  acr_values_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  id_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  acr?: string;
+  email?: string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+// Discovery documents and key sets rarely change; refresh them hourly
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// Tolerated clock difference with the provider when checking exp/iat
+const CLOCK_SKEW_SECONDS = 60;
+const SUPPORTED_ALGORITHMS: JwtVerifyAlgorithm[] = ['RS256', 'PS256', 'ES256'];
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: Array<JsonWebKey & { kid?: string }>; expiresAt: number }>();
+
+/**
+ * Drops cached discovery documents and key sets
+ */
+export function clearOidcCache(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new OidcError(`Request to ${url} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Fetches and caches the provider's discovery document
+ */
+export async function getDiscoveryDocument(metadataUrl: string): Promise<OidcDiscoveryDocument> {
+  const cached = discoveryCache.get(metadataUrl);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.document;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(metadataUrl);
+
+  for (const field of ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof document[field] !== 'string' || !document[field]) {
+      throw new OidcError(`Discovery document is missing ${field}`);
+    }
+  }
+
+  discoveryCache.set(metadataUrl, { document, expiresAt: Date.now() + CACHE_TTL_MS });
+  return document;
+}
+
+/**
+ * Finds the signing key for a kid, refetching the key set once when it is unknown
+ * so that provider key rotation is picked up without a restart
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<KeyObject> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    let cached = jwksCache.get(jwksUri);
+
+    if (!cached || Date.now() >= cached.expiresAt || attempt > 0) {
+      const { keys } = await fetchJson<{ keys: Array<JsonWebKey & { kid?: string }> }>(jwksUri);
+      cached = { keys: keys || [], expiresAt: Date.now() + CACHE_TTL_MS };
+      jwksCache.set(jwksUri, cached);
+    }
+
+    const jwk = kid
+      ? cached.keys.find((key) => key.kid === kid)
+      : cached.keys.length === 1
+        ? cached.keys[0]
+        : undefined;
+
+    if (jwk) {
+      return createPublicKey({ key: jwk, format: 'jwk' });
+    }
+  }
+
+  throw new OidcError(`No signing key found for kid ${kid ?? '(none)'}`);
+}
+
+/**
+ * Generates a PKCE verifier and its S256 challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Exchanges an authorization code for tokens
+ */
+export async function exchangeAuthorizationCode(
+  discovery: OidcDiscoveryDocument,
+  options: {
+    code: string;
+    codeVerifier: string;
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+  }
+): Promise<OidcTokenResponse> {
+  const response = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: options.code,
+      code_verifier: options.codeVerifier,
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      redirect_uri: options.redirectUri,
+    }).toString(),
+  });
+
+  const body = (await response.json().catch(() => ({}))) as Partial<OidcTokenResponse> & {
+    error?: string;
+    error_description?: string;
+  };
+
+  if (!response.ok) {
+    throw new OidcError(
+      `Token exchange failed with status ${response.status}: ${body.error_description || body.error || 'unknown error'}`
+    );
+  }
+
+  if (!body.id_token) {
+    throw new OidcError('Token response did not include an ID token');
+  }
+
+  return body as OidcTokenResponse;
+}
+
+/**
+ * Verifies an ID token's signature and standard claims
+ * acceptedAcr lists the authentication context classes that satisfy the request
+ */
+export async function verifyIdToken(
+  idToken: string,
+  discovery: OidcDiscoveryDocument,
+  options: { clientId: string; nonce: string; acceptedAcr?: string[] }
+): Promise<IdTokenClaims> {
+  let decoded;
+  try {
+    decoded = decodeJwt(idToken);
+  } catch {
+    throw new OidcError('ID token is malformed');
+  }
+
+  const algorithm = decoded.header.alg as JwtVerifyAlgorithm;
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new OidcError(`Unsupported ID token algorithm ${decoded.header.alg}`);
+  }
+
+  const key = await getSigningKey(discovery.jwks_uri, decoded.header.kid);
+  if (!verifyJwtSignature(decoded, key, algorithm)) {
+    throw new OidcError('ID token signature is invalid');
+  }
+
+  const claims = decoded.payload as IdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== discovery.issuer) {
+    throw new OidcError('ID token issuer does not match');
+  }
+  if (!audiences.includes(options.clientId)) {
+    throw new OidcError('ID token audience does not match');
+  }
+  if (audiences.length > 1 && claims.azp !== options.clientId) {
+    throw new OidcError('ID token authorized party does not match');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new OidcError('ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new OidcError('ID token was issued in the future');
+  }
+  if (!claims.sub) {
+    throw new OidcError('ID token has no subject');
+  }
+  if (claims.nonce !== options.nonce) {
+    throw new OidcError('ID token nonce does not match');
+  }
+  if (options.acceptedAcr && !options.acceptedAcr.includes(claims.acr as string)) {
+    throw new OidcError(`ID token authentication level ${claims.acr ?? '(none)'} is not sufficient`);
+  }
+
+  return claims;
+}
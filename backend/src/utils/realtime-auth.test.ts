@@ -0,0 +1,68 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import * as authSchema from '../db/auth-schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import {
+  consumeRealtimeTicket,
+  createRealtimeTicket,
+  findSessionId,
+  isSessionActive,
+} from './realtime-auth.js';
+
+describe('realtime authentication', () => {
+  let testApp: TestApp;
+  const session = { userId: 'alice', sessionId: 'session-1' };
+
+  beforeEach(async () => {
+    testApp = await createTestApp([], ['alice']);
+    await testApp.db.insert(authSchema.session).values({
+      id: 'session-1',
+      token: 'token-1',
+      userId: 'alice',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      updatedAt: new Date(),
+    });
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('finds the session behind a plain or signed bearer token', async () => {
+    assert.equal(await findSessionId(testApp.app, 'Bearer token-1'), 'session-1');
+    assert.equal(await findSessionId(testApp.app, 'Bearer token-1.c2lnbmF0dXJl'), 'session-1');
+    assert.equal(await findSessionId(testApp.app, 'Bearer token-2'), null);
+    assert.equal(await findSessionId(testApp.app, undefined), null);
+  });
+
+  it('redeems a ticket once', async () => {
+    const { ticket } = await createRealtimeTicket(testApp.app, session);
+
+    assert.deepEqual(await consumeRealtimeTicket(testApp.app, ticket), session);
+    assert.equal(await consumeRealtimeTicket(testApp.app, ticket), null);
+  });
+
+  it('does not redeem expired tickets', async () => {
+    const { ticket } = await createRealtimeTicket(testApp.app, session);
+    await testApp.db
+      .update(authSchema.verification)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(authSchema.verification.identifier, `realtime:ticket:${ticket}`));
+
+    assert.equal(await consumeRealtimeTicket(testApp.app, ticket), null);
+  });
+
+  it('reports revoked and expired sessions as inactive', async () => {
+    assert.equal(await isSessionActive(testApp.app, session), true);
+
+    await testApp.db
+      .update(authSchema.session)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(authSchema.session.id, 'session-1'));
+    assert.equal(await isSessionActive(testApp.app, session), false);
+
+    await testApp.db.delete(authSchema.session).where(eq(authSchema.session.id, 'session-1'));
+    assert.equal(await isSessionActive(testApp.app, session), false);
+  });
+});
@@ -0,0 +1,104 @@
+import type { App } from '../index.js';
+import { and, eq, gt, lt, like } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import * as authSchema from '../db/auth-schema.js';
+
+/**
+ * Realtime Authentication
+ * Single-use tickets for opening the realtime socket, and the session checks that keep it open
+ *
+ * Browsers cannot set headers on WebSocket requests, so they trade their bearer token for a
+ * ticket and pass that in the URL instead; a ticket is worthless once used or after a few seconds.
+ * Tickets are kept in Better Auth's verification table under realtime:ticket:* identifiers.
+ */
+
+// Long enough to open the socket right after fetching the ticket
+const TICKET_TTL_MS = 30 * 1000;
+
+export interface RealtimeSession {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Finds the active session behind an Authorization header
+ * Accepts the plain session token as well as the signed form Better Auth hands out as a cookie
+ */
+export async function findSessionId(
+  app: App,
+  authorization: string | undefined
+): Promise<string | null> {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  const token = decodeURIComponent(match[1]).split('.')[0];
+  const session = await app.db.query.session.findFirst({
+    where: and(eq(authSchema.session.token, token), gt(authSchema.session.expiresAt, new Date())),
+  });
+
+  return session?.id ?? null;
+}
+
+/**
+ * Checks that a session has been neither revoked nor expired since the socket opened
+ */
+export async function isSessionActive(app: App, session: RealtimeSession): Promise<boolean> {
+  const active = await app.db.query.session.findFirst({
+    where: and(
+      eq(authSchema.session.id, session.sessionId),
+      eq(authSchema.session.userId, session.userId),
+      gt(authSchema.session.expiresAt, new Date())
+    ),
+  });
+  return !!active;
+}
+
+/**
+ * Issues a ticket that opens one realtime socket for the given session
+ */
+export async function createRealtimeTicket(
+  app: App,
+  session: RealtimeSession
+): Promise<{ ticket: string; expiresAt: Date }> {
+  const ticket = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + TICKET_TTL_MS);
+
+  // Opportunistically clear tickets that were never used
+  await app.db
+    .delete(authSchema.verification)
+    .where(
+      and(
+        like(authSchema.verification.identifier, 'realtime:ticket:%'),
+        lt(authSchema.verification.expiresAt, new Date())
+      )
+    );
+
+  await app.db.insert(authSchema.verification).values({
+    id: randomBytes(16).toString('hex'),
+    identifier: `realtime:ticket:${ticket}`,
+    value: JSON.stringify(session),
+    expiresAt,
+  });
+
+  return { ticket, expiresAt };
+}
+
+/**
+ * Consumes a ticket, returning null if unknown, expired or already used
+ */
+export async function consumeRealtimeTicket(
+  app: App,
+  ticket: string
+): Promise<RealtimeSession | null> {
+  const [entry] = await app.db
+    .delete(authSchema.verification)
+    .where(
+      and(
+        eq(authSchema.verification.identifier, `realtime:ticket:${ticket}`),
+        gt(authSchema.verification.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  return entry ? (JSON.parse(entry.value) as RealtimeSession) : null;
+}
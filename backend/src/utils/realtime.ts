@@ -0,0 +1,104 @@
+import type { App } from '../index.js';
+
+/**
+ * Realtime Utilities
+ * In-process fan-out of live events to the sockets a user has open (see routes/realtime.ts)
+ *
+ * Delivery is best-effort: nothing is queued for users who are offline, so clients
+ * refetch what they show after (re)connecting and treat events as hints to refresh.
+ */
+
+export type RealtimeEvent =
+  | {
+      type: 'message_status';
+      data: {
+        message_id: string;
+        status: string;
+        actor_id: string;
+        thread_id?: string | null;
+        counter_message_id?: string;
+        recipient_status?: string;
+        is_group?: boolean;
+      };
+    }
+  | {
+      type: 'connection_request';
+      data: { connection_id: string; requester_user_id: string; requester_name: string | null };
+    }
+  | {
+      type: 'connection_status';
+      data: { connection_id: string; status: string; user_id: string };
+    }
+  | {
+      type: 'proximity_connect';
+      data: { session_id: string; recipient_id: string; recipient_name: string | null };
+    }
+  | {
+      type: 'conversation_message';
+      data: Record<string, unknown> & { conversation_id: string };
+    }
+  | {
+      type: 'conversation_read';
+      data: { conversation_id: string; user_id: string; read_at: Date | null };
+    };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const listeners = new Map<string, Set<RealtimeListener>>();
+
+/**
+ * Registers a listener for a user's events
+ * Returns the function that removes it again
+ */
+export function subscribe(userId: string, listener: RealtimeListener): () => void {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+  }
+  userListeners.add(listener);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
+
+/**
+ * Pushes an event to every open socket of the given users
+ * Never throws: a failing listener is logged and the others still receive the event
+ */
+export function publish(app: App, userIds: Array<string | null | undefined>, event: RealtimeEvent): void {
+  for (const userId of new Set(userIds)) {
+    if (!userId) continue;
+
+    for (const listener of listeners.get(userId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        app.logger.warn({ err: error, userId, eventType: event.type }, 'Failed to deliver realtime event');
+      }
+    }
+  }
+}
+
+/**
+ * Tells both sides of a message that its status changed
+ * The actor is included so their other devices stay in sync
+ */
+export function publishMessageStatus(
+  app: App,
+  message: { id: string; senderId: string; recipientId: string | null; threadId?: string | null },
+  data: Omit<Extract<RealtimeEvent, { type: 'message_status' }>['data'], 'message_id' | 'thread_id'>
+): void {
+  publish(app, [message.senderId, message.recipientId, data.actor_id], {
+    type: 'message_status',
+    data: { message_id: message.id, thread_id: message.threadId ?? null, ...data },
+  });
+}
+
+export function countSubscribers(userId: string): number {
+  return listeners.get(userId)?.size ?? 0;
+}
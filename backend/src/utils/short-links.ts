@@ -0,0 +1,102 @@
+import type { App } from '../index.js';
+import { eq, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import { generateShortCode } from './link-utils.js';
+
+/**
+ * Short Link Utilities
+ * Persists and resolves the short codes used in /m/:code share URLs
+ */
+
+// Short codes are random, so collisions are rare; give up after a few attempts
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Returns the short link for a message, creating it on first use
+ * Expiry is kept aligned with the message's link expiration
+ */
+export async function getOrCreateShortLink(
+  app: App,
+  message: typeof schema.messages.$inferSelect
+): Promise<typeof schema.shortLinks.$inferSelect> {
+  const existing = await app.db.query.shortLinks.findFirst({
+    where: eq(schema.shortLinks.messageId, message.id),
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  for (let attempt = 1; attempt <= MAX_CODE_ATTEMPTS; attempt++) {
+    const [created] = await app.db
+      .insert(schema.shortLinks)
+      .values({
+        code: generateShortCode(),
+        messageId: message.id,
+        expiresAt: message.linkExpiresAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (created) {
+      return created;
+    }
+
+    // Either the code collided or a concurrent request created the link
+    const concurrent = await app.db.query.shortLinks.findFirst({
+      where: eq(schema.shortLinks.messageId, message.id),
+    });
+
+    if (concurrent) {
+      return concurrent;
+    }
+
+    app.logger.warn({ messageId: message.id, attempt }, 'Short code collision, retrying');
+  }
+
+  throw new Error('Failed to allocate a unique short code');
+}
+
+/**
+ * Resolves a short code to its message, recording the click
+ * Returns null when the code is unknown, or the expiry state otherwise
+ */
+export async function resolveShortLink(
+  app: App,
+  code: string
+): Promise<{
+  expired: boolean;
+  shortLink: typeof schema.shortLinks.$inferSelect;
+  message: typeof schema.messages.$inferSelect | null;
+} | null> {
+  const shortLink = await app.db.query.shortLinks.findFirst({
+    where: eq(schema.shortLinks.code, code.toUpperCase()),
+  });
+
+  if (!shortLink) {
+    return null;
+  }
+
+  if (shortLink.expiresAt && new Date() > shortLink.expiresAt) {
+    return { expired: true, shortLink, message: null };
+  }
+
+  const message = await app.db.query.messages.findFirst({
+    where: eq(schema.messages.id, shortLink.messageId),
+  });
+
+  if (!message?.linkToken) {
+    return null;
+  }
+
+  const [updated] = await app.db
+    .update(schema.shortLinks)
+    .set({
+      clickCount: sql`${schema.shortLinks.clickCount} + 1`,
+      lastClickedAt: new Date(),
+    })
+    .where(eq(schema.shortLinks.id, shortLink.id))
+    .returning();
+
+  return { expired: false, shortLink: updated, message };
+}
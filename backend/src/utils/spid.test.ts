@@ -0,0 +1,42 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import * as authSchema from '../db/auth-schema.js';
+import { createTestApp, type TestApp } from '../testing/test-app.js';
+import { consumeSpidLoginState, saveSpidLoginState } from './spid.js';
+
+describe('SPID login state', () => {
+  let testApp: TestApp;
+  const pending = { nonce: 'nonce-123', codeVerifier: 'verifier-123' };
+
+  beforeEach(async () => {
+    testApp = await createTestApp([]);
+  });
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  it('returns the nonce and PKCE verifier once', async () => {
+    await saveSpidLoginState(testApp.app, 'state-1', pending);
+
+    assert.deepEqual(await consumeSpidLoginState(testApp.app, 'state-1'), pending);
+    assert.equal(await consumeSpidLoginState(testApp.app, 'state-1'), null);
+  });
+
+  it('does not accept unknown states', async () => {
+    await saveSpidLoginState(testApp.app, 'state-1', pending);
+
+    assert.equal(await consumeSpidLoginState(testApp.app, 'state-2'), null);
+  });
+
+  it('does not accept expired states', async () => {
+    await saveSpidLoginState(testApp.app, 'state-1', pending);
+    await testApp.db
+      .update(authSchema.verification)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(authSchema.verification.identifier, 'spid:state:state-1'));
+
+    assert.equal(await consumeSpidLoginState(testApp.app, 'state-1'), null);
+  });
+});
@@ -0,0 +1,244 @@
+import type { App } from '../index.js';
+import type { FastifyRequest } from 'fastify';
+import { and, eq, gt, lt, like } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
+import * as authSchema from '../db/auth-schema.js';
+import type { IdTokenClaims } from './oidc.js';
+
+/**
+ * SPID Utilities
+ * Short-lived login state, verified identity tickets and account/session handling
+ *
+ * Pending logins and identity tickets are kept in Better Auth's verification table
+ * under the spid:state:* and spid:link:* identifiers.
+ */
+
+export const SPID_PROVIDER_ID = 'spid';
+
+// SpidL2 is required; SpidL3 is a stronger level and also satisfies it
+export const SPID_ACCEPTED_ACR = [
+  'https://www.spid.gov.it/SpidL2',
+  'https://www.spid.gov.it/SpidL3',
+];
+
+// Pending logins and identity tickets expire after 5 minutes
+const SPID_STATE_TTL_MS = 5 * 60 * 1000;
+// Matches Better Auth's default session lifetime
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SpidConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  metadataUrl: string;
+}
+
+export interface SpidPendingLogin {
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface SpidIdentity {
+  subject: string;
+  issuer: string;
+  email?: string;
+  givenName?: string;
+  familyName?: string;
+}
+
+/**
+ * Reads the SPID client configuration, or null when it is incomplete
+ */
+export function getSpidConfig(): SpidConfig | null {
+  const clientId = process.env.SPID_CLIENT_ID;
+  const clientSecret = process.env.SPID_CLIENT_SECRET;
+  const redirectUri = process.env.SPID_REDIRECT_URI;
+  const metadataUrl = process.env.SPID_METADATA_URL;
+
+  if (!clientId || !clientSecret || !redirectUri || !metadataUrl) {
+    return null;
+  }
+
+  return { clientId, clientSecret, redirectUri, metadataUrl };
+}
+
+function generateId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Stores a value under an identifier for SPID_STATE_TTL_MS
+ */
+async function putEntry(app: App, identifier: string, value: unknown): Promise<Date> {
+  const expiresAt = new Date(Date.now() + SPID_STATE_TTL_MS);
+
+  // Opportunistically clear abandoned SPID entries
+  await app.db
+    .delete(authSchema.verification)
+    .where(
+      and(
+        like(authSchema.verification.identifier, 'spid:%'),
+        lt(authSchema.verification.expiresAt, new Date())
+      )
+    );
+
+  await app.db.insert(authSchema.verification).values({
+    id: generateId(),
+    identifier,
+    value: JSON.stringify(value),
+    expiresAt,
+  });
+
+  return expiresAt;
+}
+
+/**
+ * Deletes and returns an unexpired entry, so each one can only be used once
+ */
+async function takeEntry<T>(app: App, identifier: string): Promise<T | null> {
+  const [entry] = await app.db
+    .delete(authSchema.verification)
+    .where(
+      and(
+        eq(authSchema.verification.identifier, identifier),
+        gt(authSchema.verification.expiresAt, new Date())
+      )
+    )
+    .returning();
+
+  return entry ? (JSON.parse(entry.value) as T) : null;
+}
+
+/**
+ * Persists the nonce and PKCE verifier for a login attempt keyed by its state
+ */
+export async function saveSpidLoginState(
+  app: App,
+  state: string,
+  pending: SpidPendingLogin
+): Promise<Date> {
+  return putEntry(app, `spid:state:${state}`, pending);
+}
+
+/**
+ * Consumes the pending login for a state, returning null if unknown or expired
+ */
+export async function consumeSpidLoginState(
+  app: App,
+  state: string
+): Promise<SpidPendingLogin | null> {
+  return takeEntry<SpidPendingLogin>(app, `spid:state:${state}`);
+}
+
+/**
+ * Extracts the identity fields we keep from verified ID token claims
+ */
+export function identityFromClaims(claims: IdTokenClaims): SpidIdentity {
+  return {
+    subject: claims.sub,
+    issuer: claims.iss,
+    email: claims.email,
+    givenName: claims.given_name,
+    familyName: claims.family_name,
+  };
+}
+
+/**
+ * Issues a single-use ticket that lets POST /api/auth/spid/link act on a verified identity
+ */
+export async function createSpidLinkTicket(
+  app: App,
+  identity: SpidIdentity
+): Promise<{ linkToken: string; expiresAt: Date }> {
+  const linkToken = randomBytes(32).toString('hex');
+  const expiresAt = await putEntry(app, `spid:link:${linkToken}`, identity);
+  return { linkToken, expiresAt };
+}
+
+/**
+ * Consumes a link ticket, returning null if unknown or expired
+ */
+export async function consumeSpidLinkTicket(
+  app: App,
+  linkToken: string
+): Promise<SpidIdentity | null> {
+  return takeEntry<SpidIdentity>(app, `spid:link:${linkToken}`);
+}
+
+/**
+ * Finds the SPID account row for a subject, if it has been linked
+ */
+export async function findSpidAccount(app: App, subject: string) {
+  return app.db.query.account.findFirst({
+    where: and(
+      eq(authSchema.account.providerId, SPID_PROVIDER_ID),
+      eq(authSchema.account.accountId, subject)
+    ),
+  });
+}
+
+/**
+ * Links a SPID subject to a user through the account table
+ */
+export async function linkSpidAccount(app: App, userId: string, identity: SpidIdentity) {
+  const [account] = await app.db
+    .insert(authSchema.account)
+    .values({
+      id: generateId(),
+      accountId: identity.subject,
+      providerId: SPID_PROVIDER_ID,
+      userId,
+      scope: 'openid profile email',
+      updatedAt: new Date(),
+    })
+    .returning();
+
+  return account;
+}
+
+/**
+ * Creates a user from a SPID identity and links the identity to it
+ * SPID identities are verified by the identity provider, so the email is marked verified
+ */
+export async function createUserFromSpidIdentity(app: App, identity: SpidIdentity) {
+  const name =
+    [identity.givenName, identity.familyName].filter(Boolean).join(' ') || identity.email;
+
+  const [user] = await app.db
+    .insert(authSchema.user)
+    .values({
+      id: generateId(),
+      name,
+      email: identity.email,
+      emailVerified: true,
+    })
+    .returning();
+
+  await linkSpidAccount(app, user.id, identity);
+
+  return user;
+}
+
+/**
+ * Creates a Better Auth session for a user and returns its bearer token
+ */
+export async function createSessionForUser(
+  app: App,
+  request: FastifyRequest,
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await app.db.insert(authSchema.session).values({
+    id: generateId(),
+    token,
+    expiresAt,
+    ipAddress: request.ip,
+    userAgent: request.headers['user-agent'] ?? null,
+    userId,
+    updatedAt: new Date(),
+  });
+
+  return { token, expiresAt };
+}
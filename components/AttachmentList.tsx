@@ -0,0 +1,96 @@
+/**
+ * Attachment List
+ *
+ * Shows the files attached to a consent message: photos inline, documents
+ * as a name and size row (opened in a new tab on web). Downloads carry the
+ * bearer token, and the link token while the request is unanswered.
+ */
+
+import React, { useEffect, useState } from "react";
+import { View, Text, Image, TouchableOpacity, StyleSheet, Platform } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import { IconSymbol } from "@/components/IconSymbol";
+import {
+  attachmentImageSource,
+  formatFileSize,
+  isImageAttachment,
+  openAttachment,
+  type MessageAttachment,
+} from "@/utils/attachments";
+
+interface AttachmentListProps {
+  attachments: MessageAttachment[];
+  linkToken?: string;
+}
+
+function AttachmentImage({ attachment, linkToken }: { attachment: MessageAttachment; linkToken?: string }) {
+  const [source, setSource] = useState<{ uri: string; headers?: Record<string, string> } | null>(null);
+
+  useEffect(() => {
+    attachmentImageSource(attachment, linkToken).then(setSource);
+  }, [attachment, linkToken]);
+
+  return source ? <Image source={source} style={styles.image} resizeMode="cover" /> : <View style={styles.image} />;
+}
+
+export function AttachmentList({ attachments, linkToken }: AttachmentListProps) {
+  const { colors } = useTheme();
+
+  const handleOpen = (attachment: MessageAttachment) => {
+    console.log("User opened attachment:", attachment.fileName);
+    openAttachment(attachment, linkToken).catch((error) =>
+      console.error("Error opening attachment:", error)
+    );
+  };
+
+  return (
+    <View>
+      {attachments.map((attachment) =>
+        isImageAttachment(attachment) ? (
+          <AttachmentImage key={attachment.id} attachment={attachment} linkToken={linkToken} />
+        ) : (
+          <TouchableOpacity
+            key={attachment.id}
+            style={[styles.document, { borderColor: colors.border }]}
+            onPress={() => handleOpen(attachment)}
+            disabled={Platform.OS !== "web"}
+          >
+            <IconSymbol ios_icon_name="doc" android_material_icon_name="description" size={20} color={colors.text} />
+            <Text style={[styles.documentName, { color: colors.text }]} numberOfLines={1}>
+              {attachment.fileName}
+            </Text>
+            <Text style={[styles.documentSize, { color: colors.text }]}>{formatFileSize(attachment.size)}</Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: "100%",
+    aspectRatio: 4 / 3,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.sm,
+  },
+  document: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  documentName: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: typography.sizes.md,
+  },
+  documentSize: {
+    fontSize: typography.sizes.sm,
+    opacity: 0.6,
+    marginLeft: spacing.sm,
+  },
+});
@@ -0,0 +1,113 @@
+/**
+ * Attachment Picker
+ *
+ * Lets the user add photos from the library to the next request, such as a
+ * picture of the venue. Shows the chosen photos as thumbnails that can be
+ * removed again; the home screen uploads them once the message exists.
+ */
+
+import React, { useCallback } from "react";
+import { View, Text, Image, TouchableOpacity, ScrollView, StyleSheet, Alert } from "react-native";
+import * as ImagePicker from "expo-image-picker";
+import { useTheme } from "@react-navigation/native";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import { IconSymbol } from "@/components/IconSymbol";
+import { MAX_ATTACHMENTS } from "@/utils/attachments";
+
+interface AttachmentPickerProps {
+  assets: ImagePicker.ImagePickerAsset[];
+  onChange: (assets: ImagePicker.ImagePickerAsset[]) => void;
+}
+
+export function AttachmentPicker({ assets, onChange }: AttachmentPickerProps) {
+  const { colors } = useTheme();
+
+  const handleAdd = useCallback(async () => {
+    console.log("User tapped Add Photo");
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert("Permission Required", "Allow photo library access to attach photos.");
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_ATTACHMENTS - assets.length,
+      quality: 0.8,
+    });
+
+    if (!result.canceled) {
+      onChange([...assets, ...result.assets].slice(0, MAX_ATTACHMENTS));
+    }
+  }, [assets, onChange]);
+
+  const handleRemove = useCallback(
+    (uri: string) => {
+      console.log("User removed attached photo");
+      onChange(assets.filter((asset) => asset.uri !== uri));
+    },
+    [assets, onChange]
+  );
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {assets.map((asset) => (
+        <View key={asset.uri} style={styles.thumbnailWrapper}>
+          <Image source={{ uri: asset.uri }} style={styles.thumbnail} />
+          <TouchableOpacity
+            style={[styles.removeButton, { backgroundColor: colors.card }]}
+            onPress={() => handleRemove(asset.uri)}
+          >
+            <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={12} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {assets.length < MAX_ATTACHMENTS && (
+        <TouchableOpacity style={[styles.addButton, { borderColor: colors.border }]} onPress={handleAdd}>
+          <IconSymbol ios_icon_name="photo" android_material_icon_name="photo" size={20} color={colors.text} />
+          <Text style={[styles.addText, { color: colors.text }]}>Add photo</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+    alignItems: "center",
+  },
+  thumbnailWrapper: {
+    marginRight: spacing.sm,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.sm,
+  },
+  removeButton: {
+    position: "absolute",
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  addButton: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  addText: {
+    fontSize: typography.sizes.xs,
+    marginTop: spacing.xs,
+  },
+});
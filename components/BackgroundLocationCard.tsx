@@ -0,0 +1,171 @@
+/**
+ * Background Location Card
+ *
+ * Opt-in control for background location sharing on the Nearby screen.
+ * Lets the user enable the mode and pick the daily hours during which
+ * they stay discoverable. Renders nothing on web.
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, Switch, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import {
+  applyBackgroundLocationSettings,
+  getBackgroundLocationSettings,
+  isBackgroundLocationSupported,
+  DEFAULT_BACKGROUND_LOCATION_SETTINGS,
+  type BackgroundLocationSettings,
+} from "@/utils/backgroundLocation";
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+
+export function BackgroundLocationCard() {
+  const { colors } = useTheme();
+  const [settings, setSettings] = useState<BackgroundLocationSettings>(
+    DEFAULT_BACKGROUND_LOCATION_SETTINGS
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getBackgroundLocationSettings().then(setSettings);
+  }, []);
+
+  const update = useCallback(async (next: BackgroundLocationSettings) => {
+    setSaving(true);
+    try {
+      const applied = await applyBackgroundLocationSettings(next);
+      if (!applied) {
+        Alert.alert(
+          "Permission Required",
+          "Allow location access \"Always\" in Settings to stay discoverable in the background."
+        );
+        setSettings({ ...next, enabled: false });
+      } else {
+        setSettings(next);
+      }
+    } catch (error) {
+      console.error("Error updating background location settings:", error);
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const shiftHour = useCallback(
+    (field: "startHour" | "endHour", delta: number) => {
+      update({ ...settings, [field]: (settings[field] + delta + 24) % 24 });
+    },
+    [settings, update]
+  );
+
+  if (!isBackgroundLocationSupported()) {
+    return null;
+  }
+
+  const renderHourControl = (label: string, field: "startHour" | "endHour") => (
+    <View style={styles.hourControl}>
+      <Text style={[styles.hourLabel, { color: colors.text }]}>{label}</Text>
+      <View style={styles.hourStepper}>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: colors.border }]}
+          onPress={() => shiftHour(field, -1)}
+          disabled={saving}
+        >
+          <Text style={[styles.stepText, { color: colors.primary }]}>−</Text>
+        </TouchableOpacity>
+        <Text style={[styles.hourValue, { color: colors.text }]}>{formatHour(settings[field])}</Text>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: colors.border }]}
+          onPress={() => shiftHour(field, 1)}
+          disabled={saving}
+        >
+          <Text style={[styles.stepText, { color: colors.primary }]}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <View style={styles.row}>
+        <View style={styles.textContainer}>
+          <Text style={[styles.title, { color: colors.text }]}>Stay discoverable</Text>
+          <Text style={[styles.description, { color: colors.text }]}>
+            Share your location in the background between the hours below
+          </Text>
+        </View>
+        <Switch
+          value={settings.enabled}
+          onValueChange={(enabled) => update({ ...settings, enabled })}
+          disabled={saving}
+        />
+      </View>
+      {settings.enabled && (
+        <View style={styles.hoursRow}>
+          {renderHourControl("From", "startHour")}
+          {renderHourControl("Until", "endHour")}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  textContainer: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+  },
+  description: {
+    fontSize: typography.sizes.sm,
+    marginTop: 4,
+    opacity: 0.7,
+  },
+  hoursRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: spacing.md,
+  },
+  hourControl: {
+    alignItems: "center",
+  },
+  hourLabel: {
+    fontSize: typography.sizes.sm,
+    opacity: 0.7,
+    marginBottom: spacing.xs,
+  },
+  hourStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepText: {
+    fontSize: typography.sizes.lg,
+    fontWeight: "600",
+  },
+  hourValue: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+    marginHorizontal: spacing.sm,
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * Consent Form Fields
+ *
+ * Renders the structured questions attached to a consent message:
+ * checkboxes, acknowledgements, time slots and free-text answers.
+ * Read-only once the recipient has answered.
+ */
+
+import React, { useCallback } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import { IconSymbol } from "@/components/IconSymbol";
+import {
+  fieldAnswerError,
+  formatSlot,
+  type ConsentForm,
+  type FormAnswer,
+  type FormAnswers,
+  type FormField,
+} from "@/utils/consentForms";
+
+interface ConsentFormFieldsProps {
+  form: ConsentForm;
+  answers: FormAnswers;
+  onChange?: (answers: FormAnswers) => void;
+  /** Shows the answers without letting them change */
+  readOnly?: boolean;
+  /** Highlights missing or invalid answers */
+  showErrors?: boolean;
+}
+
+export function ConsentFormFields({ form, answers, onChange, readOnly, showErrors }: ConsentFormFieldsProps) {
+  const { colors } = useTheme();
+
+  const setAnswer = useCallback(
+    (fieldId: string, answer: FormAnswer | undefined) => {
+      const next = { ...answers };
+      if (answer === undefined) {
+        delete next[fieldId];
+      } else {
+        next[fieldId] = answer;
+      }
+      onChange?.(next);
+    },
+    [answers, onChange]
+  );
+
+  const toggleOption = useCallback(
+    (field: FormField, optionId: string) => {
+      const current = Array.isArray(answers[field.id]) ? (answers[field.id] as string[]) : [];
+      const next = current.includes(optionId)
+        ? current.filter((id) => id !== optionId)
+        : [...current, optionId];
+      setAnswer(field.id, next.length > 0 ? next : undefined);
+    },
+    [answers, setAnswer]
+  );
+
+  const renderChoice = (key: string, label: string, selected: boolean, round: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={styles.choice} onPress={onPress} disabled={readOnly}>
+      <View
+        style={[
+          round ? styles.radio : styles.checkbox,
+          { borderColor: selected ? colors.primary : colors.border },
+          selected && { backgroundColor: colors.primary },
+        ]}
+      >
+        {selected && (
+          <IconSymbol ios_icon_name="checkmark" android_material_icon_name="check" size={14} color="#fff" />
+        )}
+      </View>
+      <Text style={[styles.choiceLabel, { color: colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderInput = (field: FormField) => {
+    const answer = answers[field.id];
+
+    switch (field.type) {
+      case "acknowledgement":
+        return renderChoice(field.id, "I confirm", answer === true, false, () =>
+          setAnswer(field.id, answer === true ? undefined : true)
+        );
+      case "checkbox":
+        return field.options?.map((option) =>
+          renderChoice(
+            option.id,
+            option.label,
+            Array.isArray(answer) && answer.includes(option.id),
+            false,
+            () => toggleOption(field, option.id)
+          )
+        );
+      case "slot":
+        return field.slots?.map((slot) =>
+          renderChoice(slot.id, formatSlot(slot), answer === slot.id, true, () =>
+            setAnswer(field.id, answer === slot.id && !field.required ? undefined : slot.id)
+          )
+        );
+      case "text":
+        return readOnly ? (
+          <Text style={[styles.choiceLabel, { color: colors.text }]}>{(answer as string) || "—"}</Text>
+        ) : (
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+            value={typeof answer === "string" ? answer : ""}
+            onChangeText={(text) => setAnswer(field.id, text.length > 0 ? text : undefined)}
+            maxLength={field.maxLength}
+            multiline
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View>
+      {form.fields.map((field) => {
+        const error = showErrors && !readOnly ? fieldAnswerError(field, answers[field.id]) : null;
+        return (
+          <View key={field.id} style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: colors.text }]}>
+              {field.label}
+              {field.required && <Text style={styles.required}> *</Text>}
+            </Text>
+            {renderInput(field)}
+            {error && <Text style={styles.error}>{error}</Text>}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: spacing.lg,
+  },
+  fieldLabel: {
+    fontSize: typography.sizes.md,
+    fontWeight: "600",
+    marginBottom: spacing.sm,
+  },
+  required: {
+    color: "#ef4444",
+  },
+  choice: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.xs,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  choiceLabel: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: typography.sizes.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    fontSize: typography.sizes.md,
+    minHeight: 64,
+    textAlignVertical: "top",
+  },
+  error: {
+    color: "#ef4444",
+    fontSize: typography.sizes.sm,
+    marginTop: spacing.xs,
+  },
+});
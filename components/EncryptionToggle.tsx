@@ -0,0 +1,66 @@
+/**
+ * Encryption Toggle
+ *
+ * Switch for sending the next request end-to-end encrypted. The text is
+ * then only readable on the recipients' devices and by whoever holds the
+ * link. Photos cannot be attached to encrypted requests.
+ */
+
+import React from "react";
+import { View, Text, Switch, StyleSheet } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { spacing, typography } from "@/styles/commonStyles";
+import { IconSymbol } from "@/components/IconSymbol";
+
+interface EncryptionToggleProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+export function EncryptionToggle({ value, onChange }: EncryptionToggleProps) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.row}>
+      <IconSymbol ios_icon_name="lock.fill" android_material_icon_name="lock" size={18} color={colors.text} />
+      <View style={styles.labels}>
+        <Text style={[styles.title, { color: colors.text }]}>End-to-end encrypted</Text>
+        {value && (
+          <Text style={[styles.hint, { color: colors.text }]}>
+            Only people with the link can read the text. Photos cannot be attached.
+          </Text>
+        )}
+      </View>
+      <Switch
+        value={value}
+        onValueChange={(next) => {
+          console.log("User toggled encryption:", next);
+          onChange(next);
+        }}
+        trackColor={{ true: colors.primary }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  labels: {
+    flex: 1,
+    marginHorizontal: spacing.sm,
+  },
+  title: {
+    fontSize: typography.sizes.sm,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: typography.sizes.xs,
+    opacity: 0.7,
+    marginTop: spacing.xs,
+  },
+});
@@ -0,0 +1,141 @@
+/**
+ * Template Picker
+ *
+ * Lets the user choose the message sent by the Ask button from the system
+ * and personal templates, filtered by category, and fill in the variables
+ * the chosen template needs. Falls back to the default message when no
+ * template is selected or the templates cannot be loaded.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { spacing, borderRadius, typography } from "@/styles/commonStyles";
+import {
+  CATEGORY_LABELS,
+  DEFAULT_SELECTION,
+  VARIABLE_LABELS,
+  fetchMessageTemplates,
+  selectTemplate,
+  type MessageTemplate,
+  type TemplateCategory,
+  type TemplateSelection,
+  type TemplateValues,
+  type TemplateVariable,
+} from "@/utils/messageTemplates";
+
+interface TemplatePickerProps {
+  onChange: (selection: TemplateSelection) => void;
+}
+
+export function TemplatePicker({ onChange }: TemplatePickerProps) {
+  const { colors } = useTheme();
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [category, setCategory] = useState<TemplateCategory | null>(null);
+  const [selected, setSelected] = useState<MessageTemplate | null>(null);
+  const [values, setValues] = useState<TemplateValues>({});
+
+  useEffect(() => {
+    fetchMessageTemplates()
+      .then(setTemplates)
+      .catch((error) => console.error("Error loading message templates:", error));
+  }, []);
+
+  useEffect(() => {
+    onChange(selected ? selectTemplate(selected, values) : DEFAULT_SELECTION);
+  }, [selected, values, onChange]);
+
+  const categories = useMemo(
+    () => [...new Set(templates.map((template) => template.category))],
+    [templates]
+  );
+
+  const visibleTemplates = useMemo(
+    () => (category ? templates.filter((template) => template.category === category) : templates),
+    [templates, category]
+  );
+
+  const handleSelect = useCallback((template: MessageTemplate) => {
+    console.log("User selected message template:", template.title);
+    setSelected((current) => (current?.id === template.id ? null : template));
+  }, []);
+
+  const handleValueChange = useCallback((name: TemplateVariable, value: string) => {
+    setValues((current) => ({ ...current, [name]: value }));
+  }, []);
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: colors.border },
+        active && { backgroundColor: colors.primary, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: active ? "#fff" : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {renderChip("all", "All", category === null, () => setCategory(null))}
+        {categories.map((name) =>
+          renderChip(name, CATEGORY_LABELS[name], category === name, () => setCategory(name))
+        )}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {visibleTemplates.map((template) =>
+          renderChip(template.id, template.title, selected?.id === template.id, () => handleSelect(template))
+        )}
+      </ScrollView>
+      {selected?.variables.map((name) => (
+        <TextInput
+          key={name}
+          style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+          placeholder={VARIABLE_LABELS[name]}
+          placeholderTextColor={colors.text + "80"}
+          value={values[name] || ""}
+          onChangeText={(value) => handleValueChange(name, value)}
+          maxLength={100}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: "stretch",
+    marginTop: spacing.lg,
+  },
+  row: {
+    paddingHorizontal: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    marginRight: spacing.sm,
+  },
+  chipText: {
+    fontSize: typography.sizes.sm,
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginTop: spacing.sm,
+    fontSize: typography.sizes.md,
+  },
+});
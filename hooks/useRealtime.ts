@@ -0,0 +1,22 @@
+import { useEffect, useRef } from "react";
+import { subscribeRealtime, type RealtimeEvent } from "@/utils/realtime";
+
+/**
+ * Calls the handler for every live event while the component is mounted
+ * The handler may change between renders without reopening the subscription
+ *
+ * @param onEvent - Receives each event, including "reconnected" after a dropped connection
+ * @param enabled - Pass false to stay unsubscribed, e.g. while signed out
+ */
+export function useRealtime(onEvent: (event: RealtimeEvent) => void, enabled = true) {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeRealtime((event) => handlerRef.current(event));
+  }, [enabled]);
+}
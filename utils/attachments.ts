@@ -0,0 +1,99 @@
+import { Platform } from "react-native";
+import type { ImagePickerAsset } from "expo-image-picker";
+import { BACKEND_URL, authenticatedApiCall, getBearerToken } from "@/utils/api";
+
+/**
+ * Message attachments
+ *
+ * Photos and documents attached to a consent message, served by
+ * /api/messages/:id/attachments and /api/attachments/:id. Files are only
+ * readable by the sender and recipient, so every download carries the
+ * bearer token, plus the link token while a link message is unanswered.
+ */
+
+export interface MessageAttachment {
+  id: string;
+  messageId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  url: string;
+  createdAt: string;
+}
+
+export const MAX_ATTACHMENTS = 5;
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  pdf: "application/pdf",
+};
+
+const assetContentType = (asset: ImagePickerAsset): string => {
+  if (asset.mimeType) return asset.mimeType;
+  const extension = (asset.fileName || asset.uri).split(".").pop()?.toLowerCase() || "";
+  return EXTENSION_TYPES[extension] || "image/jpeg";
+};
+
+export const isImageAttachment = (attachment: MessageAttachment): boolean =>
+  attachment.contentType.startsWith("image/");
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Uploads a picked file to a pending message the user sent
+ * The file is sent as the raw request body with its own Content-Type
+ */
+export const uploadAttachment = async (messageId: string, asset: ImagePickerAsset): Promise<MessageAttachment> => {
+  const file = await (await fetch(asset.uri)).blob();
+  const query = asset.fileName ? `?filename=${encodeURIComponent(asset.fileName)}` : "";
+
+  return authenticatedApiCall<MessageAttachment>(`/api/messages/${messageId}/attachments${query}`, {
+    method: "POST",
+    headers: { "Content-Type": assetContentType(asset) },
+    body: file,
+  });
+};
+
+const attachmentUrl = (attachment: MessageAttachment, linkToken?: string): string =>
+  `${BACKEND_URL}${attachment.url}${linkToken ? `?token=${encodeURIComponent(linkToken)}` : ""}`;
+
+/**
+ * Image source for an attachment, authorized with the bearer token
+ */
+export const attachmentImageSource = async (attachment: MessageAttachment, linkToken?: string) => {
+  const token = await getBearerToken();
+  return {
+    uri: attachmentUrl(attachment, linkToken),
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  };
+};
+
+/**
+ * Opens a document attachment in a new browser tab (web only)
+ * Downloads need the bearer token, so the file is fetched first and opened from memory
+ */
+export const openAttachment = async (attachment: MessageAttachment, linkToken?: string): Promise<void> => {
+  if (Platform.OS !== "web") return;
+
+  const token = await getBearerToken();
+  const response = await fetch(attachmentUrl(attachment, linkToken), {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status} - ${await response.text()}`);
+  }
+
+  const objectUrl = URL.createObjectURL(await response.blob());
+  window.open(objectUrl, "_blank");
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+};
@@ -0,0 +1,247 @@
+import { Platform } from "react-native";
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+import * as SecureStore from "expo-secure-store";
+import { authenticatedPost } from "@/utils/api";
+
+/**
+ * Background location sharing
+ *
+ * When enabled, the OS delivers batched location fixes to a background task
+ * which forwards them to /api/location/update so the user stays discoverable
+ * without keeping the Nearby screen open.
+ *
+ * - Only fixes inside the user's daily time window are sent
+ * - A fix is sent when the user moved at least MIN_DISTANCE_METERS, or
+ *   HEARTBEAT_MS passed since the last one (significant-change filtering)
+ * - Each update is visible until the end of the current window
+ *
+ * This module must be imported at app startup so the task is defined
+ * before the OS wakes the app in the background.
+ */
+
+export const BACKGROUND_LOCATION_TASK = "acceptconnect-background-location";
+
+const SETTINGS_KEY = "acceptconnect_background_location";
+const LAST_SENT_KEY = "acceptconnect_background_location_last";
+
+const MIN_DISTANCE_METERS = 100;
+const HEARTBEAT_MS = 15 * 60 * 1000;
+// Let the OS collect fixes and deliver them in batches to save battery
+const DEFERRED_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface BackgroundLocationSettings {
+  enabled: boolean;
+  startHour: number; // 0-23, local time
+  endHour: number; // 0-23, local time; may be before startHour for overnight windows
+}
+
+export const DEFAULT_BACKGROUND_LOCATION_SETTINGS: BackgroundLocationSettings = {
+  enabled: false,
+  startHour: 8,
+  endHour: 22,
+};
+
+interface SentLocation {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export const isBackgroundLocationSupported = (): boolean => Platform.OS !== "web";
+
+export const getBackgroundLocationSettings = async (): Promise<BackgroundLocationSettings> => {
+  try {
+    const stored = await SecureStore.getItemAsync(SETTINGS_KEY);
+    return stored
+      ? { ...DEFAULT_BACKGROUND_LOCATION_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_BACKGROUND_LOCATION_SETTINGS;
+  } catch (error) {
+    console.error("[BackgroundLocation] Error reading settings:", error);
+    return DEFAULT_BACKGROUND_LOCATION_SETTINGS;
+  }
+};
+
+/**
+ * Checks whether a time falls inside the daily window
+ * Equal start and end hours mean the whole day
+ */
+export const isWithinTimeWindow = (
+  settings: BackgroundLocationSettings,
+  date: Date = new Date()
+): boolean => {
+  const { startHour, endHour } = settings;
+  const hour = date.getHours();
+
+  if (startHour === endHour) return true;
+  if (startHour < endHour) return hour >= startHour && hour < endHour;
+  return hour >= startHour || hour < endHour;
+};
+
+/**
+ * Returns when the window containing `date` closes
+ */
+const getWindowEnd = (settings: BackgroundLocationSettings, date: Date): Date => {
+  const end = new Date(date);
+  end.setHours(settings.endHour, 0, 0, 0);
+  if (end <= date) {
+    end.setDate(end.getDate() + 1);
+  }
+  return end;
+};
+
+const distanceMeters = (a: SentLocation, b: SentLocation): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+const isSignificantChange = (last: SentLocation | null, next: SentLocation): boolean => {
+  if (!last) return true;
+  if (next.timestamp - last.timestamp >= HEARTBEAT_MS) return true;
+  return distanceMeters(last, next) >= MIN_DISTANCE_METERS;
+};
+
+const getLastSent = async (): Promise<SentLocation | null> => {
+  try {
+    const stored = await SecureStore.getItemAsync(LAST_SENT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Handles a batch of fixes delivered by the OS
+ * Only the newest fix in the batch is sent
+ */
+const handleLocationBatch = async (locations: Location.LocationObject[]) => {
+  const settings = await getBackgroundLocationSettings();
+  if (!settings.enabled) {
+    await stopBackgroundLocation();
+    return;
+  }
+
+  const now = new Date();
+  if (!isWithinTimeWindow(settings, now) || locations.length === 0) {
+    return;
+  }
+
+  const latest = locations.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  const next: SentLocation = {
+    latitude: latest.coords.latitude,
+    longitude: latest.coords.longitude,
+    timestamp: latest.timestamp,
+  };
+
+  if (!isSignificantChange(await getLastSent(), next)) {
+    return;
+  }
+
+  await authenticatedPost("/api/location/update", {
+    latitude: next.latitude,
+    longitude: next.longitude,
+    ...(latest.coords.accuracy != null && { accuracy: latest.coords.accuracy }),
+    visible_until: getWindowEnd(settings, now).toISOString(),
+  });
+
+  await SecureStore.setItemAsync(LAST_SENT_KEY, JSON.stringify(next));
+  console.log("[BackgroundLocation] Location sent from", locations.length, "fixes");
+};
+
+if (isBackgroundLocationSupported()) {
+  TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+    BACKGROUND_LOCATION_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        console.error("[BackgroundLocation] Task error:", error.message);
+        return;
+      }
+
+      try {
+        await handleLocationBatch(data?.locations || []);
+      } catch (taskError) {
+        console.error("[BackgroundLocation] Error sending location:", taskError);
+      }
+    }
+  );
+}
+
+/**
+ * Starts background updates, asking for "always" location permission first
+ * Returns false when the permission is denied or the device cannot run the task
+ */
+export const startBackgroundLocation = async (): Promise<boolean> => {
+  if (!isBackgroundLocationSupported() || !(await TaskManager.isAvailableAsync())) {
+    return false;
+  }
+
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== "granted") {
+    console.log("[BackgroundLocation] Foreground permission denied");
+    return false;
+  }
+
+  const background = await Location.requestBackgroundPermissionsAsync();
+  if (background.status !== "granted") {
+    console.log("[BackgroundLocation] Background permission denied");
+    return false;
+  }
+
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy: Location.Accuracy.Balanced,
+    distanceInterval: MIN_DISTANCE_METERS,
+    deferredUpdatesInterval: DEFERRED_INTERVAL_MS,
+    deferredUpdatesDistance: MIN_DISTANCE_METERS,
+    pausesUpdatesAutomatically: true,
+    activityType: Location.ActivityType.Other,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: "Accept Connect",
+      notificationBody: "You are discoverable by nearby users",
+    },
+  });
+
+  console.log("[BackgroundLocation] Background updates started");
+  return true;
+};
+
+export const stopBackgroundLocation = async (): Promise<void> => {
+  if (!isBackgroundLocationSupported()) return;
+
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK)) {
+      await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+      console.log("[BackgroundLocation] Background updates stopped");
+    }
+  } catch (error) {
+    console.error("[BackgroundLocation] Error stopping updates:", error);
+  }
+};
+
+/**
+ * Saves settings and starts or stops background updates to match
+ * If starting fails, the mode is saved as disabled and false is returned
+ */
+export const applyBackgroundLocationSettings = async (
+  settings: BackgroundLocationSettings
+): Promise<boolean> => {
+  let applied = settings;
+
+  if (settings.enabled) {
+    const started = await startBackgroundLocation();
+    if (!started) {
+      applied = { ...settings, enabled: false };
+    }
+  } else {
+    await stopBackgroundLocation();
+    await SecureStore.deleteItemAsync(LAST_SENT_KEY);
+  }
+
+  await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(applied));
+  return applied.enabled === settings.enabled;
+};
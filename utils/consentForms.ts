@@ -0,0 +1,70 @@
+/**
+ * Consent forms
+ *
+ * Structured questions a sender can attach to a message. The recipient
+ * answers them when accepting; the backend validates the answers again and
+ * signs their hash into the consent receipt.
+ */
+
+export type FormFieldType = "checkbox" | "acknowledgement" | "slot" | "text";
+
+export interface FormField {
+  id: string;
+  type: FormFieldType;
+  label: string;
+  required: boolean;
+  options?: { id: string; label: string }[];
+  minSelected?: number;
+  maxSelected?: number;
+  slots?: { id: string; start: string; end: string }[];
+  maxLength?: number;
+}
+
+export interface ConsentForm {
+  version: 1;
+  fields: FormField[];
+}
+
+export type FormAnswer = boolean | string | string[];
+export type FormAnswers = Record<string, FormAnswer>;
+
+export const formatSlot = (slot: { start: string; end: string }): string => {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const sameDay = start.toDateString() === end.toDateString();
+  return sameDay
+    ? `${start.toLocaleDateString()} ${start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} – ${end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+    : `${start.toLocaleString()} – ${end.toLocaleString()}`;
+};
+
+/**
+ * Checks one field's answer the way the backend will
+ * Returns a message for the first problem, or null when the answer is fine
+ */
+export const fieldAnswerError = (field: FormField, answer: FormAnswer | undefined): string | null => {
+  switch (field.type) {
+    case "acknowledgement":
+      return answer === true ? null : "Please confirm";
+    case "checkbox": {
+      const count = Array.isArray(answer) ? answer.length : 0;
+      const min = field.minSelected ?? 0;
+      const max = field.maxSelected ?? field.options?.length ?? 0;
+      if (count < min) return min === 1 ? "Select an option" : `Select at least ${min}`;
+      if (count > max) return `Select at most ${max}`;
+      return null;
+    }
+    case "slot":
+      return field.required && !answer ? "Choose a time" : null;
+    case "text": {
+      const text = typeof answer === "string" ? answer.trim() : "";
+      if (field.required && text.length === 0) return "An answer is required";
+      if (field.maxLength && text.length > field.maxLength) return `At most ${field.maxLength} characters`;
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const isFormComplete = (form: ConsentForm, answers: FormAnswers): boolean =>
+  form.fields.every((field) => fieldAnswerError(field, answers[field.id]) === null);
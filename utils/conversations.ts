@@ -0,0 +1,76 @@
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+
+/**
+ * Conversations
+ *
+ * Private chats between users with an accepted connection, served by
+ * /api/conversations. History comes newest first in pages; read receipts
+ * are the time each side last opened the conversation.
+ */
+
+export interface ConversationMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  reply_to_id: string | null;
+  is_own: boolean;
+  /** Set on the viewer's own messages: whether the other side has read it */
+  is_read?: boolean;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  other_user_id: string;
+  other_username: string;
+  unread_count: number;
+  last_message: ConversationMessage | null;
+  last_message_at: string | null;
+  other_last_read_at: string | null;
+  created_at: string;
+  /** Only on single-conversation responses */
+  can_send?: boolean;
+}
+
+export interface ConversationPage {
+  conversation_id: string;
+  messages: ConversationMessage[];
+  total: number;
+  offset: number;
+  has_more: boolean;
+  other_last_read_at: string | null;
+}
+
+export const CONVERSATION_PAGE_SIZE = 30;
+
+export const fetchConversations = async (): Promise<{ conversations: Conversation[]; unread_total: number }> =>
+  authenticatedGet("/api/conversations");
+
+/**
+ * Returns the conversation with a connected user, starting it if needed
+ */
+export const openConversation = async (userId: string): Promise<Conversation> =>
+  authenticatedPost("/api/conversations", { user_id: userId });
+
+export const fetchConversation = async (conversationId: string): Promise<Conversation> =>
+  authenticatedGet(`/api/conversations/${conversationId}`);
+
+export const fetchConversationMessages = async (conversationId: string, offset = 0): Promise<ConversationPage> =>
+  authenticatedGet(
+    `/api/conversations/${conversationId}/messages?limit=${CONVERSATION_PAGE_SIZE}&offset=${offset}`
+  );
+
+export const sendConversationMessage = async (
+  conversationId: string,
+  body: string,
+  replyToId?: string
+): Promise<ConversationMessage> =>
+  authenticatedPost(`/api/conversations/${conversationId}/messages`, {
+    body,
+    ...(replyToId && { reply_to_id: replyToId }),
+  });
+
+export const markConversationRead = async (conversationId: string): Promise<void> => {
+  await authenticatedPost(`/api/conversations/${conversationId}/read`, {});
+};
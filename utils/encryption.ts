@@ -0,0 +1,249 @@
+import nacl from "tweetnacl";
+import { Platform } from "react-native";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+
+/**
+ * End-to-end encryption
+ *
+ * Message text is encrypted on the device with a random content key
+ * (XSalsa20-Poly1305) and only base64(nonce || ciphertext) is sent. The
+ * content key is sealed to every device key of the people allowed to read
+ * it (X25519 box with a throwaway sender key), or for link messages carried
+ * in the #k= fragment of the link, which is never sent to the server.
+ * Each device keeps its own keypair in secure storage; the public half is
+ * registered at /api/keys.
+ */
+
+export interface KeyEnvelope {
+  deviceKeyId: string;
+  ephemeralPublicKey: string;
+  nonce: string;
+  sealedKey: string;
+}
+
+export interface EncryptedFields {
+  content: string;
+  encrypted: true;
+  keys: KeyEnvelope[];
+}
+
+interface PublicDeviceKey {
+  id: string;
+  public_key: string;
+}
+
+interface StoredDeviceKey {
+  id: string;
+  deviceId: string;
+  publicKey: string;
+  secretKey: string;
+}
+
+const DEVICE_KEY_STORAGE_KEY = "acceptconnect_device_key";
+const LINK_KEY_PARAM = "k";
+
+// Hermes has no crypto.getRandomValues, which tweetnacl needs for keys and nonces
+nacl.setPRNG((output, length) => {
+  output.set(Crypto.getRandomBytes(length));
+});
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+};
+
+const readStoredKey = async (): Promise<StoredDeviceKey | null> => {
+  const raw =
+    Platform.OS === "web"
+      ? localStorage.getItem(DEVICE_KEY_STORAGE_KEY)
+      : await SecureStore.getItemAsync(DEVICE_KEY_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as StoredDeviceKey) : null;
+};
+
+const writeStoredKey = async (key: StoredDeviceKey) => {
+  const raw = JSON.stringify(key);
+  if (Platform.OS === "web") {
+    localStorage.setItem(DEVICE_KEY_STORAGE_KEY, raw);
+  } else {
+    await SecureStore.setItemAsync(DEVICE_KEY_STORAGE_KEY, raw);
+  }
+};
+
+let deviceKeyPromise: Promise<StoredDeviceKey> | null = null;
+
+const registerDeviceKey = async (): Promise<StoredDeviceKey> => {
+  const stored = await readStoredKey();
+  const deviceId = stored?.deviceId ?? Crypto.randomUUID();
+  const keyPair = stored
+    ? { publicKey: fromBase64(stored.publicKey), secretKey: fromBase64(stored.secretKey) }
+    : nacl.box.keyPair();
+
+  // Registering again is harmless and reactivates the key if it was revoked from another device
+  const registered = await authenticatedPost<{ id: string }>("/api/keys", {
+    device_id: deviceId,
+    public_key: toBase64(keyPair.publicKey),
+  });
+
+  const key: StoredDeviceKey = {
+    id: registered.id,
+    deviceId,
+    publicKey: toBase64(keyPair.publicKey),
+    secretKey: toBase64(keyPair.secretKey),
+  };
+  await writeStoredKey(key);
+  console.log("[Encryption] Device key ready:", key.id);
+  return key;
+};
+
+/**
+ * Creates this device's keypair on first use and makes sure the server knows its public key
+ * Registration runs once per app session
+ */
+export const ensureDeviceKey = async (): Promise<StoredDeviceKey> => {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = registerDeviceKey().catch((error) => {
+      deviceKeyPromise = null;
+      throw error;
+    });
+  }
+  return deviceKeyPromise;
+};
+
+const encryptContent = (plaintext: string): { content: string; contentKey: Uint8Array } => {
+  const contentKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const ciphertext = nacl.secretbox(new TextEncoder().encode(plaintext), nonce, contentKey);
+
+  const combined = new Uint8Array(nonce.length + ciphertext.length);
+  combined.set(nonce);
+  combined.set(ciphertext, nonce.length);
+  return { content: toBase64(combined), contentKey };
+};
+
+const decryptContent = (content: string, contentKey: Uint8Array): string | null => {
+  const combined = fromBase64(content);
+  const nonceLength = nacl.secretbox.nonceLength;
+  const plaintext = nacl.secretbox.open(
+    combined.subarray(nonceLength),
+    combined.subarray(0, nonceLength),
+    contentKey
+  );
+  return plaintext ? new TextDecoder().decode(plaintext) : null;
+};
+
+const sealContentKey = (contentKey: Uint8Array, deviceKey: PublicDeviceKey): KeyEnvelope => {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const sealedKey = nacl.box(contentKey, nonce, fromBase64(deviceKey.public_key), ephemeral.secretKey);
+
+  return {
+    deviceKeyId: deviceKey.id,
+    ephemeralPublicKey: toBase64(ephemeral.publicKey),
+    nonce: toBase64(nonce),
+    sealedKey: toBase64(sealedKey),
+  };
+};
+
+// The sender's own devices get envelopes too, so the text stays readable in their history
+const ownDeviceKeys = async (): Promise<PublicDeviceKey[]> => {
+  await ensureDeviceKey();
+  const response = await authenticatedGet<{ keys: (PublicDeviceKey & { revoked_at: string | null })[] }>(
+    "/api/keys"
+  );
+  return response.keys.filter((key) => !key.revoked_at);
+};
+
+/**
+ * Encrypts text for the given users and the sender's own devices
+ * Throws when a recipient has not set up encryption on any device
+ */
+export const encryptForUsers = async (plaintext: string, userIds: string[]): Promise<EncryptedFields> => {
+  const recipientKeys = await Promise.all(
+    userIds.map(async (userId) => {
+      const response = await authenticatedGet<{ keys: PublicDeviceKey[] }>(`/api/users/${userId}/keys`);
+      if (response.keys.length === 0) {
+        throw new Error("A recipient has not set up encryption on any device");
+      }
+      return response.keys;
+    })
+  );
+  const deviceKeys = [...(await ownDeviceKeys()), ...recipientKeys.flat()];
+
+  const { content, contentKey } = encryptContent(plaintext);
+  const unique = deviceKeys.filter((key, index) => deviceKeys.findIndex((other) => other.id === key.id) === index);
+
+  return { content, encrypted: true, keys: unique.map((key) => sealContentKey(contentKey, key)) };
+};
+
+/**
+ * Encrypts text for a link message
+ * Whoever opens the link reads it with linkKey, which belongs in the URL fragment (see withLinkKey)
+ */
+export const encryptForLink = async (plaintext: string): Promise<{ fields: EncryptedFields; linkKey: string }> => {
+  const deviceKeys = await ownDeviceKeys();
+  const { content, contentKey } = encryptContent(plaintext);
+
+  return {
+    fields: { content, encrypted: true, keys: deviceKeys.map((key) => sealContentKey(contentKey, key)) },
+    linkKey: toBase64Url(contentKey),
+  };
+};
+
+export const withLinkKey = (url: string, linkKey: string): string => `${url}#${LINK_KEY_PARAM}=${linkKey}`;
+
+/**
+ * Reads the content key from the fragment of a message link, if it has one
+ */
+export const readLinkKey = (url: string | null | undefined): string | null => {
+  const fragment = url?.split("#")[1];
+  if (!fragment) return null;
+  return new URLSearchParams(fragment).get(LINK_KEY_PARAM);
+};
+
+/**
+ * Decrypts message text with the link key, or else with this device's envelope
+ * Returns null when this device cannot read the message
+ */
+export const decryptMessage = async (
+  message: { id: string; content: string },
+  linkKey?: string | null
+): Promise<string | null> => {
+  try {
+    if (linkKey) {
+      const plaintext = decryptContent(message.content, fromBase64Url(linkKey));
+      if (plaintext !== null) return plaintext;
+    }
+
+    const deviceKey = await ensureDeviceKey();
+    const response = await authenticatedGet<{ keys: KeyEnvelope[] }>(`/api/messages/${message.id}/keys`);
+    const envelope = response.keys.find((key) => key.deviceKeyId === deviceKey.id);
+    if (!envelope) return null;
+
+    const contentKey = nacl.box.open(
+      fromBase64(envelope.sealedKey),
+      fromBase64(envelope.nonce),
+      fromBase64(envelope.ephemeralPublicKey),
+      fromBase64(deviceKey.secretKey)
+    );
+    return contentKey ? decryptContent(message.content, contentKey) : null;
+  } catch (error) {
+    console.error("[Encryption] Failed to decrypt message:", error);
+    return null;
+  }
+};
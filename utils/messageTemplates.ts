@@ -0,0 +1,83 @@
+import { authenticatedGet } from "@/utils/api";
+
+/**
+ * Message templates
+ *
+ * System and user-owned templates served by /api/message-templates.
+ * Bodies may contain {{recipient_name}}, {{date}} and {{place}} placeholders;
+ * the backend renders the final text when a message is created from a
+ * templateId, and renderTemplatePreview mirrors that for the UI.
+ */
+
+export type TemplateCategory = "social" | "food" | "sports" | "work" | "other";
+export type TemplateVariable = "recipient_name" | "date" | "place";
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+export interface MessageTemplate {
+  id: string;
+  title: string;
+  body: string;
+  category: TemplateCategory;
+  variables: TemplateVariable[];
+  is_system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateSelection {
+  templateId: string | null;
+  variables: TemplateValues;
+  /** Text the recipient will see, with unfilled placeholders left in place */
+  content: string;
+  /** Whether every placeholder has a value */
+  complete: boolean;
+}
+
+export const DEFAULT_MESSAGE = "Do you accept to have lunch with me?";
+
+export const DEFAULT_SELECTION: TemplateSelection = {
+  templateId: null,
+  variables: {},
+  content: DEFAULT_MESSAGE,
+  complete: true,
+};
+
+export const CATEGORY_LABELS: Record<TemplateCategory, string> = {
+  social: "Social",
+  food: "Food",
+  sports: "Sports",
+  work: "Work",
+  other: "Other",
+};
+
+export const VARIABLE_LABELS: Record<TemplateVariable, string> = {
+  recipient_name: "Recipient name",
+  date: "Date",
+  place: "Place",
+};
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export const fetchMessageTemplates = async (category?: TemplateCategory): Promise<MessageTemplate[]> => {
+  const query = category ? `?category=${category}` : "";
+  const response = await authenticatedGet<{ templates: MessageTemplate[] }>(`/api/message-templates${query}`);
+  return response.templates;
+};
+
+export const renderTemplatePreview = (body: string, values: TemplateValues): string =>
+  body.replace(PLACEHOLDER, (placeholder, name: TemplateVariable) => values[name]?.trim() || placeholder);
+
+export const selectTemplate = (template: MessageTemplate, values: TemplateValues): TemplateSelection => ({
+  templateId: template.id,
+  variables: values,
+  content: renderTemplatePreview(template.body, values),
+  complete: template.variables.every((name) => !!values[name]?.trim()),
+});
+
+/**
+ * Request fields for creating a message from the selection
+ */
+export const templateMessageFields = (selection: TemplateSelection) =>
+  selection.templateId
+    ? { templateId: selection.templateId, variables: selection.variables }
+    : { message: selection.content };
@@ -0,0 +1,228 @@
+import { Platform } from "react-native";
+import { BACKEND_URL, authenticatedPost, getBearerToken, isBackendConfigured } from "@/utils/api";
+import type { ConversationMessage } from "@/utils/conversations";
+
+/**
+ * Realtime
+ *
+ * Live events from the /api/realtime WebSocket. Every screen shares one
+ * socket: it opens with the first listener, closes with the last and
+ * reconnects with backoff in between. Events are not replayed, so after a
+ * dropped connection comes back listeners get a "reconnected" event and
+ * refetch whatever they show.
+ */
+
+export interface MessageStatusEvent {
+  message_id: string;
+  /** For groups this is the overall state; recipient_status is the actor's own answer */
+  status: "pending" | "accepted" | "rejected" | "revoked" | "countered";
+  actor_id: string;
+  thread_id: string | null;
+  counter_message_id?: string;
+  recipient_status?: string;
+  is_group?: boolean;
+}
+
+export type RealtimeEvent =
+  | { type: "reconnected" }
+  | { type: "message_status"; data: MessageStatusEvent }
+  | {
+      type: "connection_request";
+      data: { connection_id: string; requester_user_id: string; requester_name: string | null };
+    }
+  | {
+      type: "connection_status";
+      data: { connection_id: string; status: "accepted" | "rejected" | "cancelled"; user_id: string };
+    }
+  | {
+      type: "proximity_connect";
+      data: { session_id: string; recipient_id: string; recipient_name: string | null };
+    }
+  | {
+      type: "conversation_message";
+      data: ConversationMessage;
+    }
+  | {
+      type: "conversation_read";
+      data: { conversation_id: string; user_id: string; read_at: string | null };
+    };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// React Native's WebSocket takes request headers as a third argument, which the DOM typings lack
+const NativeWebSocket = WebSocket as unknown as new (
+  url: string,
+  protocols: string | string[] | null,
+  options: { headers: Record<string, string> }
+) => WebSocket;
+
+const listeners = new Set<RealtimeListener>();
+let socket: WebSocket | null = null;
+let connecting = false;
+let dropped = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+
+const emit = (event: RealtimeEvent) => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[Realtime] Listener failed:", error);
+    }
+  });
+};
+
+const scheduleReconnect = () => {
+  if (listeners.size === 0 || reconnectTimer) return;
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+};
+
+const fetchTicket = async (): Promise<string | null> => {
+  try {
+    const { ticket } = await authenticatedPost<{ ticket: string }>("/api/realtime/ticket", {});
+    return ticket;
+  } catch (error) {
+    console.error("[Realtime] Failed to get a ticket:", error);
+    return null;
+  }
+};
+
+const connect = async () => {
+  if (socket || connecting || !isBackendConfigured()) return;
+
+  connecting = true;
+  const token = await getBearerToken();
+  // Browsers cannot set headers on WebSocket requests; they pass a single-use ticket in the query
+  // instead, so the bearer token never ends up in a URL
+  const ticket = token && Platform.OS === "web" ? await fetchTicket() : null;
+  connecting = false;
+  if (!token || socket || listeners.size === 0) return;
+  if (Platform.OS === "web" && !ticket) {
+    scheduleReconnect();
+    return;
+  }
+
+  const url = `${BACKEND_URL.replace(/^http/, "ws")}/api/realtime`;
+
+  const ws = ticket
+    ? new WebSocket(`${url}?ticket=${encodeURIComponent(ticket)}`)
+    : new NativeWebSocket(url, null, { headers: { Authorization: `Bearer ${token}` } });
+  socket = ws;
+
+  ws.onopen = () => {
+    console.log("[Realtime] Connected");
+    reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    if (dropped) {
+      dropped = false;
+      emit({ type: "reconnected" });
+    }
+  };
+
+  ws.onmessage = (message) => {
+    try {
+      emit(JSON.parse(String(message.data)) as RealtimeEvent);
+    } catch (error) {
+      console.error("[Realtime] Malformed event:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    console.log("[Realtime] Disconnected");
+    if (socket === ws) {
+      socket = null;
+      dropped = true;
+      scheduleReconnect();
+    }
+  };
+};
+
+const disconnect = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  dropped = false;
+
+  const ws = socket;
+  socket = null;
+  ws?.close();
+};
+
+/**
+ * Listens for live events, opening the shared socket if needed
+ * Returns the function that stops listening
+ */
+export const subscribeRealtime = (listener: RealtimeListener): (() => void) => {
+  listeners.add(listener);
+  connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+};
+
+const SENDER_NOTICES: Partial<Record<MessageStatusEvent["status"], { title: string; message: string; type: "success" | "error" }>> = {
+  accepted: { title: "Request Accepted", message: "Your request was accepted", type: "success" },
+  rejected: { title: "Request Declined", message: "Your request was declined", type: "error" },
+  countered: { title: "Changes Proposed", message: "The recipient suggested changes to your request", type: "success" },
+  revoked: { title: "Consent Withdrawn", message: "Consent for your request was withdrawn", type: "error" },
+};
+
+/**
+ * What to tell a sender about an event, or null when it is not news to them
+ * Status changes made by someone else can only be answers to the user's own requests
+ */
+export const senderNotice = (
+  event: RealtimeEvent,
+  userId: string | undefined
+): { title: string; message: string; type: "success" | "error" } | null => {
+  if (event.type === "proximity_connect") {
+    return {
+      title: "Device Connected",
+      message: `${event.data.recipient_name || "Someone nearby"} joined your request`,
+      type: "success",
+    };
+  }
+
+  if (event.type !== "message_status" || event.data.actor_id === userId) {
+    return null;
+  }
+
+  // A group member answering moves the request along without settling it
+  if (event.data.is_group && event.data.status === "pending") {
+    return null;
+  }
+
+  return SENDER_NOTICES[event.data.status] ?? null;
+};
+
+/**
+ * Banner text for connection events on the nearby screen, or null when there is nothing to say
+ */
+export const connectionNotice = (event: RealtimeEvent, userId: string | undefined): string | null => {
+  if (event.type === "connection_request") {
+    return `${event.data.requester_name || "Someone nearby"} wants to connect with you`;
+  }
+
+  // Requests the user answered or withdrew themself are not news
+  if (event.type !== "connection_status" || event.data.user_id === userId) {
+    return null;
+  }
+
+  if (event.data.status === "accepted") return "Your connection request was accepted";
+  if (event.data.status === "rejected") return "Your connection request was declined";
+  return null;
+};